@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { CheckCircle, AlertTriangle, Shuffle } from 'lucide-react';
+import { autoStow, parseCargoList } from './stowage_planner';
+import type { StowageSolution } from './stowage_planner';
+import type { AdjacencyPolicy, ReferenceData, Tank } from './cargo_compatibility_engine';
+import { tankLabel } from './vessel_profile';
+import type { VesselProfile } from './vessel_profile';
+
+interface AutoStowPanelProps {
+  vessel: VesselProfile;
+  referenceData: ReferenceData;
+  adjacencyPolicy: AdjacencyPolicy;
+  onApply: (tanks: Record<string, Tank>) => void;
+}
+
+const AutoStowPanel = ({ vessel, referenceData, adjacencyPolicy, onApply }: AutoStowPanelProps) => {
+  const [cargoList, setCargoList] = useState('');
+  const [solution, setSolution] = useState<StowageSolution | null>(null);
+
+  const planStowage = () => {
+    setSolution(autoStow(vessel, parseCargoList(cargoList, vessel), referenceData, { adjacencyPolicy }));
+  };
+
+  const loadedTanks = solution
+    ? Object.entries(solution.tanks).filter(([_, tank]) => tank.chemical)
+    : [];
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg">
+      <h2 className="text-xl font-semibold mb-2">Auto-Stow</h2>
+      <p className="text-sm text-gray-600 mb-2">
+        One cargo per line. Pin a cargo to a tank with "@", e.g. <span className="font-mono">Methanol @ A3</span>.
+      </p>
+      <textarea
+        value={cargoList}
+        onChange={(e) => setCargoList(e.target.value)}
+        rows={5}
+        className="w-full p-2 border rounded-md font-mono text-sm"
+        placeholder={'Methanol @ A1\nAcetone\nSulfuric acid'}
+      />
+      <button
+        onClick={planStowage}
+        disabled={!cargoList.trim()}
+        className="mt-2 flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300"
+      >
+        <Shuffle className="w-4 h-4" />
+        Plan Stowage
+      </button>
+
+      {solution && (
+        <div className="mt-4 space-y-2">
+          {solution.complete ? (
+            <div className="flex items-center gap-2 text-green-700 font-medium">
+              <CheckCircle className="w-5 h-5 text-green-500" />
+              All cargoes stowed with no incompatible adjacencies
+            </div>
+          ) : (
+            <div className="p-3 bg-yellow-50 border border-yellow-200 rounded">
+              <div className="flex items-center gap-2 font-medium text-yellow-800 mb-1">
+                <AlertTriangle className="w-5 h-5 text-yellow-500" />
+                No complete stowage found: showing best partial plan
+              </div>
+              {solution.explanation.map((line, index) => (
+                <p key={index} className="text-sm text-yellow-700">{line}</p>
+              ))}
+            </div>
+          )}
+          <div className="flex flex-wrap gap-2 text-sm">
+            {loadedTanks.map(([tankId, tank]) => (
+              <span key={tankId} className="px-2 py-1 bg-white border rounded">
+                {tankLabel(vessel, tankId)}: {tank.chemical}
+              </span>
+            ))}
+          </div>
+          <button
+            onClick={() => onApply(solution.tanks)}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-200 rounded-md hover:bg-gray-300"
+          >
+            Apply to Tanks
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AutoStowPanel;
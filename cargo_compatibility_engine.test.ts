@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import { analyze, buildCompatibilityChart, checkPair, emptyReferenceData } from './cargo_compatibility_engine';
+import type { Chemical, ReferenceData, Tank } from './cargo_compatibility_engine';
+import { createGridProfile } from './vessel_profile';
+
+const ACID: Chemical = { name: 'Acetic acid', group: 4 };
+const CAUSTIC: Chemical = { name: 'Caustic soda', group: 5 };
+const WATER: Chemical = { name: 'Water', group: 43 };
+const ALCOHOL: Chemical = { name: 'Methanol', group: 20 };
+
+const referenceData = (overrides: Partial<ReferenceData> = {}): ReferenceData => ({
+  ...emptyReferenceData(),
+  chemicals: [ACID, CAUSTIC, WATER, ALCOHOL].map(chemical => ({ 'Chemical name': chemical.name, 'Group No.': chemical.group })),
+  chart: buildCompatibilityChart([
+    { 'REACTIVE GROUP': '4. Organic acids', '5': 'X' },
+    { 'REACTIVE GROUP': '5. Caustics', '4': 'X' }
+  ]),
+  ...overrides
+});
+
+const tank = (chemical: Chemical | null): Tank => ({
+  chemical: chemical ? chemical.name : '',
+  group: chemical ? chemical.group : null,
+  chemicalData: chemical
+});
+
+// Two tanks side by side, one row
+const vessel = createGridProfile(2, 1);
+
+const plan = (tanks: Record<string, Tank>) => ({ vessel, tanks });
+
+describe('buildCompatibilityChart', () => {
+  it('reads the X cells of each reactive group row', () => {
+    expect(buildCompatibilityChart([{ 'REACTIVE GROUP': '4. Organic acids', '5': 'X', '6': '', '7': 'X' }]))
+      .toEqual({ 4: { 5: 'X', 7: 'X' } });
+  });
+});
+
+describe('checkPair', () => {
+  it('reports a chart hit as incompatible', () => {
+    expect(checkPair('Acetic acid', 4, 'Caustic soda', 5, referenceData())).toMatchObject({
+      compatibility: 'incompatible',
+      baseCompatibility: 'incompatible',
+      exception: null
+    });
+  });
+
+  it('treats groups the chart does not mark as compatible', () => {
+    expect(checkPair('Acetic acid', 4, 'Methanol', 20, referenceData()).compatibility).toBe('compatible');
+  });
+
+  it('lets a compatible exception override the chart', () => {
+    const data = referenceData({ compatibleExceptions: [{ 'Chemical Name': 'Caustic soda', 'Compatible Chemical Name': 'Acetic acid' }] });
+    expect(checkPair('Acetic acid', 4, 'Caustic soda', 5, data)).toMatchObject({
+      compatibility: 'compatible_exception',
+      baseCompatibility: 'incompatible',
+      exception: 'compatible_exception'
+    });
+  });
+
+  it('lets an incompatible exception override the chart', () => {
+    const data = referenceData({ incompatibleExceptions: [{ 'Chemical Name': 'Water', 'Incompatible Group': '20, 30' }] });
+    expect(checkPair('Water', 43, 'Methanol', 20, data)).toMatchObject({
+      compatibility: 'incompatible_exception',
+      baseCompatibility: 'compatible',
+      exception: 'incompatible_exception'
+    });
+  });
+
+  it('does not apply an incompatible exception to other groups', () => {
+    const data = referenceData({ incompatibleExceptions: [{ 'Chemical Name': 'Water', 'Incompatible Group': '20' }] });
+    expect(checkPair('Water', 43, 'Acetic acid', 4, data).compatibility).toBe('compatible');
+  });
+});
+
+describe('footnote bans', () => {
+  const withPhenol = (rows: Record<string, any>[]) => referenceData({
+    chemicals: [...referenceData().chemicals, ...rows]
+  });
+
+  it('makes a pair the chart allows incompatible', () => {
+    const data = withPhenol([{ 'Chemical name': 'Phenol', 'Group No.': 21, 'Footnote': 'Not adjacent to group 6' }]);
+    expect(checkPair('Phenol', 21, 'Ammonia', 6, data)).toMatchObject({ compatibility: 'incompatible_footnote', baseCompatibility: 'compatible' });
+    expect(checkPair('Ammonia', 6, 'Phenol', 21, data).compatibility).toBe('incompatible_footnote');
+    expect(checkPair('Phenol', 21, 'Methanol', 20, data).compatibility).toBe('compatible');
+  });
+
+  it('applies a ban on a range of groups to every group in it', () => {
+    const data = withPhenol([{ 'Chemical name': 'Phenol', 'Group No.': 21, 'Footnote': 'Not adjacent to groups 5-10' }]);
+    expect(checkPair('Phenol', 21, 'Aniline', 9, data)).toMatchObject({ compatibility: 'incompatible_footnote' });
+    expect(checkPair('Aniline', 9, 'Phenol', 21, data)).toMatchObject({ compatibility: 'incompatible_footnote' });
+    expect(checkPair('Phenol', 21, 'Methanol', 20, data).compatibility).toBe('compatible');
+  });
+
+  it('keeps the ban when several index rows share the name', () => {
+    const data = withPhenol([
+      { 'Chemical name': 'Phenol', 'Group No.': 21, 'Footnote': 'Not adjacent to group 6' },
+      { 'Chemical name': 'Phenol', 'Group No.': 21, 'Synonyms': 'Carbolic acid' }
+    ]);
+    expect(checkPair('Phenol', 21, 'Ammonia', 6, data).compatibility).toBe('incompatible_footnote');
+  });
+
+  it('gives way to a compatible exception', () => {
+    const data = withPhenol([{ 'Chemical name': 'Phenol', 'Group No.': 21, 'Footnote': 'Not adjacent to group 6' }]);
+    data.compatibleExceptions = [{ 'Chemical Name': 'Phenol', 'Compatible Chemical Name': 'Ammonia' }];
+    expect(checkPair('Phenol', 21, 'Ammonia', 6, data).compatibility).toBe('compatible');
+  });
+});
+
+describe('analyze', () => {
+  it('reports incompatible neighbours from both sides', () => {
+    const result = analyze(plan({ '0-0': tank(ACID), '0-1': tank(CAUSTIC) }), referenceData());
+    expect(result.problems).toHaveLength(2);
+    expect(result.problems[0]).toMatchObject({ tank1: '0-0', tank2: '0-1', adjacencyType: 'bulkhead', compatibility: 'incompatible' });
+    expect(result.results['0-0'].adjacentCompatibility['0-1'].compatibility).toBe('incompatible');
+  });
+
+  it('skips empty tanks', () => {
+    const result = analyze(plan({ '0-0': tank(ACID), '0-1': tank(null) }), referenceData());
+    expect(result.problems).toEqual([]);
+    expect(Object.keys(result.results)).toEqual(['0-0']);
+    expect(result.results['0-0'].adjacentCompatibility).toEqual({});
+  });
+
+  it('returns nothing for a plan with no cargo', () => {
+    expect(analyze(plan({}), referenceData())).toEqual({ results: {}, problems: [], warnings: [] });
+  });
+
+  it('does not report contacts the adjacency policy leaves out', () => {
+    const result = analyze(plan({ '0-0': tank(ACID), '0-1': tank(CAUSTIC) }), referenceData(), {
+      adjacencyPolicy: { bulkhead: false, corner: true, vertical: true, cofferdam: false }
+    });
+    expect(result.problems).toEqual([]);
+    expect(result.results['0-0'].adjacentCompatibility['0-1'].enforced).toBe(false);
+  });
+
+  it('lists footnotes a person has to read', () => {
+    const data = referenceData({ chemicals: [{ 'Chemical name': 'Acetic acid', 'Group No.': 4, 'Footnote': 'Depends on concentration' }] });
+    const result = analyze(plan({ '0-0': { chemical: 'Acetic acid', group: 4 } }), data);
+    expect(result.warnings).toEqual([{ tank: '0-0', chemical: 'Acetic acid', note: 'Depends on concentration' }]);
+  });
+
+  it('checks the components of a commingled tank against each other', () => {
+    const blend: Tank = {
+      chemical: 'Acetic acid',
+      group: 4,
+      components: [{ chemical: 'Acetic acid', group: 4, proportion: 60 }, { chemical: 'Caustic soda', group: 5, proportion: 40 }]
+    };
+    const result = analyze(plan({ '0-0': blend }), referenceData());
+    expect(result.problems).toEqual([expect.objectContaining({ tank1: '0-0', tank2: '0-0', adjacencyType: 'same_tank' })]);
+  });
+});
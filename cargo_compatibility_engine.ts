@@ -0,0 +1,474 @@
+// Headless compatibility engine. Everything in here is pure: it takes a stowage
+// plan plus the loaded reference data and returns the analysis, so it can be
+// used without rendering CargoCompatibilityTool.
+import { ADJACENCY_TYPE_LABELS, getAdjacencies } from './vessel_profile';
+import type { AdjacencyType, VesselProfile } from './vessel_profile';
+import { findFootnoteConflict, manualReviewNotes, parseFootnote } from './chemical_footnotes';
+import type { FootnoteRule } from './chemical_footnotes';
+import { resolveChemical } from './chemical_lookup';
+
+// Domain types
+export type ReactiveGroup = number;
+
+export interface Chemical {
+  name: string;
+  group: ReactiveGroup | null;
+  footnote?: string | number | null;
+  synonyms?: string[];
+  unNumber?: string;
+  casNumber?: string;
+}
+
+export interface PreviousCargo {
+  chemical: string;
+  group: ReactiveGroup | null;
+  chemicalData?: Chemical | null;
+}
+
+// One product of a commingled cargo or blend; proportion in percent by volume
+export interface TankComponent {
+  chemical: string;
+  group: ReactiveGroup | null;
+  chemicalData?: Chemical | null;
+  proportion?: number | null;
+}
+
+// Cubic metres or metric tonnes
+export type QuantityUnit = 'm3' | 't';
+
+export interface Tank {
+  chemical: string;
+  group: ReactiveGroup | null;
+  chemicalData?: Chemical | null;
+  // Set for commingled cargoes and blends; chemical and group then describe
+  // the main component
+  components?: TankComponent[];
+  // Nominated quantity, as given in the cargo manifest; cubic metres unless
+  // quantityUnit says otherwise
+  quantity?: number | null;
+  quantityUnit?: QuantityUnit;
+  // t/m³ at loading temperature, to convert between volume and weight
+  density?: number | null;
+  // Last cargoes carried, most recent first
+  previousCargoes?: PreviousCargo[];
+}
+
+export interface StowagePlan {
+  vessel: VesselProfile;
+  tanks: Record<string, Tank>;
+}
+
+// Rows as they come out of the uploaded spreadsheets
+export type ChemicalIndexRow = Record<string, any>;
+export type CompatibilityChartRow = Record<string, any>;
+export type CompatibleExceptionRow = Record<string, any>;
+export type IncompatibleExceptionRow = Record<string, any>;
+
+// chart[group1][group2] === 'X' when the two groups are incompatible
+export type CompatibilityChart = Record<ReactiveGroup, Record<ReactiveGroup, 'X'>>;
+
+export interface ReferenceData {
+  chemicals: ChemicalIndexRow[];
+  chart: CompatibilityChart;
+  compatibleExceptions: CompatibleExceptionRow[];
+  incompatibleExceptions: IncompatibleExceptionRow[];
+}
+
+export type BaseCompatibility = 'compatible' | 'incompatible';
+export type ExceptionKind = 'compatible_exception' | 'incompatible_exception';
+export type Compatibility = BaseCompatibility | ExceptionKind | 'incompatible_footnote';
+
+// Where two cargoes meet: across a tank boundary or inside one tank
+export type ContactType = AdjacencyType | 'same_tank';
+
+export const CONTACT_TYPE_LABELS: Record<ContactType, string> = {
+  ...ADJACENCY_TYPE_LABELS,
+  same_tank: 'Same tank (commingled)'
+};
+
+export interface PairResult {
+  // The neighbour's component in the worst pair
+  chemical: string;
+  group: ReactiveGroup | null;
+  // This tank's component in the worst pair
+  ownChemical: string;
+  ownGroup: ReactiveGroup | null;
+  compatibility: Compatibility;
+  baseCompatibility: BaseCompatibility;
+  exception: ExceptionKind | null;
+  footnote: FootnoteRule | null;
+  adjacencyType: AdjacencyType;
+  // false when the adjacency policy does not require this contact to be compatible
+  enforced: boolean;
+}
+
+// Two components loaded into the same tank
+export interface IntraTankPair {
+  chemical1: string;
+  group1: ReactiveGroup | null;
+  chemical2: string;
+  group2: ReactiveGroup | null;
+  compatibility: Compatibility;
+  baseCompatibility: BaseCompatibility;
+  exception: ExceptionKind | null;
+  footnote: FootnoteRule | null;
+}
+
+export interface TankResult {
+  chemical: string;
+  group: ReactiveGroup | null;
+  components: TankComponent[];
+  // Worst component pair per adjacent tank
+  adjacentCompatibility: Record<string, PairResult>;
+  intraTank: IntraTankPair[];
+  manualReview: string[];
+}
+
+// For 'same_tank' problems tank1 and tank2 are the same tank
+export interface Problem {
+  tank1: string;
+  tank2: string;
+  chemical1: string;
+  chemical2: string;
+  compatibility: Compatibility;
+  adjacencyType: ContactType;
+}
+
+// Footnotes that cannot be machine-evaluated
+export interface ManualReviewWarning {
+  tank: string;
+  chemical: string;
+  note: string;
+}
+
+export interface AnalysisResult {
+  results: Record<string, TankResult>;
+  problems: Problem[];
+  warnings: ManualReviewWarning[];
+}
+
+// Which kinds of contact must carry compatible cargoes
+export type AdjacencyPolicy = Record<AdjacencyType, boolean>;
+
+export const DEFAULT_ADJACENCY_POLICY: AdjacencyPolicy = {
+  bulkhead: true,
+  corner: true,
+  vertical: true,
+  cofferdam: false
+};
+
+export interface AnalysisOptions {
+  adjacencyPolicy?: AdjacencyPolicy;
+}
+
+export const emptyReferenceData = (): ReferenceData => ({
+  chemicals: [],
+  chart: {},
+  compatibleExceptions: [],
+  incompatibleExceptions: []
+});
+
+export const isLoaded = (tank: Tank | undefined | null): tank is Tank =>
+  !!tank && !!tank.chemical && tank.chemical.trim() !== '';
+
+export const toTank = (chemical: Chemical): Tank => ({
+  chemical: chemical.name,
+  group: chemical.group,
+  chemicalData: chemical
+});
+
+// Everything in the tank; a single-cargo tank has one component
+export const tankComponents = (tank: Tank | undefined | null): TankComponent[] => {
+  if (!isLoaded(tank)) return [];
+  return tank.components && tank.components.length > 0
+    ? tank.components
+    : [{ chemical: tank.chemical, group: tank.group, chemicalData: tank.chemicalData }];
+};
+
+export const isIncompatible = (compatibility: Compatibility | null | undefined) =>
+  !!compatibility && compatibility.includes('incompatible');
+
+// Process compatibility chart rows into a usable format
+export const buildCompatibilityChart = (chartRows: CompatibilityChartRow[]): CompatibilityChart => {
+  const chartMap: CompatibilityChart = {};
+  chartRows.forEach(row => {
+    if (row && row['REACTIVE GROUP'] && row['REACTIVE GROUP'].includes('.')) {
+      const groupNum = parseInt(row['REACTIVE GROUP'].split('.')[0]);
+      chartMap[groupNum] = {};
+      // Check all numeric columns for 'X' values
+      Object.keys(row).forEach(key => {
+        if (!isNaN(parseInt(key)) && row[key] === 'X') {
+          chartMap[groupNum][parseInt(key)] = 'X';
+        }
+      });
+    }
+  });
+  return chartMap;
+};
+
+// Chemical search and validation. Only an unambiguous name, synonym, UN or
+// CAS number counts; use resolveChemical to get candidates for anything else.
+export const findChemical = (chemicalName: string, chemicals: ChemicalIndexRow[]): Chemical | null => {
+  if (!chemicalName || !chemicalName.trim()) return null;
+  if (!chemicals || chemicals.length === 0) return null;
+
+  const lookup = resolveChemical(chemicalName, chemicals);
+  return lookup.status === 'found' ? lookup.chemical : null;
+};
+
+// Check compatibility between two groups
+export const checkGroupCompatibility = (
+  group1: ReactiveGroup | null,
+  group2: ReactiveGroup | null,
+  chart: CompatibilityChart
+): BaseCompatibility => {
+  if (group1 === null || group2 === null) return 'compatible';
+
+  // Check base compatibility from chart
+  const isIncompatible = chart[group1] && chart[group1][group2];
+
+  if (isIncompatible) {
+    return 'incompatible';
+  }
+
+  return 'compatible';
+};
+
+// The exception row that applies to a pair, if any
+export interface ExceptionMatch {
+  kind: ExceptionKind;
+  row: CompatibleExceptionRow | IncompatibleExceptionRow;
+}
+
+// Find the exception row for a pair; compatible exceptions take precedence
+export const findException = (
+  chemical1: string,
+  group1: ReactiveGroup | null,
+  chemical2: string,
+  group2: ReactiveGroup | null,
+  referenceData: ReferenceData
+): ExceptionMatch | null => {
+  if (!chemical1 || !chemical2 || group1 === null || group2 === null) {
+    return null;
+  }
+
+  // Check compatible exceptions
+  const compatibleException = referenceData.compatibleExceptions.find(ex =>
+    ex && ex['Chemical Name'] && ex['Compatible Chemical Name'] &&
+    ((ex['Chemical Name'] === chemical1 && ex['Compatible Chemical Name'] === chemical2) ||
+    (ex['Chemical Name'] === chemical2 && ex['Compatible Chemical Name'] === chemical1))
+  );
+
+  if (compatibleException) {
+    return { kind: 'compatible_exception', row: compatibleException };
+  }
+
+  // Check incompatible exceptions
+  const incompatibleException = referenceData.incompatibleExceptions.find(ex => {
+    if (!ex || !ex['Chemical Name'] || !ex['Incompatible Group']) {
+      return false;
+    }
+    if (ex['Chemical Name'] === chemical1 || ex['Chemical Name'] === chemical2) {
+      try {
+        const incompatibleGroups = ex['Incompatible Group'].toString().split(',').map((g: string) => parseInt(g.trim()));
+        return incompatibleGroups.includes(group1) || incompatibleGroups.includes(group2);
+      } catch (error) {
+        return false;
+      }
+    }
+    return false;
+  });
+
+  if (incompatibleException) {
+    return { kind: 'incompatible_exception', row: incompatibleException };
+  }
+
+  return null;
+};
+
+// Check for exceptions
+export const checkExceptions = (
+  chemical1: string,
+  group1: ReactiveGroup | null,
+  chemical2: string,
+  group2: ReactiveGroup | null,
+  referenceData: ReferenceData
+): ExceptionKind | null => findException(chemical1, group1, chemical2, group2, referenceData)?.kind || null;
+
+const normalizeName = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Footnote rules by chemical name, parsed once per chemical index. Rows that
+// share a name all contribute, so an ambiguous name keeps every restriction.
+const footnoteIndexes = new WeakMap<ChemicalIndexRow[], Map<string, FootnoteRule[]>>();
+
+const footnoteIndex = (chemicals: ChemicalIndexRow[]) => {
+  const cached = footnoteIndexes.get(chemicals);
+  if (cached) return cached;
+  const index = new Map<string, FootnoteRule[]>();
+  chemicals.forEach(row => {
+    if (!row || !row['Chemical name']) return;
+    const rules = parseFootnote(row['Footnote']);
+    if (rules.length === 0) return;
+    const name = normalizeName(row['Chemical name'].toString());
+    index.set(name, [...(index.get(name) || []), ...rules]);
+  });
+  footnoteIndexes.set(chemicals, index);
+  return index;
+};
+
+export const footnoteRules = (chemical: string, referenceData: ReferenceData): FootnoteRule[] =>
+  footnoteIndex(referenceData.chemicals || []).get(normalizeName(chemical || '')) || [];
+
+export interface PairCheck {
+  compatibility: Compatibility;
+  baseCompatibility: BaseCompatibility;
+  exception: ExceptionKind | null;
+  footnote: FootnoteRule | null;
+}
+
+// Combine the chart verdict with any exception or footnote that overrides it
+const comparePair = (
+  chemical1: string,
+  group1: ReactiveGroup | null,
+  chemical2: string,
+  group2: ReactiveGroup | null,
+  referenceData: ReferenceData
+): PairCheck => {
+  const baseCompatibility = checkGroupCompatibility(group1, group2, referenceData.chart);
+  const exception = checkExceptions(chemical1, group1, chemical2, group2, referenceData);
+
+  let finalCompatibility: Compatibility = baseCompatibility;
+  if (exception === 'compatible_exception' && baseCompatibility === 'incompatible') {
+    finalCompatibility = 'compatible_exception';
+  } else if (exception === 'incompatible_exception' && baseCompatibility === 'compatible') {
+    finalCompatibility = 'incompatible_exception';
+  }
+
+  // Footnote group bans apply unless the pair is explicitly listed as compatible
+  const footnote = findFootnoteConflict(footnoteRules(chemical1, referenceData), group2) ||
+    findFootnoteConflict(footnoteRules(chemical2, referenceData), group1);
+  if (footnote && exception !== 'compatible_exception' && finalCompatibility === 'compatible') {
+    finalCompatibility = 'incompatible_footnote';
+  }
+
+  return { compatibility: finalCompatibility, baseCompatibility, exception, footnote };
+};
+
+// Results per reference data; loaded reference data is never modified, so a
+// pair only has to be worked out once however often a plan is re-analyzed
+const pairCaches = new WeakMap<ReferenceData, Map<string, PairCheck>>();
+
+export const checkPair = (
+  chemical1: string,
+  group1: ReactiveGroup | null,
+  chemical2: string,
+  group2: ReactiveGroup | null,
+  referenceData: ReferenceData
+): PairCheck => {
+  let cache = pairCaches.get(referenceData);
+  if (!cache) {
+    cache = new Map();
+    pairCaches.set(referenceData, cache);
+  }
+  const key = JSON.stringify([chemical1, group1, chemical2, group2]);
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const result = comparePair(chemical1, group1, chemical2, group2, referenceData);
+  cache.set(key, result);
+  return result;
+};
+
+// Perform compatibility analysis
+export const analyze = (plan: StowagePlan, referenceData: ReferenceData, options: AnalysisOptions = {}): AnalysisResult => {
+  const results: Record<string, TankResult> = {};
+  const problems: Problem[] = [];
+  const warnings: ManualReviewWarning[] = [];
+  const { tanks, vessel } = plan;
+  const policy = options.adjacencyPolicy || DEFAULT_ADJACENCY_POLICY;
+
+  Object.keys(tanks).forEach(tankId => {
+    const tank = tanks[tankId];
+    if (!isLoaded(tank)) return;
+
+    const adjacentTanks = getAdjacencies(vessel, tankId);
+    const components = tankComponents(tank);
+
+    const manualReview: string[] = [];
+    components.forEach(component => {
+      const footnote = component.chemicalData
+        ? component.chemicalData.footnote
+        : findChemical(component.chemical, referenceData.chemicals)?.footnote;
+      manualReviewNotes(footnote).forEach(note => {
+        manualReview.push(note);
+        warnings.push({ tank: tankId, chemical: component.chemical, note });
+      });
+    });
+
+    // Every pair of components inside the tank, always enforced
+    const intraTank: IntraTankPair[] = [];
+    components.forEach((first, index) => {
+      components.slice(index + 1).forEach(second => {
+        const pair = checkPair(first.chemical, first.group, second.chemical, second.group, referenceData);
+        intraTank.push({ chemical1: first.chemical, group1: first.group, chemical2: second.chemical, group2: second.group, ...pair });
+        if (isIncompatible(pair.compatibility)) {
+          problems.push({
+            tank1: tankId,
+            tank2: tankId,
+            chemical1: first.chemical,
+            chemical2: second.chemical,
+            compatibility: pair.compatibility,
+            adjacencyType: 'same_tank'
+          });
+        }
+      });
+    });
+
+    results[tankId] = {
+      chemical: tank.chemical,
+      group: tank.group,
+      components,
+      adjacentCompatibility: {},
+      intraTank,
+      manualReview
+    };
+
+    adjacentTanks.forEach(({ tankId: adjTankId, type: adjacencyType }) => {
+      const adjTank = tanks[adjTankId];
+      if (!isLoaded(adjTank)) return;
+
+      // Each component against each component next door
+      const pairs = components.flatMap(component => tankComponents(adjTank).map(adjComponent => ({
+        component,
+        adjComponent,
+        pair: checkPair(component.chemical, component.group, adjComponent.chemical, adjComponent.group, referenceData)
+      })));
+      const enforced = !!policy[adjacencyType];
+      const worst = pairs.find(({ pair }) => isIncompatible(pair.compatibility)) || pairs[0];
+
+      results[tankId].adjacentCompatibility[adjTankId] = {
+        chemical: worst.adjComponent.chemical,
+        group: worst.adjComponent.group,
+        ownChemical: worst.component.chemical,
+        ownGroup: worst.component.group,
+        ...worst.pair,
+        adjacencyType,
+        enforced
+      };
+
+      if (!enforced) return;
+      pairs.filter(({ pair }) => isIncompatible(pair.compatibility)).forEach(({ component, adjComponent, pair }) => {
+        problems.push({
+          tank1: tankId,
+          tank2: adjTankId,
+          chemical1: component.chemical,
+          chemical2: adjComponent.chemical,
+          compatibility: pair.compatibility,
+          adjacencyType
+        });
+      });
+    });
+  });
+
+  return { results, problems, warnings };
+};
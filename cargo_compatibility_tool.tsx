@@ -1,62 +1,128 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import { AlertTriangle, CheckCircle, XCircle, Info, Download, Upload, RotateCcw, Ship, Database, FileText } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { AlertTriangle, CheckCircle, XCircle, Info, Upload, RotateCcw, Ship, Database, FileText, Settings } from 'lucide-react';
+import { analyze, CONTACT_TYPE_LABELS, DEFAULT_ADJACENCY_POLICY, isIncompatible, isLoaded, tankComponents } from './cargo_compatibility_engine';
+import type { AdjacencyPolicy, AnalysisResult, Chemical, Tank } from './cargo_compatibility_engine';
+import { resolveChemical, searchChemicals } from './chemical_lookup';
+import type { ChemicalMatch } from './chemical_lookup';
+import { ADJACENCY_TYPE_LABELS, canHoldCargo, createGridProfile, gridSize, tankLabel } from './vessel_profile';
+import type { VesselProfile } from './vessel_profile';
+import { manualReviewNotes } from './chemical_footnotes';
+import VesselLayoutEditor from './vessel_layout_editor';
+import AutoStowPanel from './auto_stow_panel';
+import { buildReferenceData, readReferenceBundle, readReferenceFile, REFERENCE_FILE_KEYS, rowsOf } from './reference_data_loader';
+import { validateReferenceFiles } from './reference_data_schema';
+import type { ReferenceRows } from './reference_data_loader';
+import type { ValidationReport } from './reference_data_schema';
+import ReferenceDiagnosticsPanel from './reference_diagnostics_panel';
+import { auditReferenceData, symmetrizeChart } from './reference_data_audit';
+import ReferenceAuditPanel from './reference_audit_panel';
+import { editionInfo, hashReferenceRows, listEditions, readActiveEdition, writeActiveEdition } from './reference_library';
+import type { ReferenceEdition, ReferenceEditionInfo } from './reference_library';
+import ReferenceLibraryPanel from './reference_library_panel';
+import { createPlan, fitTanksToVessel, readAutosave, writeAutosave } from './stowage_plan_storage';
+import type { SavedStowagePlan } from './stowage_plan_storage';
+import StowagePlanPanel from './stowage_plan_panel';
+import {
+  appendChanges,
+  describePlanChanges,
+  emptyHistory,
+  pushUndo,
+  readUserName,
+  redoStep,
+  samePlan,
+  undoStep,
+  writeUserName
+} from './plan_history';
+import type { ChangeAction, ChangeLogEntry, PlanHistory, PlanSnapshot } from './plan_history';
+import PlanHistoryPanel from './plan_history_panel';
+import VoyageTimelinePanel from './voyage_timeline_panel';
+import { assessCleaning, CLEANING_LEVEL_LABELS } from './tank_cleaning';
+import { CARRIAGE_REQUIREMENT_LABELS, checkCarriage, readCargoRequirements } from './cargo_requirements';
+import type { CargoRequirements } from './cargo_requirements';
+import { evaluateCompanyRules, loadCompanyRules, readStoredRules } from './company_rules';
+import type { LoadedCompanyRules } from './company_rules';
+import CompanyRulesPanel from './company_rules_panel';
+import { generateComplianceReport } from './compliance_report';
+import type { ReferenceSource } from './compliance_report';
+import { sha256Hex } from './content_hash';
+import ReportExportPanel from './report_export_panel';
+import PairExplanationPanel from './pair_explanation_panel';
+import PlanComparisonPanel from './plan_comparison_panel';
+import ConflictResolutionPanel from './conflict_resolution_panel';
+import ManifestImportPanel from './manifest_import_panel';
+import TankHistoryEditor from './tank_history_editor';
+import { describeTank, isBlendText, resolveBlend } from './tank_blends';
+import { assessQuantities, DEFAULT_FILL_LIMIT, QUANTITY_UNIT_LABELS } from './tank_quantities';
+import TankQuantitiesPanel from './tank_quantities_panel';
 
 const CargoCompatibilityTool = () => {
   // State management
-  const [tankLayout, setTankLayout] = useState({ width: 4, length: 8 });
-  const [tanks, setTanks] = useState({});
+  // Work in progress from the last session, if any
+  const [autosaved] = useState<SavedStowagePlan | null>(() => readAutosave());
+  const [tankLayout, setTankLayout] = useState(() => autosaved ? gridSize(autosaved.vessel) : { width: 4, length: 8 });
+  const [vessel, setVessel] = useState<VesselProfile>(() => autosaved ? autosaved.vessel : createGridProfile(4, 8));
+  const [showLayoutEditor, setShowLayoutEditor] = useState(false);
+  const [adjacencyPolicy, setAdjacencyPolicy] = useState<AdjacencyPolicy>(DEFAULT_ADJACENCY_POLICY);
+  const [fillLimit, setFillLimit] = useState(DEFAULT_FILL_LIMIT);
+  const [tanks, setTanks] = useState<Record<string, Tank>>(() => autosaved ? autosaved.tanks : {});
+  const [planName, setPlanName] = useState(() => autosaved ? autosaved.name : 'Untitled plan');
+  const [planNotes, setPlanNotes] = useState(() => autosaved ? autosaved.notes : '');
+  const [planHistory, setPlanHistory] = useState<PlanHistory>(emptyHistory);
+  const [changeLog, setChangeLog] = useState<ChangeLogEntry[]>(() => autosaved ? autosaved.changeLog : []);
+  const [userName, setUserName] = useState(() => readUserName());
+  // The plan as last recorded; edits are diffed against it
+  const lastSnapshot = useRef<PlanSnapshot | null>(null);
   const [chemicalDatabase, setChemicalDatabase] = useState([]);
   const [compatibilityChart, setCompatibilityChart] = useState({});
   const [compatibleExceptions, setCompatibleExceptions] = useState([]);
   const [incompatibleExceptions, setIncompatibleExceptions] = useState([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [analysisResults, setAnalysisResults] = useState(null);
+  const [analysisResults, setAnalysisResults] = useState<AnalysisResult | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedTank, setSelectedTank] = useState(null);
+  // Tank whose contacts are explained, and the neighbour of a clicked problem
+  const [explanation, setExplanation] = useState<{ tankId: string; focusTankId: string | null } | null>(null);
+  // Index of the problem whose fix suggestions are shown
+  const [resolvingProblem, setResolvingProblem] = useState<number | null>(null);
+  // Text typed into a tank card that has not been resolved to a chemical yet
+  const [tankDrafts, setTankDrafts] = useState<Record<string, string>>({});
+  const [tankCandidates, setTankCandidates] = useState<Record<string, ChemicalMatch[]>>({});
   const [errors, setErrors] = useState([]);
   const [uploadedFiles, setUploadedFiles] = useState({
     chemicalIndex: null,
     compatibilityChart: null,
     compatibleExceptions: null,
-    incompatibleExceptions: null
+    incompatibleExceptions: null,
+    referenceBundle: null
   });
   const [filesReady, setFilesReady] = useState(false);
+  const [validationReport, setValidationReport] = useState<ValidationReport | null>(null);
+  const [useSymmetricChart, setUseSymmetricChart] = useState(true);
+  const [referenceSources, setReferenceSources] = useState<ReferenceSource[]>([]);
+  const [referenceRows, setReferenceRows] = useState<ReferenceRows | null>(null);
+  const [referenceEdition, setReferenceEdition] = useState<ReferenceEditionInfo | null>(null);
+  // Optional carriage requirements; kept apart from the four reference files
+  const [cargoRequirements, setCargoRequirements] = useState<CargoRequirements>({});
+  const [requirementsSource, setRequirementsSource] = useState<ReferenceSource | null>(null);
+  const [companyRules, setCompanyRules] = useState<LoadedCompanyRules | null>(null);
 
   // Helper functions
-  const generateReport = () => {
-    const timestamp = new Date().toISOString();
-    const reportData = {
-      timestamp,
-      vesselConfiguration: tankLayout,
-      cargoManifest: Object.entries(tanks)
-        .filter(([_, tank]) => tank && tank.chemical && tank.chemical.trim() !== '')
-        .map(([tankId, tank]) => ({
-          tank: tankId.replace('-', ''),
-          chemical: tank.chemical || '',
-          group: tank.group !== null ? tank.group : 'Unknown'
-        })),
-      compatibilityResults: analysisResults || { results: {}, problems: [] },
-      summary: {
-        totalTanks: Object.keys(tanks).length,
-        loadedTanks: Object.values(tanks).filter(tank => tank && tank.chemical && tank.chemical.trim() !== '').length,
-        compatibilityIssues: analysisResults?.problems?.length || 0,
-        status: (analysisResults?.problems?.length || 0) === 0 ? 'APPROVED' : 'ISSUES FOUND'
-      }
-    };
-    return reportData;
-  };
-
-  const downloadReport = (report) => {
-    const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `cargo-compatibility-report-${new Date().toISOString().split('T')[0]}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  };
+  const generateReport = () => generateComplianceReport({
+    planName,
+    notes: planNotes,
+    vessel,
+    tanks,
+    adjacencyPolicy,
+    chartNormalization: useSymmetricChart ? 'symmetric' : 'as loaded',
+    referenceData,
+    cleaning: cleaningAssessments,
+    carriage: carriageFindings,
+    companyRules: companyRules && { name: companyRules.ruleSet.name, violations: ruleViolations },
+    quantities,
+    referenceSources: [...referenceSources, requirementsSource, companyRules?.source].filter(Boolean),
+    referenceEdition,
+    changeLog
+  });
 
   // File upload handlers
   const handleFileUpload = (fileType, event) => {
@@ -70,21 +136,56 @@ const CargoCompatibilityTool = () => {
   };
 
   const readFileAsArrayBuffer = (file) => {
-    return new Promise((resolve, reject) => {
+    return new Promise<ArrayBuffer>((resolve, reject) => {
       const reader = new FileReader();
-      reader.onload = (e) => resolve(e.target.result);
+      reader.onload = (e) => resolve(e.target.result as ArrayBuffer);
       reader.onerror = (e) => reject(e);
       reader.readAsArrayBuffer(file);
     });
   };
 
-  // Check if all required files are uploaded
+  // Check if all required files are uploaded; a JSON bundle stands in for all four
   useEffect(() => {
-    const allFilesUploaded = Object.values(uploadedFiles).every(file => file !== null);
-    setFilesReady(allFilesUploaded);
+    const allFilesUploaded = REFERENCE_FILE_KEYS.every(key => uploadedFiles[key] !== null);
+    setFilesReady(allFilesUploaded || uploadedFiles.referenceBundle !== null);
   }, [uploadedFiles]);
 
   // Load data from uploaded files
+  const applyReferenceRows = (rows: ReferenceRows, sources: ReferenceSource[], edition: ReferenceEditionInfo | null) => {
+    const data = buildReferenceData(rows);
+    setChemicalDatabase(data.chemicals);
+    setCompatibilityChart(data.chart);
+    setCompatibleExceptions(data.compatibleExceptions);
+    setIncompatibleExceptions(data.incompatibleExceptions);
+    setReferenceSources(sources);
+    setReferenceRows(rows);
+    setReferenceEdition(edition);
+    setAnalysisResults(null);
+  };
+
+  // Stored editions were validated when they were saved
+  const activateEdition = (edition: ReferenceEdition) => {
+    applyReferenceRows(edition.rows, edition.sources, editionInfo(edition));
+    writeActiveEdition(edition.contentHash);
+    setValidationReport(null);
+    setErrors([]);
+  };
+
+  // Start with the edition that was active last session
+  useEffect(() => {
+    const active = readActiveEdition();
+    if (active) applyReferenceRows(active.rows, active.sources, editionInfo(active));
+  }, []);
+
+  // Company rules stay loaded between sessions
+  useEffect(() => {
+    const stored = readStoredRules();
+    if (!stored) return;
+    loadCompanyRules(stored)
+      .then(setCompanyRules)
+      .catch(error => setErrors([`Error loading stored company rules: ${error.message}`]));
+  }, []);
+
   const loadDataFromFiles = async () => {
     if (!filesReady) {
       setErrors(['Please upload all required files before loading data.']);
@@ -95,58 +196,39 @@ const CargoCompatibilityTool = () => {
       setIsLoading(true);
       setErrors([]);
       
-      // Load XLSX library if not already loaded
-      if (!window.XLSX) {
-        await new Promise((resolve) => {
-          const script = document.createElement('script');
-          script.src = 'https://cdnjs.cloudflare.com/ajax/libs/xlsx/0.18.5/xlsx.full.min.js';
-          script.onload = resolve;
-          document.head.appendChild(script);
-        });
-      }
-      
-      // Load Chemical Index
-      const chemicalData = await readFileAsArrayBuffer(uploadedFiles.chemicalIndex);
-      const chemicalWB = window.XLSX.read(chemicalData);
-      const chemicalSheet = chemicalWB.Sheets[Object.keys(chemicalWB.Sheets)[0]];
-      const chemicals = window.XLSX.utils.sheet_to_json(chemicalSheet);
-      setChemicalDatabase(chemicals.filter(row => row && row['Chemical name']));
-
-      // Load Compatibility Chart
-      const chartData = await readFileAsArrayBuffer(uploadedFiles.compatibilityChart);
-      const chartWB = window.XLSX.read(chartData);
-      const chartSheet = chartWB.Sheets[Object.keys(chartWB.Sheets)[0]];
-      const chartRows = window.XLSX.utils.sheet_to_json(chartSheet);
-      
-      // Process compatibility chart into a usable format
-      const chartMap = {};
-      chartRows.forEach((row, index) => {
-        if (row && row['REACTIVE GROUP'] && row['REACTIVE GROUP'].includes('.')) {
-          const groupNum = parseInt(row['REACTIVE GROUP'].split('.')[0]);
-          chartMap[groupNum] = {};
-          // Check all numeric columns for 'X' values
-          Object.keys(row).forEach(key => {
-            if (!isNaN(parseInt(key)) && row[key] === 'X') {
-              chartMap[groupNum][parseInt(key)] = 'X';
-            }
-          });
+      // Parse everything locally: no scripts are fetched, so this works offline
+      // Hashes of the exact bytes read identify the data in every report
+      let files;
+      const sources: ReferenceSource[] = [];
+      if (uploadedFiles.referenceBundle) {
+        const bundleText = await uploadedFiles.referenceBundle.text();
+        files = readReferenceBundle(bundleText, uploadedFiles.referenceBundle.name);
+        sources.push({ file: 'bundle', fileName: uploadedFiles.referenceBundle.name, sha256: await sha256Hex(bundleText) });
+      } else {
+        files = {};
+        for (const key of REFERENCE_FILE_KEYS) {
+          const file = uploadedFiles[key];
+          const data = await readFileAsArrayBuffer(file);
+          files[key] = readReferenceFile(file.name, data);
+          sources.push({ file: key, fileName: file.name, sha256: await sha256Hex(data) });
         }
-      });
-      setCompatibilityChart(chartMap);
-
-      // Load Compatible Exceptions
-      const compatibleData = await readFileAsArrayBuffer(uploadedFiles.compatibleExceptions);
-      const compatibleWB = window.XLSX.read(compatibleData);
-      const compatibleSheet = compatibleWB.Sheets[Object.keys(compatibleWB.Sheets)[0]];
-      const compatible = window.XLSX.utils.sheet_to_json(compatibleSheet);
-      setCompatibleExceptions(compatible);
-
-      // Load Incompatible Exceptions
-      const incompatibleData = await readFileAsArrayBuffer(uploadedFiles.incompatibleExceptions);
-      const incompatibleWB = window.XLSX.read(incompatibleData);
-      const incompatibleSheet = incompatibleWB.Sheets[Object.keys(incompatibleWB.Sheets)[0]];
-      const incompatible = window.XLSX.utils.sheet_to_json(incompatibleSheet);
-      setIncompatibleExceptions(incompatible);
+      }
+
+      // Nothing is accepted until every file matches its declared schema
+      const validation = validateReferenceFiles(files);
+      setValidationReport(validation);
+      if (validation.fatal) {
+        setErrors([`Reference data rejected: ${validation.errorCount} error(s) found. See Reference Data Diagnostics for details.`]);
+        setIsLoading(false);
+        return;
+      }
+
+      // Uploaded files that match a stored edition are recorded as that edition
+      const rows = rowsOf(files);
+      const contentHash = await hashReferenceRows(rows);
+      const stored = listEditions().find(edition => edition.contentHash === contentHash);
+      applyReferenceRows(rows, sources, stored ? editionInfo(stored) : null);
+      writeActiveEdition(stored ? stored.contentHash : null);
 
       setIsLoading(false);
     } catch (error) {
@@ -155,252 +237,354 @@ const CargoCompatibilityTool = () => {
     }
   };
 
-  // Initialize tank layout
-  useEffect(() => {
-    const newTanks = {};
-    for (let row = 0; row < tankLayout.length; row++) {
-      for (let col = 0; col < tankLayout.width; col++) {
-        const tankId = `${row}-${col}`;
-        newTanks[tankId] = { chemical: '', group: null, position: { row, col } };
-      }
+  const handleRequirementsUpload = async (event) => {
+    const file = event.target.files[0];
+    if (!file) return;
+    try {
+      const data = await readFileAsArrayBuffer(file);
+      setCargoRequirements(readCargoRequirements(readReferenceFile(file.name, data)));
+      setRequirementsSource({ file: 'cargoRequirements', fileName: file.name, sha256: await sha256Hex(data) });
+      setErrors([]);
+    } catch (error) {
+      setErrors([`Error loading cargo requirements: ${error.message}`]);
     }
-    setTanks(newTanks);
-  }, [tankLayout]);
-
-  // Chemical search and validation
-  const findChemical = (chemicalName) => {
-    if (!chemicalName || !chemicalName.trim()) return null;
-    if (!chemicalDatabase || chemicalDatabase.length === 0) return null;
-    
-    const cleaned = chemicalName.toLowerCase().trim();
-    const found = chemicalDatabase.find(chem => 
-      chem && chem['Chemical name'] &&
-      (chem['Chemical name'].toLowerCase() === cleaned ||
-      chem['Chemical name'].toLowerCase().includes(cleaned))
-    );
-    
-    return found ? {
-      name: found['Chemical name'],
-      group: found['Group No.'],
-      footnote: found['Footnote']
-    } : null;
+    event.target.value = '';
   };
 
-  const updateTankChemical = (tankId, chemicalName) => {
-    const chemical = findChemical(chemicalName);
-    
-    if (chemicalName && chemicalName.trim() !== '' && !chemical) {
-      setErrors([`Chemical '${chemicalName}' not found in approved cargo index. Please verify spelling or consult IMO chemical classification.`]);
-      return;
-    }
+  const clearRequirements = () => {
+    setCargoRequirements({});
+    setRequirementsSource(null);
+  };
 
-    setTanks(prev => ({
-      ...prev,
-      [tankId]: {
-        ...(prev[tankId] || {}),
-        chemical: chemicalName || '',
-        group: chemical ? chemical.group : null,
-        chemicalData: chemical,
-        position: prev[tankId]?.position || { row: parseInt(tankId.split('-')[0]), col: parseInt(tankId.split('-')[1]) }
-      }
-    }));
+  // Rebuild the vessel as a plain grid when beam or length change. Grid ids
+  // are row-col, so assignments in tanks that still exist are kept.
+  const resizeGrid = (changes) => {
+    const size = { ...tankLayout, ...changes };
+    if (isNaN(size.width) || isNaN(size.length)) return;
+    setTankLayout(size);
+    setVessel(createGridProfile(size.width, size.length));
+  };
+
+  // Keep one tank record per cargo-carrying tank in the vessel profile
+  useEffect(() => {
+    setTanks(prev => fitTanksToVessel(prev, vessel));
+  }, [vessel]);
+
+  // Every change to the vessel or tanks becomes an undo step and a change log entry
+  useEffect(() => {
+    const snapshot = { vessel, tanks: fitTanksToVessel(tanks, vessel) };
+    const previous = lastSnapshot.current;
+    lastSnapshot.current = snapshot;
+    if (!previous || samePlan(previous, snapshot)) return;
+    setPlanHistory(prev => pushUndo(prev, previous));
+    setChangeLog(prev => appendChanges(prev, describePlanChanges(previous, snapshot), userName, 'edit'));
+  }, [vessel, tanks]);
+
+  const restoreSnapshot = (step: { snapshot: PlanSnapshot; history: PlanHistory } | null, action: ChangeAction) => {
+    const current = lastSnapshot.current;
+    if (!step || !current) return;
+    // Recorded here, so the effect above sees no edit
+    lastSnapshot.current = step.snapshot;
+    setPlanHistory(step.history);
+    setChangeLog(prev => appendChanges(prev, describePlanChanges(current, step.snapshot), userName, action));
+    setTankLayout(gridSize(step.snapshot.vessel));
+    setVessel(step.snapshot.vessel);
+    setTanks(step.snapshot.tanks);
+    setTankDrafts({});
+    setTankCandidates({});
+    setAnalysisResults(null);
+  };
+
+  const undo = () => lastSnapshot.current && restoreSnapshot(undoStep(planHistory, lastSnapshot.current), 'undo');
+  const redo = () => lastSnapshot.current && restoreSnapshot(redoStep(planHistory, lastSnapshot.current), 'redo');
+
+  const changeUserName = (name: string) => {
+    setUserName(name);
+    writeUserName(name);
+  };
+
+  const currentPlan = useMemo(
+    () => createPlan(planName, vessel, tanks, planNotes, changeLog),
+    [planName, vessel, tanks, planNotes, changeLog]
+  );
+
+  useEffect(() => {
+    writeAutosave(currentPlan);
+  }, [currentPlan]);
+
+  const loadPlan = (plan: SavedStowagePlan) => {
+    // A loaded plan starts a fresh undo history but keeps its own change log
+    lastSnapshot.current = { vessel: plan.vessel, tanks: fitTanksToVessel(plan.tanks, plan.vessel) };
+    setPlanHistory(emptyHistory());
+    setChangeLog(appendChanges(plan.changeLog, [{ tank: null, field: 'plan', before: planName, after: plan.name }], userName, 'load'));
+    setPlanName(plan.name);
+    setPlanNotes(plan.notes);
+    setTankLayout(gridSize(plan.vessel));
+    setVessel(plan.vessel);
+    setTanks(plan.tanks);
+    setTankDrafts({});
+    setTankCandidates({});
+    setAnalysisResults(null);
     setErrors([]);
   };
 
-  // Get adjacent tanks
-  const getAdjacentTanks = (row, col) => {
-    const adjacent = [];
-    for (let r = row - 1; r <= row + 1; r++) {
-      for (let c = col - 1; c <= col + 1; c++) {
-        if (r >= 0 && r < tankLayout.length && c >= 0 && c < tankLayout.width && !(r === row && c === col)) {
-          adjacent.push(`${r}-${c}`);
-        }
-      }
-    }
-    return adjacent;
+  const clearAllTanks = () => {
+    const loadedCount = Object.values(tanks).filter(isLoaded).length;
+    if (loadedCount > 0 && !window.confirm(`Remove the cargo from all ${loadedCount} loaded tank(s)?`)) return;
+    // Cargo history stays: it describes what the tanks carried, not the plan
+    setTanks(prev => {
+      const cleared = fitTanksToVessel({}, vessel);
+      Object.keys(cleared).forEach(tankId => {
+        cleared[tankId] = { ...cleared[tankId], previousCargoes: prev[tankId]?.previousCargoes };
+      });
+      return cleared;
+    });
+    setTankDrafts({});
+    setTankCandidates({});
+    setAnalysisResults(null);
   };
 
-  // Check compatibility between two groups
-  const checkGroupCompatibility = (group1, group2) => {
-    if (group1 === null || group2 === null) return 'compatible';
-    
-    // Check base compatibility from chart
-    const isIncompatible = compatibilityChart[group1] && compatibilityChart[group1][group2];
-    
-    if (isIncompatible) {
-      return 'incompatible';
-    }
-    
-    return 'compatible';
+  // Reference data as the engine expects it
+  const referenceData = useMemo(() => ({
+    chemicals: chemicalDatabase,
+    chart: useSymmetricChart ? symmetrizeChart(compatibilityChart) : compatibilityChart,
+    compatibleExceptions,
+    incompatibleExceptions
+  }), [chemicalDatabase, compatibilityChart, compatibleExceptions, incompatibleExceptions, useSymmetricChart]);
+
+  // Audit always looks at the chart as loaded, not the normalized one
+  const auditReport = useMemo(() => auditReferenceData({
+    chemicals: chemicalDatabase,
+    chart: compatibilityChart,
+    compatibleExceptions,
+    incompatibleExceptions
+  }), [chemicalDatabase, compatibilityChart, compatibleExceptions, incompatibleExceptions]);
+
+  // Residue checks against each tank's previous cargoes
+  const cleaningAssessments = useMemo(() => assessCleaning(tanks, referenceData), [tanks, referenceData]);
+
+  // Tank attributes against the cargo requirements file
+  const carriageFindings = useMemo(() => checkCarriage(vessel, tanks, cargoRequirements), [vessel, tanks, cargoRequirements]);
+
+  // Tank fill against capacity, and cargo totals
+  const quantities = useMemo(() => assessQuantities(vessel, tanks, fillLimit), [vessel, tanks, fillLimit]);
+
+  // Company policy, kept apart from the regulatory problems
+  const ruleViolations = useMemo(
+    () => evaluateCompanyRules({ vessel, tanks }, companyRules?.ruleSet || null, cargoRequirements),
+    [vessel, tanks, companyRules, cargoRequirements]
+  );
+
+  const withoutTank = (tankId) => (prev) => {
+    const next = { ...prev };
+    delete next[tankId];
+    return next;
   };
 
-  // Check for exceptions
-  const checkExceptions = (chemical1, group1, chemical2, group2) => {
-    if (!chemical1 || !chemical2 || group1 === null || group2 === null) {
-      return null;
-    }
+  // Put a resolved cargo (single chemical or blend) into a tank, keeping its history
+  const assignCargo = (tankId, cargo: Tank) => {
+    setTanks(prev => ({
+      ...prev,
+      [tankId]: { ...cargo, previousCargoes: prev[tankId]?.previousCargoes }
+    }));
+    setTankDrafts(withoutTank(tankId));
+    setTankCandidates(withoutTank(tankId));
+    setAnalysisResults(null);
+    setErrors([]);
+  };
 
-    // Check compatible exceptions
-    const compatibleException = compatibleExceptions.find(ex => 
-      ex && ex['Chemical Name'] && ex['Compatible Chemical Name'] &&
-      ((ex['Chemical Name'] === chemical1 && ex['Compatible Chemical Name'] === chemical2) ||
-      (ex['Chemical Name'] === chemical2 && ex['Compatible Chemical Name'] === chemical1))
-    );
-    
-    if (compatibleException) {
-      return 'compatible_exception';
+  // Assign an explicitly chosen chemical (or null to empty the tank)
+  const assignChemical = (tankId, chemical: Chemical | null) => {
+    assignCargo(tankId, {
+      chemical: chemical ? chemical.name : '',
+      group: chemical ? chemical.group : null,
+      chemicalData: chemical
+    });
+  };
+
+  // Chemical search and validation. A group is only assigned once the text
+  // identifies exactly one chemical; otherwise the user must pick.
+  const updateTankChemical = (tankId, chemicalName) => {
+    if (!chemicalName || chemicalName.trim() === '') {
+      assignChemical(tankId, null);
+      return;
     }
 
-    // Check incompatible exceptions
-    const incompatibleException = incompatibleExceptions.find(ex => {
-      if (!ex || !ex['Chemical Name'] || !ex['Incompatible Group']) {
-        return false;
-      }
-      if (ex['Chemical Name'] === chemical1 || ex['Chemical Name'] === chemical2) {
-        try {
-          const incompatibleGroups = ex['Incompatible Group'].toString().split(',').map(g => parseInt(g.trim()));
-          return incompatibleGroups.includes(group1) || incompatibleGroups.includes(group2);
-        } catch (error) {
-          return false;
-        }
+    // "A 60% + B 40%": commingled cargo or blend, every component must resolve
+    if (isBlendText(chemicalName)) {
+      try {
+        assignCargo(tankId, resolveBlend(chemicalName, chemicalDatabase));
+      } catch (error) {
+        setErrors([`Blend for Tank ${tankLabel(vessel, tankId)}: ${error.message}`]);
       }
-      return false;
-    });
+      return;
+    }
 
-    if (incompatibleException) {
-      return 'incompatible_exception';
+    const lookup = resolveChemical(chemicalName, chemicalDatabase);
+    if (lookup.status === 'found') {
+      assignChemical(tankId, lookup.chemical);
+    } else if (lookup.status === 'ambiguous') {
+      setTankCandidates(prev => ({ ...prev, [tankId]: lookup.candidates }));
+      setErrors([`'${chemicalName}' matches ${lookup.candidates.length} chemicals. Select the intended cargo for Tank ${tankLabel(vessel, tankId)} before a group is assigned.`]);
+    } else {
+      setErrors([`Chemical '${chemicalName}' not found in approved cargo index. Please verify spelling or consult IMO chemical classification.`]);
     }
+  };
 
-    return null;
+  const commitTankDraft = (tankId) => {
+    if (tankDrafts[tankId] === undefined) return;
+    updateTankChemical(tankId, tankDrafts[tankId]);
   };
 
   // Perform compatibility analysis
   const performAnalysis = () => {
-    const results = {};
-    const problems = [];
-
-    Object.keys(tanks).forEach(tankId => {
-      const tank = tanks[tankId];
-      if (!tank || !tank.chemical || tank.chemical.trim() === '') return;
-
-      const { row, col } = tank.position || {};
-      if (row === undefined || col === undefined) return;
-
-      const adjacentTanks = getAdjacentTanks(row, col);
-      
-      results[tankId] = {
-        chemical: tank.chemical,
-        group: tank.group,
-        adjacentCompatibility: {}
-      };
-
-      adjacentTanks.forEach(adjTankId => {
-        const adjTank = tanks[adjTankId];
-        if (!adjTank || !adjTank.chemical || adjTank.chemical.trim() === '') return;
-
-        const baseCompatibility = checkGroupCompatibility(tank.group, adjTank.group);
-        const exception = checkExceptions(tank.chemical, tank.group, adjTank.chemical, adjTank.group);
-        
-        let finalCompatibility = baseCompatibility;
-        if (exception === 'compatible_exception' && baseCompatibility === 'incompatible') {
-          finalCompatibility = 'compatible_exception';
-        } else if (exception === 'incompatible_exception' && baseCompatibility === 'compatible') {
-          finalCompatibility = 'incompatible_exception';
-        }
-
-        results[tankId].adjacentCompatibility[adjTankId] = {
-          chemical: adjTank.chemical,
-          group: adjTank.group,
-          compatibility: finalCompatibility,
-          baseCompatibility,
-          exception
-        };
-
-        if (finalCompatibility && finalCompatibility.includes('incompatible')) {
-          problems.push({
-            tank1: tankId,
-            tank2: adjTankId,
-            chemical1: tank.chemical,
-            chemical2: adjTank.chemical,
-            compatibility: finalCompatibility
-          });
-        }
-      });
-    });
+    setAnalysisResults(analyze({ vessel, tanks }, referenceData, { adjacencyPolicy }));
+    setResolvingProblem(null);
+  };
 
-    setAnalysisResults({ results, problems });
+  // Apply a suggested fix and re-run the analysis on the result
+  const applyResolution = (nextTanks: Record<string, Tank>) => {
+    setTanks(nextTanks);
+    setTankDrafts({});
+    setTankCandidates({});
+    setAnalysisResults(analyze({ vessel, tanks: nextTanks }, referenceData, { adjacencyPolicy }));
+    setResolvingProblem(null);
+    setExplanation(null);
   };
 
   // Generate tank grid
   const renderTankGrid = () => {
-    const grid = [];
-    for (let row = 0; row < tankLayout.length; row++) {
-      const rowTanks = [];
-      for (let col = 0; col < tankLayout.width; col++) {
-        const tankId = `${row}-${col}`;
-        const tank = tanks[tankId] || { chemical: '', group: null, position: { row, col } };
-        const hasProblems = analysisResults?.problems?.some(p => p.tank1 === tankId || p.tank2 === tankId) || false;
-        
-        rowTanks.push(
-          <div key={tankId} className="relative">
-            <div 
-              className={`
-                border-2 p-3 rounded-lg min-h-24 cursor-pointer transition-all
-                ${selectedTank === tankId ? 'border-blue-500 bg-blue-50' : 'border-gray-300'}
-                ${hasProblems ? 'border-red-500 bg-red-50' : ''}
-                ${tank.chemical ? 'bg-green-50' : 'bg-gray-50'}
-                hover:shadow-md
-              `}
-              onClick={() => setSelectedTank(tankId)}
-            >
-              <div className="text-xs font-bold text-gray-600 mb-1">
-                Tank {String.fromCharCode(65 + row)}{col + 1}
+    const columns = Math.max(1, ...vessel.tanks.map(t => t.position.col + (t.position.span || 1)));
+    return (
+      <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}>
+        {vessel.tanks.map(vesselTank => {
+          const tankId = vesselTank.id;
+          const placement = {
+            gridRow: vesselTank.position.row + 1,
+            gridColumn: `${vesselTank.position.col + 1} / span ${vesselTank.position.span || 1}`
+          };
+
+          if (!canHoldCargo(vesselTank)) {
+            return (
+              <div key={tankId} style={placement} className="border-2 border-dashed border-gray-300 p-3 rounded-lg min-h-24 bg-gray-200">
+                <div className="text-xs font-bold text-gray-500">{vesselTank.label}</div>
+                <div className="text-xs text-gray-500 mt-1">Cofferdam</div>
               </div>
-              <input
-                type="text"
-                value={tank.chemical || ''}
-                onChange={(e) => updateTankChemical(tankId, e.target.value)}
-                placeholder="Chemical name"
-                className="w-full text-sm border-none bg-transparent focus:outline-none"
-                onClick={(e) => e.stopPropagation()}
-              />
-              {tank.group !== null && tank.group !== undefined && (
-                <div className="text-xs text-blue-600 mt-1">
-                  Group {tank.group}
-                </div>
-              )}
-              <button
-                onClick={(e) => {
-                  e.stopPropagation();
-                  updateTankChemical(tankId, '');
+            );
+          }
+
+          const tank = tanks[tankId] || { chemical: '', group: null };
+          const components = tankComponents(tank);
+          const reviewNotes = components.flatMap(component => manualReviewNotes(component.chemicalData?.footnote));
+          const cleaning = cleaningAssessments[tankId];
+          const carriage = carriageFindings.filter(finding => finding.tankId === tankId);
+          const unsuitable = carriage.some(finding => finding.severity === 'violation');
+          const fill = quantities.tanks.find(quantity => quantity.tankId === tankId);
+          const hasProblems = analysisResults?.problems?.some(p => p.tank1 === tankId || p.tank2 === tankId) || false;
+
+          return (
+            <div key={tankId} style={placement} className="relative">
+              <div 
+                className={`
+                  border-2 p-3 rounded-lg min-h-24 cursor-pointer transition-all
+                  ${selectedTank === tankId ? 'border-blue-500 bg-blue-50' : 'border-gray-300'}
+                  ${hasProblems ? 'border-red-500 bg-red-50' : ''}
+                  ${tank.chemical ? 'bg-green-50' : 'bg-gray-50'}
+                  hover:shadow-md
+                `}
+                onClick={() => {
+                  setSelectedTank(tankId);
+                  if (analysisResults) setExplanation({ tankId, focusTankId: null });
                 }}
-                className="absolute top-1 right-1 text-gray-400 hover:text-gray-600"
               >
-                ×
-              </button>
+                <div className="text-xs font-bold text-gray-600 mb-1">
+                  Tank {vesselTank.label}{vesselTank.kind === 'slop' ? ' (Slop)' : ''}
+                </div>
+                <input
+                  type="text"
+                  value={tankDrafts[tankId] ?? describeTank(tank)}
+                  onChange={(e) => setTankDrafts(prev => ({ ...prev, [tankId]: e.target.value }))}
+                  onBlur={() => commitTankDraft(tankId)}
+                  onKeyDown={(e) => e.key === 'Enter' && commitTankDraft(tankId)}
+                  placeholder="Name, UN, CAS or A 60% + B 40%"
+                  className={`w-full text-sm border-none bg-transparent focus:outline-none ${tankDrafts[tankId] !== undefined ? 'italic text-gray-500' : ''}`}
+                  onClick={(e) => e.stopPropagation()}
+                />
+                {tankCandidates[tankId] && (
+                  <div className="mt-1 border rounded bg-white text-xs max-h-32 overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+                    {tankCandidates[tankId].map((match, index) => (
+                      <div
+                        key={index}
+                        className="p-1 hover:bg-blue-50 cursor-pointer border-b last:border-b-0"
+                        onMouseDown={(e) => e.preventDefault()}
+                        onClick={() => assignChemical(tankId, match.chemical)}
+                      >
+                        {match.chemical.name} <span className="text-gray-500">(Group {match.chemical.group})</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {components.length > 1 ? (
+                  <div className="text-xs text-blue-600 mt-1">
+                    Blend · Groups {components.map(component => component.group ?? '?').join(', ')}
+                  </div>
+                ) : tank.group !== null && tank.group !== undefined && (
+                  <div className="text-xs text-blue-600 mt-1">
+                    Group {tank.group}
+                  </div>
+                )}
+                {typeof tank.quantity === 'number' && (
+                  <div className={`text-xs mt-1 ${fill?.status === 'overfill' ? 'text-red-600' : 'text-gray-600'}`} title={fill?.message}>
+                    Qty {tank.quantity} {QUANTITY_UNIT_LABELS[tank.quantityUnit || 'm3']}
+                    {typeof fill?.fillPercent === 'number' && ` · ${fill.fillPercent}%`}
+                  </div>
+                )}
+                {cleaning && cleaning.findings.length > 0 && (
+                  <div
+                    className={`text-xs mt-1 ${cleaning.level === 'full_cleaning' ? 'text-red-600' : cleaning.level === 'water_wash' ? 'text-yellow-700' : 'text-green-700'}`}
+                    title={cleaning.findings.map(finding => finding.reason).join('\n')}
+                  >
+                    {CLEANING_LEVEL_LABELS[cleaning.level]}
+                  </div>
+                )}
+                {carriage.length > 0 && (
+                  <div
+                    className={`text-xs mt-1 ${unsuitable ? 'text-red-600' : 'text-yellow-700'}`}
+                    title={carriage.map(finding => `${finding.chemical}: ${finding.message}`).join('\n')}
+                  >
+                    {unsuitable ? 'Not suitable' : 'Unverified'}: {Array.from(new Set(carriage.map(finding => CARRIAGE_REQUIREMENT_LABELS[finding.requirement].toLowerCase()))).join(', ')}
+                  </div>
+                )}
+                {reviewNotes.map((note, index) => (
+                  <div key={index} className="flex items-start gap-1 text-xs text-yellow-700 mt-1" title={note}>
+                    <Info className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                    <span className="truncate">Manual review: {note}</span>
+                  </div>
+                ))}
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    assignChemical(tankId, null);
+                  }}
+                  className="absolute top-1 right-1 text-gray-400 hover:text-gray-600"
+                >
+                  ×
+                </button>
+              </div>
+              {hasProblems && (
+                <AlertTriangle className="absolute -top-2 -right-2 w-5 h-5 text-red-500" />
+              )}
             </div>
-            {hasProblems && (
-              <AlertTriangle className="absolute -top-2 -right-2 w-5 h-5 text-red-500" />
-            )}
-          </div>
-        );
-      }
-      grid.push(
-        <div key={row} className="flex gap-2 mb-2">
-          {rowTanks}
-        </div>
-      );
-    }
-    return grid;
+          );
+        })}
+      </div>
+    );
   };
 
   // Chemical search suggestions
   const filteredChemicals = useMemo(() => {
     if (!searchTerm || !chemicalDatabase || chemicalDatabase.length === 0) return [];
-    return chemicalDatabase
-      .filter(chem => chem && chem['Chemical name'] && 
-        chem['Chemical name'].toLowerCase().includes(searchTerm.toLowerCase()))
-      .slice(0, 10);
+    return searchChemicals(searchTerm, chemicalDatabase);
   }, [searchTerm, chemicalDatabase]);
 
   if (isLoading) {
@@ -433,17 +617,17 @@ const CargoCompatibilityTool = () => {
           <h2 className="text-xl font-semibold text-blue-800">Upload Required Database Files</h2>
         </div>
         <p className="text-blue-700 mb-4">
-          Please upload all four Excel files containing the chemical compatibility data:
+          Please upload all four files containing the chemical compatibility data (Excel, CSV or JSON), or a single JSON reference bundle:
         </p>
         
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div className="space-y-2">
             <label className="block text-sm font-medium text-gray-700">
-              Chemical Index (Excel file)
+              Chemical Index (Excel or CSV file)
             </label>
             <input
               type="file"
-              accept=".xlsx,.xls"
+              accept=".xlsx,.xls,.csv,.json"
               onChange={(e) => handleFileUpload('chemicalIndex', e)}
               className="w-full p-2 border border-gray-300 rounded-md file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
             />
@@ -457,11 +641,11 @@ const CargoCompatibilityTool = () => {
 
           <div className="space-y-2">
             <label className="block text-sm font-medium text-gray-700">
-              Cargo Compatibility Chart (Excel file)
+              Cargo Compatibility Chart (Excel or CSV file)
             </label>
             <input
               type="file"
-              accept=".xlsx,.xls"
+              accept=".xlsx,.xls,.csv,.json"
               onChange={(e) => handleFileUpload('compatibilityChart', e)}
               className="w-full p-2 border border-gray-300 rounded-md file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
             />
@@ -475,11 +659,11 @@ const CargoCompatibilityTool = () => {
 
           <div className="space-y-2">
             <label className="block text-sm font-medium text-gray-700">
-              Compatible Exceptions (Excel file)
+              Compatible Exceptions (Excel or CSV file)
             </label>
             <input
               type="file"
-              accept=".xlsx,.xls"
+              accept=".xlsx,.xls,.csv,.json"
               onChange={(e) => handleFileUpload('compatibleExceptions', e)}
               className="w-full p-2 border border-gray-300 rounded-md file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
             />
@@ -493,11 +677,11 @@ const CargoCompatibilityTool = () => {
 
           <div className="space-y-2">
             <label className="block text-sm font-medium text-gray-700">
-              Incompatible Exceptions (Excel file)
+              Incompatible Exceptions (Excel or CSV file)
             </label>
             <input
               type="file"
-              accept=".xlsx,.xls"
+              accept=".xlsx,.xls,.csv,.json"
               onChange={(e) => handleFileUpload('incompatibleExceptions', e)}
               className="w-full p-2 border border-gray-300 rounded-md file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
             />
@@ -508,6 +692,43 @@ const CargoCompatibilityTool = () => {
               </p>
             )}
           </div>
+
+          <div className="space-y-2 md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700">
+              Or: Reference Bundle (single JSON file with all four datasets)
+            </label>
+            <input
+              type="file"
+              accept=".json"
+              onChange={(e) => handleFileUpload('referenceBundle', e)}
+              className="w-full p-2 border border-gray-300 rounded-md file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+            />
+            {uploadedFiles.referenceBundle && (
+              <p className="text-sm text-green-600 flex items-center gap-1">
+                <CheckCircle className="w-4 h-4" />
+                {uploadedFiles.referenceBundle.name}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2 md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700">
+              Optional: Cargo Requirements (ship type, tank coating, heating and carriage temperature per chemical)
+            </label>
+            <input
+              type="file"
+              accept=".xlsx,.xls,.csv,.json"
+              onChange={handleRequirementsUpload}
+              className="w-full p-2 border border-gray-300 rounded-md file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+            />
+            {requirementsSource && (
+              <p className="text-sm text-green-600 flex items-center gap-1">
+                <CheckCircle className="w-4 h-4" />
+                {requirementsSource.fileName} ({Object.keys(cargoRequirements).length} cargoes)
+                <button onClick={clearRequirements} className="ml-2 text-gray-500 hover:text-red-600">Remove</button>
+              </p>
+            )}
+          </div>
         </div>
 
         <div className="mt-4 flex items-center justify-between">
@@ -521,7 +742,7 @@ const CargoCompatibilityTool = () => {
               <>
                 <AlertTriangle className="w-5 h-5 text-yellow-500" />
                 <span className="text-yellow-700">
-                  {Object.values(uploadedFiles).filter(f => f !== null).length}/4 files uploaded
+                  {REFERENCE_FILE_KEYS.filter(key => uploadedFiles[key] !== null).length}/4 files uploaded
                 </span>
               </>
             )}
@@ -542,6 +763,44 @@ const CargoCompatibilityTool = () => {
         </div>
       </div>
 
+      {/* Reference Data Library */}
+      <div className="mb-6">
+        <ReferenceLibraryPanel
+          loadedRows={referenceRows}
+          loadedSources={referenceSources}
+          activeEdition={referenceEdition}
+          onActivate={activateEdition}
+          onError={(message) => setErrors([message])}
+        />
+      </div>
+
+      {/* Company Rules */}
+      <div className="mb-6">
+        <CompanyRulesPanel
+          rules={companyRules}
+          onChange={setCompanyRules}
+          onError={(message) => setErrors([message])}
+        />
+      </div>
+
+      {/* Reference Data Diagnostics */}
+      {validationReport && (
+        <div className="mb-6">
+          <ReferenceDiagnosticsPanel report={validationReport} />
+        </div>
+      )}
+
+      {/* Reference Data Audit */}
+      {chemicalDatabase.length > 0 && (
+        <div className="mb-6">
+          <ReferenceAuditPanel
+            report={auditReport}
+            useSymmetricChart={useSymmetricChart}
+            onToggleSymmetricChart={setUseSymmetricChart}
+          />
+        </div>
+      )}
+
       {/* Error Display */}
       {errors.length > 0 && (
         <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
@@ -558,9 +817,31 @@ const CargoCompatibilityTool = () => {
       {/* Main Interface - Only show when databases are loaded */}
       {chemicalDatabase.length > 0 && (
         <>
+          {/* Stowage Plan */}
+          <div className="mb-6">
+            <StowagePlanPanel
+              plan={currentPlan}
+              onNameChange={setPlanName}
+              onNotesChange={setPlanNotes}
+              onLoad={loadPlan}
+              onError={(message) => setErrors([message])}
+            />
+            <div className="mt-4">
+              <PlanHistoryPanel
+                canUndo={planHistory.past.length > 0}
+                canRedo={planHistory.future.length > 0}
+                onUndo={undo}
+                onRedo={redo}
+                userName={userName}
+                onUserNameChange={changeUserName}
+                changeLog={changeLog}
+              />
+            </div>
+          </div>
+
           {/* Tank Layout Configuration */}
           <div className="mb-6 p-4 bg-gray-50 rounded-lg">
-            <h2 className="text-xl font-semibold mb-4">Vessel Configuration</h2>
+            <h2 className="text-xl font-semibold mb-4">Vessel Configuration: {vessel.name}</h2>
             <div className="flex gap-4 items-center">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -571,7 +852,7 @@ const CargoCompatibilityTool = () => {
                   min="2"
                   max="8"
                   value={tankLayout.width}
-                  onChange={(e) => setTankLayout(prev => ({ ...prev, width: parseInt(e.target.value) }))}
+                  onChange={(e) => resizeGrid({ width: parseInt(e.target.value) })}
                   className="w-20 p-2 border rounded-md"
                 />
               </div>
@@ -584,18 +865,65 @@ const CargoCompatibilityTool = () => {
                   min="4"
                   max="12"
                   value={tankLayout.length}
-                  onChange={(e) => setTankLayout(prev => ({ ...prev, length: parseInt(e.target.value) }))}
+                  onChange={(e) => resizeGrid({ length: parseInt(e.target.value) })}
                   className="w-20 p-2 border rounded-md"
                 />
               </div>
               <button
-                onClick={() => setTanks({})}
+                onClick={clearAllTanks}
                 className="flex items-center gap-2 px-4 py-2 bg-gray-200 rounded-md hover:bg-gray-300"
               >
                 <RotateCcw className="w-4 h-4" />
                 Clear All
               </button>
+              <button
+                onClick={() => setShowLayoutEditor(prev => !prev)}
+                className="flex items-center gap-2 px-4 py-2 bg-gray-200 rounded-md hover:bg-gray-300"
+              >
+                <Settings className="w-4 h-4" />
+                {showLayoutEditor ? 'Hide Layout Editor' : 'Edit Layout'}
+              </button>
+            </div>
+            <div className="mt-4">
+              <div className="text-sm font-medium text-gray-700 mb-1">Cargoes must be compatible across:</div>
+              <div className="flex flex-wrap gap-4 text-sm">
+                {Object.entries(ADJACENCY_TYPE_LABELS).map(([type, label]) => (
+                  <label key={type} className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={adjacencyPolicy[type]}
+                      onChange={(e) => setAdjacencyPolicy(prev => ({ ...prev, [type]: e.target.checked }))}
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+              <label className="flex items-center gap-2 mt-2 text-sm text-gray-700">
+                Fill limit
+                <input
+                  type="number"
+                  min="1"
+                  max="100"
+                  step="0.5"
+                  value={fillLimit}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    if (value > 0 && value <= 100) setFillLimit(value);
+                  }}
+                  className="w-20 p-1 border rounded"
+                />
+                % of tank capacity
+              </label>
             </div>
+            {showLayoutEditor && (
+              <div className="mt-4">
+                <VesselLayoutEditor
+                  vessel={vessel}
+                  onChange={setVessel}
+                  onError={(message) => setErrors([message])}
+                />
+              </div>
+            )}
           </div>
 
           {/* Chemical Search */}
@@ -603,7 +931,7 @@ const CargoCompatibilityTool = () => {
             <div className="relative">
               <input
                 type="text"
-                placeholder="Search chemicals..."
+                placeholder="Search chemicals by name, synonym, UN or CAS number..."
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="w-full p-3 border rounded-lg pl-10"
@@ -612,19 +940,24 @@ const CargoCompatibilityTool = () => {
             </div>
             {filteredChemicals.length > 0 && (
               <div className="mt-2 border rounded-lg bg-white shadow-lg max-h-60 overflow-y-auto">
-                {filteredChemicals.map((chemical, index) => (
+                {filteredChemicals.map(({ chemical, matchType }, index) => (
                   <div
                     key={index}
                     className="p-3 hover:bg-gray-50 cursor-pointer border-b last:border-b-0"
                     onClick={() => {
                       if (selectedTank) {
-                        updateTankChemical(selectedTank, chemical['Chemical name']);
+                        assignChemical(selectedTank, chemical);
                         setSearchTerm('');
                       }
                     }}
                   >
-                    <div className="font-medium">{chemical['Chemical name']}</div>
-                    <div className="text-sm text-gray-600">Group {chemical['Group No.']}</div>
+                    <div className="font-medium">{chemical.name}</div>
+                    <div className="text-sm text-gray-600">
+                      Group {chemical.group}
+                      {chemical.unNumber && ` · UN ${chemical.unNumber}`}
+                      {chemical.casNumber && ` · CAS ${chemical.casNumber}`}
+                      {matchType === 'fuzzy' && ' · similar spelling'}
+                    </div>
                   </div>
                 ))}
               </div>
@@ -636,7 +969,7 @@ const CargoCompatibilityTool = () => {
             <div className="flex items-center justify-between mb-4">
               <h2 className="text-xl font-semibold">Tank Layout</h2>
               <div className="text-sm text-gray-600">
-                {selectedTank && `Selected: Tank ${selectedTank.replace('-', '')}`}
+                {selectedTank && `Selected: Tank ${tankLabel(vessel, selectedTank)}`}
               </div>
             </div>
             <div className="border rounded-lg p-4 bg-gray-50">
@@ -644,6 +977,88 @@ const CargoCompatibilityTool = () => {
             </div>
           </div>
 
+          {/* Manifest Import */}
+          <div className="mb-6">
+            <ManifestImportPanel
+              vessel={vessel}
+              tanks={tanks}
+              chemicals={chemicalDatabase}
+              onApply={(importedTanks) => {
+                setTanks(importedTanks);
+                setTankDrafts({});
+                setTankCandidates({});
+                setAnalysisResults(null);
+                setErrors([]);
+              }}
+              onError={(message) => setErrors([message])}
+            />
+          </div>
+
+          {/* Quantities */}
+          <div className="mb-6">
+            <TankQuantitiesPanel
+              vessel={vessel}
+              tanks={tanks}
+              quantities={quantities}
+              onChange={(tankId, nomination) => setTanks(prev => ({ ...prev, [tankId]: { ...prev[tankId], ...nomination } }))}
+              onError={(message) => setErrors([message])}
+            />
+          </div>
+
+          {/* Previous Cargoes */}
+          <div className="mb-6">
+            <TankHistoryEditor
+              vessel={vessel}
+              tanks={tanks}
+              chemicals={chemicalDatabase}
+              onChange={(tankId, previousCargoes) => setTanks(prev => ({
+                ...prev,
+                [tankId]: { ...(prev[tankId] || { chemical: '', group: null }), previousCargoes }
+              }))}
+              onError={(message) => setErrors([message])}
+            />
+          </div>
+
+          {/* Auto-Stow */}
+          <div className="mb-6">
+            <AutoStowPanel
+              vessel={vessel}
+              referenceData={referenceData}
+              adjacencyPolicy={adjacencyPolicy}
+              onApply={(plannedTanks) => {
+                setTanks(prev => {
+                  const next = { ...plannedTanks };
+                  Object.keys(next).forEach(tankId => {
+                    next[tankId] = { ...next[tankId], previousCargoes: prev[tankId]?.previousCargoes };
+                  });
+                  return next;
+                });
+                setAnalysisResults(null);
+              }}
+            />
+          </div>
+
+          {/* Voyage Timeline */}
+          <div className="mb-6">
+            <VoyageTimelinePanel
+              vessel={vessel}
+              tanks={tanks}
+              referenceData={referenceData}
+              adjacencyPolicy={adjacencyPolicy}
+              onError={(message) => setErrors([message])}
+            />
+          </div>
+
+          {/* Plan Comparison */}
+          <div className="mb-6">
+            <PlanComparisonPanel
+              currentPlan={currentPlan}
+              referenceData={referenceData}
+              adjacencyPolicy={adjacencyPolicy}
+              onError={(message) => setErrors([message])}
+            />
+          </div>
+
           {/* Analysis Controls */}
           <div className="mb-6">
             <button
@@ -682,16 +1097,106 @@ const CargoCompatibilityTool = () => {
               </div>
               <div className="space-y-2">
                 {analysisResults.problems.map((problem, index) => (
-                  <div key={index} className="p-3 bg-white rounded border">
+                  <div
+                    key={index}
+                    className="p-3 bg-white rounded border cursor-pointer hover:border-red-400"
+                    onClick={() => setExplanation({ tankId: problem.tank1, focusTankId: problem.tank2 })}
+                    title="Show why"
+                  >
                     <div className="font-medium text-red-800">
-                      Tank {problem.tank1.replace('-', '')} ↔ Tank {problem.tank2.replace('-', '')}
+                      {problem.tank1 === problem.tank2
+                        ? `Tank ${tankLabel(vessel, problem.tank1)}`
+                        : `Tank ${tankLabel(vessel, problem.tank1)} ↔ Tank ${tankLabel(vessel, problem.tank2)}`}
                     </div>
                     <div className="text-sm text-gray-700">
                       {problem.chemical1} ↔ {problem.chemical2}
                     </div>
+                    <div className="text-xs text-gray-500">
+                      {CONTACT_TYPE_LABELS[problem.adjacencyType]}
+                    </div>
                     <div className="text-sm text-red-600 mt-1">
                       Status: {problem.compatibility.replace('_', ' ').toUpperCase()}
                     </div>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setResolvingProblem(resolvingProblem === index ? null : index);
+                      }}
+                      className="mt-2 text-xs text-blue-600 hover:underline"
+                    >
+                      {resolvingProblem === index ? 'Hide suggested fixes' : 'Suggest fixes'}
+                    </button>
+                    {resolvingProblem === index && (
+                      <ConflictResolutionPanel
+                        vessel={vessel}
+                        tanks={tanks}
+                        problem={problem}
+                        referenceData={referenceData}
+                        adjacencyPolicy={adjacencyPolicy}
+                        onApply={applyResolution}
+                      />
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Tank attributes against the cargo requirements */}
+          {carriageFindings.length > 0 && (
+            <div className={`p-4 border rounded-lg ${carriageFindings.some(finding => finding.severity === 'violation') ? 'bg-red-50 border-red-200' : 'bg-yellow-50 border-yellow-200'}`}>
+              <div className="flex items-center gap-2 mb-3">
+                <AlertTriangle className={`w-5 h-5 ${carriageFindings.some(finding => finding.severity === 'violation') ? 'text-red-500' : 'text-yellow-600'}`} />
+                <h3 className="font-semibold text-gray-800">Tank Suitability</h3>
+              </div>
+              <div className="space-y-2">
+                {carriageFindings.map((finding, index) => (
+                  <div key={index} className="p-3 bg-white rounded border text-sm">
+                    <div className={`font-medium ${finding.severity === 'violation' ? 'text-red-800' : 'text-yellow-800'}`}>
+                      Tank {tankLabel(vessel, finding.tankId)}: {finding.chemical}
+                    </div>
+                    <div className="text-gray-700">{finding.message}</div>
+                    <div className="text-xs text-gray-500">
+                      {CARRIAGE_REQUIREMENT_LABELS[finding.requirement]} · {finding.severity === 'violation' ? 'not suitable' : 'tank attribute not recorded'}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Tanks filled above the fill limit */}
+          {quantities.overfilled > 0 && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+              <div className="flex items-center gap-2 mb-3">
+                <XCircle className="w-5 h-5 text-red-500" />
+                <h3 className="font-semibold text-red-800">Overfilled Tanks (limit {quantities.fillLimit}%)</h3>
+              </div>
+              <div className="space-y-2">
+                {quantities.tanks.filter(quantity => quantity.status === 'overfill').map(quantity => (
+                  <div key={quantity.tankId} className="p-3 bg-white rounded border text-sm">
+                    <div className="font-medium text-red-800">Tank {tankLabel(vessel, quantity.tankId)}: {quantity.cargo}</div>
+                    <div className="text-gray-700">{quantity.message}</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Footnotes needing manual review */}
+          {analysisResults.warnings.length > 0 && (
+            <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+              <div className="flex items-center gap-2 mb-3">
+                <Info className="w-5 h-5 text-yellow-600" />
+                <h3 className="font-semibold text-yellow-800">Manual Review Required</h3>
+              </div>
+              <div className="space-y-2">
+                {analysisResults.warnings.map((warning, index) => (
+                  <div key={index} className="p-3 bg-white rounded border text-sm">
+                    <div className="font-medium text-yellow-800">
+                      Tank {tankLabel(vessel, warning.tank)}: {warning.chemical}
+                    </div>
+                    <div className="text-gray-700">{warning.note}</div>
                   </div>
                 ))}
               </div>
@@ -711,47 +1216,95 @@ const CargoCompatibilityTool = () => {
             </div>
           )}
 
+          {/* Company policy breaches, separate from the regulatory result */}
+          {ruleViolations.length > 0 && (
+            <div className="p-4 bg-orange-50 border border-orange-200 rounded-lg">
+              <div className="flex items-center gap-2 mb-3">
+                <AlertTriangle className="w-5 h-5 text-orange-500" />
+                <h3 className="font-semibold text-orange-800">Company Policy ({companyRules?.ruleSet.name})</h3>
+              </div>
+              <div className="space-y-2">
+                {ruleViolations.map((violation, index) => (
+                  <div key={index} className="p-3 bg-white rounded border text-sm">
+                    <div className={`font-medium ${violation.severity === 'error' ? 'text-orange-800' : 'text-yellow-800'}`}>
+                      {violation.ruleId}: {violation.description}
+                    </div>
+                    <div className="text-gray-700">
+                      Tank {tankLabel(vessel, violation.tank1)} {violation.chemical1} ↔ Tank {tankLabel(vessel, violation.tank2)} {violation.chemical2}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {ADJACENCY_TYPE_LABELS[violation.adjacencyType]} · {violation.severity}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Explanation of the selected tank or problem */}
+          {explanation && analysisResults.results[explanation.tankId] && (
+            <PairExplanationPanel
+              vessel={vessel}
+              tanks={tanks}
+              referenceData={referenceData}
+              adjacencyPolicy={adjacencyPolicy}
+              tankId={explanation.tankId}
+              focusTankId={explanation.focusTankId}
+              onClose={() => setExplanation(null)}
+            />
+          )}
+
           {/* Detailed Results */}
           <div className="p-4 bg-gray-50 rounded-lg">
             <h3 className="font-semibold mb-3">Detailed Analysis Results</h3>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
               {Object.entries(analysisResults.results).map(([tankId, result]) => (
-                <div key={tankId} className="p-3 bg-white rounded border">
+                <div
+                  key={tankId}
+                  className={`p-3 bg-white rounded border cursor-pointer hover:border-blue-400 ${explanation?.tankId === tankId ? 'border-blue-500' : ''}`}
+                  onClick={() => setExplanation({ tankId, focusTankId: null })}
+                  title="Show why"
+                >
                   <div className="font-medium mb-2">
-                    Tank {tankId.replace('-', '')}
+                    Tank {tankLabel(vessel, tankId)}
                   </div>
                   <div className="text-sm text-gray-700 mb-2">
-                    {result.chemical} (Group {result.group})
+                    {result.components.map(component =>
+                      `${component.chemical}${component.proportion != null ? ` ${component.proportion}%` : ''} (Group ${component.group})`
+                    ).join(' + ')}
                   </div>
                   <div className="text-xs">
                     Adjacent: {Object.keys(result.adjacentCompatibility).length} tanks
                   </div>
+                  {Object.entries(result.adjacentCompatibility).map(([adjTankId, pair]) => (
+                    <div key={adjTankId} className={`text-xs ${pair.enforced && isIncompatible(pair.compatibility) ? 'text-red-600' : 'text-gray-600'}`}>
+                      {tankLabel(vessel, adjTankId)}: {pair.compatibility.replace(/_/g, ' ')}
+                      {pair.exception && pair.compatibility === pair.exception ? ' (exception)' : ''}
+                      {pair.compatibility === 'incompatible_footnote' ? ' (footnote)' : ''}
+                    </div>
+                  ))}
+                  {result.intraTank.length > 0 && (
+                    <div className="text-xs">
+                      Within tank: {result.intraTank.length} component pair(s), {result.intraTank.filter(pair => isIncompatible(pair.compatibility)).length} incompatible
+                    </div>
+                  )}
+                  {result.manualReview.length > 0 && (
+                    <div className="text-xs text-yellow-700 mt-1">
+                      {result.manualReview.length} footnote(s) need manual review
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
           </div>
 
           {/* Export/Documentation */}
-          <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
-            <div className="flex items-center justify-between">
-              <div>
-                <h3 className="font-semibold text-blue-800">Documentation & Export</h3>
-                <p className="text-blue-700 text-sm">Generate reports for regulatory compliance</p>
-              </div>
-              <div className="flex gap-2">
-                <button
-                  onClick={() => {
-                    const report = generateReport();
-                    downloadReport(report);
-                  }}
-                  className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
-                >
-                  <Download className="w-4 h-4" />
-                  Export Report
-                </button>
-              </div>
-            </div>
-          </div>
+          <ReportExportPanel
+            generateReport={generateReport}
+            vessel={vessel}
+            tanks={tanks}
+            onError={(message) => setErrors([message])}
+          />
         </div>
       )}
 
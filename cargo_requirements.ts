@@ -0,0 +1,177 @@
+// Carriage requirements per cargo (IBC ship type, tank coating, heating and
+// carriage temperature) from an optional data file, and the check of every
+// tank assignment against the attributes of the tank it is in.
+import { isLoaded, tankComponents } from './cargo_compatibility_engine';
+import type { Tank } from './cargo_compatibility_engine';
+import { sourceRowNumber } from './reference_data_loader';
+import type { ParsedReferenceFile, ReferenceRow } from './reference_data_loader';
+import { canHoldCargo, SHIP_TYPES, TANK_COATING_LABELS } from './vessel_profile';
+import type { ShipType, TankCoating, VesselProfile, VesselTank } from './vessel_profile';
+
+export interface CargoRequirement {
+  chemical: string;
+  // Least protective ship type allowed; null when any will do
+  shipType: ShipType | null;
+  // Coatings the cargo may be carried in; empty when any will do
+  coatings: TankCoating[];
+  heating: boolean;
+  // Temperature the cargo is carried at, in °C
+  carriageTemperature: number | null;
+}
+
+// Keyed by normalized chemical name
+export type CargoRequirements = Record<string, CargoRequirement>;
+
+export type CarriageRequirementKind = 'ship_type' | 'coating' | 'heating' | 'temperature';
+
+export const CARRIAGE_REQUIREMENT_LABELS: Record<CarriageRequirementKind, string> = {
+  ship_type: 'Ship type',
+  coating: 'Tank coating',
+  heating: 'Heating',
+  temperature: 'Maximum temperature'
+};
+
+// 'unverified' when the tank attribute the requirement needs is not recorded
+export interface CarriageFinding {
+  tankId: string;
+  chemical: string;
+  requirement: CarriageRequirementKind;
+  severity: 'violation' | 'unverified';
+  message: string;
+}
+
+const NAME_COLUMNS = ['Chemical name', 'Chemical', 'Cargo', 'Cargo name', 'Product'];
+const SHIP_TYPE_COLUMNS = ['Ship type', 'Ship type required', 'IBC ship type'];
+const COATING_COLUMNS = ['Tank coating', 'Coating', 'Coatings'];
+const HEATING_COLUMNS = ['Heating', 'Heating required', 'Heated'];
+const TEMPERATURE_COLUMNS = ['Carriage temperature', 'Temperature', 'Carriage temperature (C)', 'Max temperature'];
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const findColumn = (headers: string[], candidates: string[]) => {
+  const wanted = candidates.map(normalize);
+  return headers.find(header => wanted.includes(normalize(header))) || null;
+};
+
+const cellText = (row: ReferenceRow, column: string | null) =>
+  column && row[column] !== undefined && row[column] !== null ? row[column].toString().trim() : '';
+
+const parseShipType = (text: string): ShipType | null => {
+  if (text === '') return null;
+  const type = Number(text.replace(/^type\s*/i, '').replace(/^iii$/i, '3').replace(/^ii$/i, '2').replace(/^i$/i, '1'));
+  if (!SHIP_TYPES.includes(type as ShipType)) throw new Error(`ship type '${text}' is not 1, 2 or 3`);
+  return type as ShipType;
+};
+
+// "stainless, epoxy"; full labels such as "Zinc silicate" are accepted too
+const parseCoatings = (text: string): TankCoating[] =>
+  text.split(/[,;/|]/).map(normalize).filter(token => token !== '').map(token => {
+    const coating = (Object.keys(TANK_COATING_LABELS) as TankCoating[])
+      .find(key => token === key || token === normalize(TANK_COATING_LABELS[key]) || token.startsWith(`${key} `));
+    if (!coating) throw new Error(`unknown coating '${token}'`);
+    return coating;
+  });
+
+const parseYesNo = (text: string) => {
+  const value = normalize(text);
+  if (['', 'n', 'no', 'false', '0'].includes(value)) return false;
+  if (['y', 'yes', 'true', '1', 'x'].includes(value)) return true;
+  throw new Error(`heating '${text}' is not yes or no`);
+};
+
+const parseTemperature = (text: string) => {
+  if (text === '') return null;
+  const temperature = parseFloat(text.replace(/\s*°?\s*c$/i, ''));
+  if (isNaN(temperature)) throw new Error(`temperature '${text}' is not a number`);
+  return temperature;
+};
+
+// Every row must parse; the file is rejected with all row errors otherwise
+export const readCargoRequirements = (file: ParsedReferenceFile): CargoRequirements => {
+  const name = findColumn(file.headers, NAME_COLUMNS);
+  if (!name) {
+    throw new Error(`${file.fileName}: no chemical name column found. Expected one of: ${NAME_COLUMNS.join(', ')}.`);
+  }
+  const columns = {
+    shipType: findColumn(file.headers, SHIP_TYPE_COLUMNS),
+    coating: findColumn(file.headers, COATING_COLUMNS),
+    heating: findColumn(file.headers, HEATING_COLUMNS),
+    temperature: findColumn(file.headers, TEMPERATURE_COLUMNS)
+  };
+
+  const requirements: CargoRequirements = {};
+  const errors: string[] = [];
+  file.rows.forEach((row, index) => {
+    const chemical = cellText(row, name);
+    if (chemical === '') return;
+    try {
+      if (requirements[normalize(chemical)]) throw new Error(`${chemical} is listed more than once`);
+      requirements[normalize(chemical)] = {
+        chemical,
+        shipType: parseShipType(cellText(row, columns.shipType)),
+        coatings: parseCoatings(cellText(row, columns.coating)),
+        heating: parseYesNo(cellText(row, columns.heating)),
+        carriageTemperature: parseTemperature(cellText(row, columns.temperature))
+      };
+    } catch (error) {
+      errors.push(`row ${sourceRowNumber(row, index)}: ${(error as Error).message}`);
+    }
+  });
+  if (errors.length > 0) {
+    throw new Error(`${file.fileName}: ${errors.length} invalid row(s).\n${errors.join('\n')}`);
+  }
+  return requirements;
+};
+
+export const findRequirement = (requirements: CargoRequirements, chemical: string) =>
+  requirements[normalize(chemical || '')] || null;
+
+const checkRequirement = (vesselTank: VesselTank, requirement: CargoRequirement): CarriageFinding[] => {
+  const findings: CarriageFinding[] = [];
+  const finding = (kind: CarriageRequirementKind, severity: CarriageFinding['severity'], message: string) =>
+    findings.push({ tankId: vesselTank.id, chemical: requirement.chemical, requirement: kind, severity, message });
+
+  if (requirement.shipType !== null) {
+    if (vesselTank.shipType === undefined) {
+      finding('ship_type', 'unverified', `Requires ship type ${requirement.shipType}; the tank's ship type is not recorded.`);
+    } else if (vesselTank.shipType > requirement.shipType) {
+      finding('ship_type', 'violation', `Requires ship type ${requirement.shipType}; the tank is ship type ${vesselTank.shipType}.`);
+    }
+  }
+  if (requirement.coatings.length > 0) {
+    const allowed = requirement.coatings.map(coating => TANK_COATING_LABELS[coating]).join(' or ');
+    if (vesselTank.coating === undefined) {
+      finding('coating', 'unverified', `Requires ${allowed}; the tank's coating is not recorded.`);
+    } else if (!requirement.coatings.includes(vesselTank.coating)) {
+      finding('coating', 'violation', `Requires ${allowed}; the tank is ${TANK_COATING_LABELS[vesselTank.coating]}.`);
+    }
+  }
+  if (requirement.heating) {
+    if (vesselTank.heatingCoils === undefined) {
+      finding('heating', 'unverified', 'Requires heating; whether the tank has heating coils is not recorded.');
+    } else if (!vesselTank.heatingCoils) {
+      finding('heating', 'violation', 'Requires heating; the tank has no heating coils.');
+    }
+  }
+  if (requirement.carriageTemperature !== null) {
+    if (vesselTank.maxTemperature === undefined) {
+      finding('temperature', 'unverified', `Carried at ${requirement.carriageTemperature} °C; the tank's maximum temperature is not recorded.`);
+    } else if (requirement.carriageTemperature > vesselTank.maxTemperature) {
+      finding('temperature', 'violation', `Carried at ${requirement.carriageTemperature} °C; the tank is rated for ${vesselTank.maxTemperature} °C.`);
+    }
+  }
+  return findings;
+};
+
+// Cargoes without a requirements entry are not checked; a blend is checked
+// component by component
+export const checkTankCarriage = (vesselTank: VesselTank, tank: Tank, requirements: CargoRequirements): CarriageFinding[] => {
+  if (!isLoaded(tank) || !canHoldCargo(vesselTank)) return [];
+  return tankComponents(tank).flatMap(component => {
+    const requirement = findRequirement(requirements, component.chemical);
+    return requirement ? checkRequirement(vesselTank, requirement) : [];
+  });
+};
+
+export const checkCarriage = (vessel: VesselProfile, tanks: Record<string, Tank>, requirements: CargoRequirements): CarriageFinding[] =>
+  vessel.tanks.flatMap(vesselTank => tanks[vesselTank.id] ? checkTankCarriage(vesselTank, tanks[vesselTank.id], requirements) : []);
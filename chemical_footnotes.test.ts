@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { findFootnoteConflict, manualReviewNotes, parseFootnote } from './chemical_footnotes';
+
+const bannedGroups = (footnote: string) => {
+  const [rule] = parseFootnote(footnote);
+  return rule.kind === 'not_adjacent_to_groups' ? rule.groups : null;
+};
+
+describe('parseFootnote', () => {
+  it('reads a single banned group', () => {
+    expect(bannedGroups('Not adjacent to group 5')).toEqual([5]);
+  });
+
+  it('reads a list of groups', () => {
+    expect(bannedGroups('Not stowed adjacent to groups 1, 5 and 9')).toEqual([1, 5, 9]);
+    expect(bannedGroups('Not adjacent to groups 3 & 4')).toEqual([3, 4]);
+  });
+
+  it('expands a range to every group in it', () => {
+    expect(bannedGroups('Not adjacent to groups 5-10')).toEqual([5, 6, 7, 8, 9, 10]);
+    expect(bannedGroups('Not adjacent to groups 5 – 7')).toEqual([5, 6, 7]);
+    expect(bannedGroups('Not adjacent to groups 5 to 7')).toEqual([5, 6, 7]);
+  });
+
+  it('mixes ranges and single groups', () => {
+    expect(bannedGroups('Not adjacent to reactive groups 1, 5-7 and 20')).toEqual([1, 5, 6, 7, 20]);
+  });
+
+  it('splits several footnotes in one cell', () => {
+    expect(parseFootnote('2; not adjacent to group 5').map(rule => rule.kind)).toEqual(['see_exceptions', 'not_adjacent_to_groups']);
+    expect(parseFootnote('1, 2').map(rule => rule.kind)).toEqual(['not_assigned', 'see_exceptions']);
+  });
+
+  it('returns nothing for a blank cell', () => {
+    expect(parseFootnote(null)).toEqual([]);
+    expect(parseFootnote('  ')).toEqual([]);
+  });
+});
+
+describe('findFootnoteConflict', () => {
+  it('matches a group inside a range', () => {
+    const rules = parseFootnote('Not adjacent to groups 5-10');
+    expect(findFootnoteConflict(rules, 6)).toMatchObject({ kind: 'not_adjacent_to_groups' });
+    expect(findFootnoteConflict(rules, 11)).toBeNull();
+    expect(findFootnoteConflict(rules, null)).toBeNull();
+  });
+});
+
+describe('manualReviewNotes', () => {
+  it('leaves out footnotes the analysis evaluates itself', () => {
+    expect(manualReviewNotes('2; not adjacent to group 5; Depends on concentration')).toEqual(['Depends on concentration']);
+  });
+});
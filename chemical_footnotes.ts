@@ -0,0 +1,80 @@
+// Footnotes from the 46 CFR 150 chemical index. Each footnote is parsed into a
+// rule; the ones that can be evaluated against a neighbour's group are applied
+// during analysis, the rest are surfaced for manual review.
+
+export type FootnoteRule =
+  | { kind: 'see_exceptions'; text: string }
+  | { kind: 'not_adjacent_to_groups'; groups: number[]; text: string }
+  | { kind: 'concentration_dependent'; text: string }
+  | { kind: 'not_assigned'; text: string }
+  | { kind: 'unknown'; text: string };
+
+// Numbered footnotes as printed in 46 CFR 150 Table I
+const NUMBERED_FOOTNOTES: Record<string, string> = {
+  '1': 'Not assigned to a specific group in the Compatibility Chart; contact the Coast Guard for compatibility information.',
+  '2': 'See Appendix I - Exceptions to the Chart.'
+};
+
+// "5, 7 and 9" lists groups; "5-10" and "5 to 10" cover every group in between
+const parseGroups = (text: string) =>
+  Array.from(text.matchAll(/(\d+)(?:\s*(?:-|–|to)\s*(\d+))?/g)).flatMap(([, from, to]) => {
+    const first = parseInt(from);
+    const last = to === undefined ? first : parseInt(to);
+    const [low, high] = first <= last ? [first, last] : [last, first];
+    return Array.from({ length: high - low + 1 }, (_, index) => low + index);
+  });
+
+const parseFootnoteText = (text: string): FootnoteRule => {
+  const lower = text.toLowerCase();
+
+  const notAdjacent = lower.match(/not\s+(?:\w+\s+)?adjacent\s+to\s+(?:reactive\s+)?groups?\s+([\d,\s\-–and&to]+)/);
+  if (notAdjacent) {
+    const groups = parseGroups(notAdjacent[1]);
+    if (groups.length > 0) {
+      return { kind: 'not_adjacent_to_groups', groups, text };
+    }
+  }
+  if (/concentration/.test(lower)) {
+    return { kind: 'concentration_dependent', text };
+  }
+  if (/not assigned|contact the coast guard/.test(lower)) {
+    return { kind: 'not_assigned', text };
+  }
+  if (/see\s+(appendix\s+i\b|.*exceptions?)/.test(lower)) {
+    return { kind: 'see_exceptions', text };
+  }
+  return { kind: 'unknown', text };
+};
+
+// A cell may hold several footnotes: "1, 2", "2; not adjacent to group 5", ...
+export const parseFootnote = (footnote: string | number | null | undefined): FootnoteRule[] => {
+  if (footnote === null || footnote === undefined) return [];
+  const raw = footnote.toString().trim();
+  if (raw === '') return [];
+
+  // Pure reference numbers separated by commas
+  if (/^\d+(\s*,\s*\d+)*$/.test(raw)) {
+    return raw.split(',').map(code => {
+      const text = NUMBERED_FOOTNOTES[code.trim()];
+      return text ? parseFootnoteText(text) : { kind: 'unknown', text: `Footnote ${code.trim()}` };
+    });
+  }
+
+  return raw.split(';').map(part => part.trim()).filter(part => part !== '').map(part =>
+    NUMBERED_FOOTNOTES[part] ? parseFootnoteText(NUMBERED_FOOTNOTES[part]) : parseFootnoteText(part)
+  );
+};
+
+// See-exceptions footnotes are already covered by the exception lists and
+// group bans are evaluated; anything else needs a person to read it
+export const requiresManualReview = (rule: FootnoteRule) =>
+  rule.kind !== 'see_exceptions' && rule.kind !== 'not_adjacent_to_groups';
+
+export const manualReviewNotes = (footnote: string | number | null | undefined) =>
+  parseFootnote(footnote).filter(requiresManualReview).map(rule => rule.text);
+
+// First footnote rule that forbids stowing next to the given group
+export const findFootnoteConflict = (rules: FootnoteRule[], otherGroup: number | null) => {
+  if (otherGroup === null || otherGroup === undefined) return null;
+  return rules.find(rule => rule.kind === 'not_adjacent_to_groups' && rule.groups.includes(otherGroup)) || null;
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { levenshtein, resolveChemical, searchChemicals, toChemical } from './chemical_lookup';
+
+const chemicals = [
+  { 'Chemical name': 'Methanol', 'Group No.': 20, 'Synonyms': 'Methyl alcohol; Wood alcohol', 'UN Number': 'UN 1230', 'CAS No.': '67-56-1' },
+  { 'Chemical name': 'Ethanol', 'Group No.': 20, 'UN': '1170' },
+  { 'Chemical name': 'Sulfuric acid', 'Group No.': 2 },
+  { 'Chemical name': 'Sulfuric acid', 'Group No.': 2, 'Synonyms': 'Oil of vitriol' },
+  { 'Chemical name': 'Ammonium nitrate solution', 'Group No.': 0, 'Footnote': 'Up to 93%' },
+  { 'Chemical name': 'Ammonium nitrate solution', 'Group No.': 1, 'Footnote': 'Over 93%' }
+];
+
+const resolvedName = (query: string) => {
+  const result = resolveChemical(query, chemicals);
+  return result.status === 'found' ? result.chemical.name : result.status;
+};
+
+describe('resolveChemical', () => {
+  it('finds a chemical by name, synonym, UN number or CAS number', () => {
+    expect(resolvedName('  methanol ')).toBe('Methanol');
+    expect(resolvedName('wood alcohol')).toBe('Methanol');
+    expect(resolvedName('un1230')).toBe('Methanol');
+    expect(resolvedName('1170')).toBe('Ethanol');
+    expect(resolvedName('67-56-1')).toBe('Methanol');
+  });
+
+  it('treats rows with the same name and group as one chemical', () => {
+    expect(resolvedName('Sulfuric acid')).toBe('Sulfuric acid');
+  });
+
+  it('leaves a name with several groups ambiguous', () => {
+    const result = resolveChemical('Ammonium nitrate solution', chemicals);
+    expect(result.status).toBe('ambiguous');
+    expect(result.status === 'ambiguous' && result.candidates.map(match => match.chemical.group)).toEqual([0, 1]);
+  });
+
+  it('offers partial and misspelt matches as candidates instead of resolving them', () => {
+    const partial = resolveChemical('Sulf', chemicals);
+    expect(partial.status).toBe('ambiguous');
+    expect(resolveChemical('Metanol', chemicals)).toMatchObject({
+      status: 'ambiguous',
+      candidates: [expect.objectContaining({ matchType: 'fuzzy', chemical: expect.objectContaining({ name: 'Methanol' }) })]
+    });
+  });
+
+  it('reports nothing found', () => {
+    expect(resolvedName('Unobtainium')).toBe('not_found');
+    expect(resolvedName('')).toBe('not_found');
+  });
+});
+
+describe('toChemical', () => {
+  it('reads the group as a number whatever the cell type', () => {
+    expect(toChemical({ 'Chemical name': 'Acetic acid', 'Group No.': ' 4 ' }).group).toBe(4);
+    expect(toChemical({ 'Chemical name': 'Acetic acid', 'Group No.': 4 }).group).toBe(4);
+    expect(toChemical({ 'Chemical name': 'Acetic acid', 'Group No.': '' }).group).toBeNull();
+  });
+});
+
+describe('searchChemicals', () => {
+  it('ranks exact names ahead of substrings', () => {
+    expect(searchChemicals('ethanol', chemicals).map(match => [match.chemical.name, match.matchType])).toEqual([
+      ['Ethanol', 'name'],
+      ['Methanol', 'contains']
+    ]);
+  });
+});
+
+describe('levenshtein', () => {
+  it('counts single-character edits', () => {
+    expect(levenshtein('kitten', 'sitting')).toBe(3);
+    expect(levenshtein('', 'abc')).toBe(3);
+  });
+});
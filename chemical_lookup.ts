@@ -0,0 +1,137 @@
+// Chemical lookup by name, synonym, UN number or CAS number. Only an
+// unambiguous exact identifier resolves to a chemical; partial and fuzzy
+// matches are returned as candidates so the user has to pick one.
+import type { Chemical, ChemicalIndexRow, ReactiveGroup } from './cargo_compatibility_engine';
+
+export type MatchType = 'name' | 'synonym' | 'un' | 'cas' | 'prefix' | 'contains' | 'fuzzy';
+
+export interface ChemicalMatch {
+  chemical: Chemical;
+  matchType: MatchType;
+  // Lower is better
+  score: number;
+}
+
+export type LookupResult =
+  | { status: 'found'; chemical: Chemical }
+  | { status: 'ambiguous'; candidates: ChemicalMatch[] }
+  | { status: 'not_found' };
+
+const SYNONYM_COLUMNS = ['Synonyms', 'Synonym', 'Other names'];
+const UN_COLUMNS = ['UN Number', 'UN No.', 'UN'];
+const CAS_COLUMNS = ['CAS Number', 'CAS No.', 'CAS'];
+
+const columnValue = (row: ChemicalIndexRow, columns: string[]): string => {
+  const column = columns.find(name => row[name] !== undefined && row[name] !== null && row[name] !== '');
+  return column ? row[column].toString().trim() : '';
+};
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// "UN 1230", "un1230" and "1230" all mean the same entry
+const normalizeUn = (text: string) => text.toUpperCase().replace(/^UN\s*/, '').replace(/\s+/g, '');
+
+const normalizeCas = (text: string) => text.replace(/\s+/g, '');
+
+// Spreadsheet and CSV cells give numbers, JSON and text-formatted cells may
+// give "4"; the engine compares groups as numbers, so anything else is no group
+export const toGroup = (value: any): ReactiveGroup | null => {
+  if (typeof value === 'number') return Number.isInteger(value) && value >= 0 ? value : null;
+  return typeof value === 'string' && /^\d+$/.test(value.trim()) ? Number(value.trim()) : null;
+};
+
+export const toChemical = (row: ChemicalIndexRow): Chemical => {
+  const synonyms = columnValue(row, SYNONYM_COLUMNS);
+  const unNumber = columnValue(row, UN_COLUMNS);
+  const casNumber = columnValue(row, CAS_COLUMNS);
+  return {
+    name: row['Chemical name'],
+    group: toGroup(row['Group No.']),
+    footnote: row['Footnote'],
+    ...(synonyms ? { synonyms: synonyms.split(/[;|]/).map(s => s.trim()).filter(s => s !== '') } : {}),
+    ...(unNumber ? { unNumber: normalizeUn(unNumber) } : {}),
+    ...(casNumber ? { casNumber: normalizeCas(casNumber) } : {})
+  };
+};
+
+export const levenshtein = (a: string, b: string) => {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+};
+
+const exactMatch = (query: string, chemical: Chemical): ChemicalMatch | null => {
+  const cleaned = normalize(query);
+  if (normalize(chemical.name) === cleaned) return { chemical, matchType: 'name', score: 0 };
+  if ((chemical.synonyms || []).map(normalize).includes(cleaned)) return { chemical, matchType: 'synonym', score: 0 };
+  if (chemical.unNumber && normalizeUn(query) === chemical.unNumber) return { chemical, matchType: 'un', score: 0 };
+  if (chemical.casNumber && normalizeCas(query) === chemical.casNumber) return { chemical, matchType: 'cas', score: 0 };
+  return null;
+};
+
+const matchRow = (query: string, chemical: Chemical): ChemicalMatch | null => {
+  const exact = exactMatch(query, chemical);
+  if (exact) return exact;
+
+  const cleaned = normalize(query);
+  const names = [normalize(chemical.name), ...(chemical.synonyms || []).map(normalize)];
+  if (names.some(n => n.startsWith(cleaned))) return { chemical, matchType: 'prefix', score: 1 };
+  if (names.some(n => n.includes(cleaned))) return { chemical, matchType: 'contains', score: 2 };
+
+  // Typo tolerance grows with the length of what was typed
+  const allowed = Math.max(1, Math.floor(cleaned.length / 5));
+  const distance = Math.min(...names.map(n => levenshtein(cleaned, n)));
+  if (cleaned.length >= 4 && distance <= allowed) {
+    return { chemical, matchType: 'fuzzy', score: 2 + distance };
+  }
+  return null;
+};
+
+const matchAll = (query: string, chemicals: ChemicalIndexRow[], matcher: typeof matchRow) => {
+  if (!query || !query.trim() || !chemicals) return [];
+  return chemicals
+    .filter(row => row && row['Chemical name'])
+    .map(row => matcher(query, toChemical(row)))
+    .filter((match): match is ChemicalMatch => match !== null)
+    .sort((a, b) => a.score - b.score || a.chemical.name.localeCompare(b.chemical.name));
+};
+
+export const searchChemicals = (query: string, chemicals: ChemicalIndexRow[], limit = 10): ChemicalMatch[] =>
+  matchAll(query, chemicals, matchRow).slice(0, limit);
+
+export const resolveChemical = (query: string, chemicals: ChemicalIndexRow[]): LookupResult => {
+  // Exact identifiers are cheap to check; only fall back to fuzzy search without one
+  const exact = matchAll(query, chemicals, exactMatch);
+
+  // An exact name beats a synonym or number that happens to equal it
+  const byName = exact.filter(match => match.matchType === 'name');
+  const decisive = byName.length > 0 ? byName : exact;
+  // Rows sharing a name but not a group (e.g. by concentration) stay ambiguous
+  const distinct = decisive.filter((match, index) =>
+    decisive.findIndex(other => other.chemical.name === match.chemical.name && other.chemical.group === match.chemical.group) === index
+  );
+
+  if (distinct.length === 1) {
+    return { status: 'found', chemical: distinct[0].chemical };
+  }
+  if (distinct.length > 1) {
+    return { status: 'ambiguous', candidates: distinct };
+  }
+  const matches = searchChemicals(query, chemicals);
+  if (matches.length > 0) {
+    return { status: 'ambiguous', candidates: matches };
+  }
+  return { status: 'not_found' };
+};
@@ -0,0 +1,114 @@
+// Command-line options shared by the Node tools (verifier and local API):
+// where the reference files are and how the analysis is configured.
+import { readFileSync } from 'fs';
+import { basename } from 'path';
+import { DEFAULT_ADJACENCY_POLICY } from './cargo_compatibility_engine';
+import type { AdjacencyPolicy } from './cargo_compatibility_engine';
+import { DEFAULT_FILL_LIMIT } from './tank_quantities';
+import type { ReferenceInput, VerificationOptions } from './plan_verification';
+import { REFERENCE_FILE_KEYS } from './reference_data_loader';
+import type { ReferenceFileKey } from './reference_data_loader';
+import { ADJACENCY_TYPE_LABELS } from './vessel_profile';
+import type { AdjacencyType } from './vessel_profile';
+
+export interface ReferenceOptions extends Required<VerificationOptions> {
+  bundle: string | null;
+  files: Partial<Record<ReferenceFileKey, string>>;
+  requirements: string | null;
+  companyRules: string | null;
+}
+
+const FILE_OPTIONS: Record<string, ReferenceFileKey> = {
+  '--chemical-index': 'chemicalIndex',
+  '--chart': 'compatibilityChart',
+  '--compatible-exceptions': 'compatibleExceptions',
+  '--incompatible-exceptions': 'incompatibleExceptions'
+};
+
+const enforcedTypes = (policy: AdjacencyPolicy) =>
+  (Object.keys(policy) as AdjacencyType[]).filter(type => policy[type]).join(',');
+
+export const REFERENCE_OPTIONS_USAGE = `Reference data (a bundle or all four files):
+  --bundle <file>                   All four datasets in one JSON file
+  --chemical-index <file>           Chemical Index (.xlsx, .xls, .csv, .json)
+  --chart <file>                    Cargo Compatibility Chart
+  --compatible-exceptions <file>    Compatible Exceptions
+  --incompatible-exceptions <file>  Incompatible Exceptions
+  --cargo-requirements <file>       Optional ship type, coating, heating and
+                                    temperature requirements per cargo
+  --company-rules <file>            Optional company rules (JSON), reported
+                                    apart from the regulatory result
+
+Analysis:
+  --enforce <types>   Contacts that must be compatible, comma separated from
+                      ${Object.keys(ADJACENCY_TYPE_LABELS).join(', ')} (default ${enforcedTypes(DEFAULT_ADJACENCY_POLICY)})
+  --as-loaded-chart   Use the chart exactly as loaded instead of symmetric
+  --fill-limit <pct>  Highest fill as a percentage of tank capacity
+                      (default ${DEFAULT_FILL_LIMIT})`;
+
+export const defaultReferenceOptions = (): ReferenceOptions => ({
+  bundle: null,
+  files: {},
+  requirements: null,
+  companyRules: null,
+  adjacencyPolicy: { ...DEFAULT_ADJACENCY_POLICY },
+  symmetricChart: true,
+  fillLimit: DEFAULT_FILL_LIMIT
+});
+
+// Consumes one reference or analysis option; false if arg is not one of them
+export const parseReferenceOption = (arg: string, value: () => string, options: ReferenceOptions) => {
+  if (FILE_OPTIONS[arg]) options.files[FILE_OPTIONS[arg]] = value();
+  else if (arg === '--bundle') options.bundle = value();
+  else if (arg === '--cargo-requirements') options.requirements = value();
+  else if (arg === '--company-rules') options.companyRules = value();
+  else if (arg === '--as-loaded-chart') options.symmetricChart = false;
+  else if (arg === '--fill-limit') {
+    const text = value();
+    const fillLimit = Number(text);
+    if (!(fillLimit > 0 && fillLimit <= 100)) throw new Error(`--fill-limit must be a percentage above 0 and at most 100, not '${text}'.`);
+    options.fillLimit = fillLimit;
+  }
+  else if (arg === '--enforce') {
+    const types = value().split(',').map(type => type.trim()).filter(type => type !== '');
+    const unknown = types.filter(type => !(type in ADJACENCY_TYPE_LABELS));
+    if (unknown.length > 0) throw new Error(`Unknown contact type(s): ${unknown.join(', ')}.`);
+    (Object.keys(options.adjacencyPolicy) as AdjacencyType[]).forEach(type => {
+      options.adjacencyPolicy[type] = types.includes(type);
+    });
+  } else return false;
+  return true;
+};
+
+export const checkReferenceOptions = (options: ReferenceOptions) => {
+  const missing = REFERENCE_FILE_KEYS.filter(key => !options.files[key]);
+  if (options.bundle && missing.length < REFERENCE_FILE_KEYS.length) {
+    throw new Error('Give either --bundle or the four reference files, not both.');
+  }
+  if (!options.bundle && missing.length > 0) {
+    throw new Error(`Give --bundle or all four reference files (missing: ${missing.join(', ')}).`);
+  }
+};
+
+const readArrayBuffer = (path: string) => {
+  const buffer = readFileSync(path);
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+};
+
+export const readReferenceInput = (options: ReferenceOptions): ReferenceInput => {
+  const requirements = options.requirements
+    ? { fileName: basename(options.requirements), data: readArrayBuffer(options.requirements) }
+    : null;
+  const companyRules = options.companyRules
+    ? { fileName: basename(options.companyRules), text: readFileSync(options.companyRules, 'utf-8') }
+    : null;
+  if (options.bundle) {
+    return { bundle: { fileName: basename(options.bundle), text: readFileSync(options.bundle, 'utf-8') }, requirements, companyRules };
+  }
+  const files = {} as Record<ReferenceFileKey, { fileName: string; data: ArrayBuffer }>;
+  REFERENCE_FILE_KEYS.forEach(key => {
+    const path = options.files[key] as string;
+    files[key] = { fileName: basename(path), data: readArrayBuffer(path) };
+  });
+  return { files, requirements, companyRules };
+};
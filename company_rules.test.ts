@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import type { Tank } from './cargo_compatibility_engine';
+import { evaluateCompanyRules, parseCompanyRules } from './company_rules';
+import { createGridProfile, updateTank } from './vessel_profile';
+
+const rules = (rules: any[], tags: Record<string, string[]> = {}) => parseCompanyRules(JSON.stringify({ name: 'Fleet policy', tags, rules }));
+
+const ethanol: Tank = { chemical: 'Ethanol', group: 20 };
+const caustic: Tank = { chemical: 'Caustic soda', group: 5 };
+const acetone: Tank = { chemical: 'Acetone', group: 18 };
+
+const foodGrade = { 'food-grade': ['Ethanol'] };
+
+describe('parseCompanyRules', () => {
+  it('expands group ranges and fills in defaults', () => {
+    const ruleSet = rules([{ id: 'FG-1', cargo: { tags: ['food-grade'] }, neighbour: { groups: [1, '5-7'] } }], { 'food-grade': ['  Ethanol '] });
+    expect(ruleSet.tags).toEqual({ 'food-grade': ['ethanol'] });
+    expect(ruleSet.rules).toEqual([{
+      id: 'FG-1',
+      description: 'FG-1',
+      severity: 'error',
+      type: 'separation',
+      cargo: { tags: ['food-grade'] },
+      neighbour: { groups: [1, 5, 6, 7] },
+      contact: ['bulkhead', 'corner', 'vertical']
+    }]);
+    expect(rules([{ id: 'BUF-1', cargo: { groups: [1] } }]).rules[0].type).toBe('buffer');
+  });
+
+  it('lists every error with its rule', () => {
+    expect(() => rules([
+      { id: 'A', type: 'separation', cargo: { tags: ['unknown'] }, neighbour: { groups: ['9-3'] } },
+      { id: 'A', severity: 'fatal', cargo: { heated: true } },
+      { cargo: { tank: { shipType: 4 } }, contact: ['wall'] }
+    ])).toThrow(
+      'company-rules.json: 7 error(s) in company rules.\n' +
+      "Rule A: cargo.tags: tag 'unknown' is not defined.\n" +
+      "Rule A: neighbour.groups: '9-3' is not a group or range of groups.\n" +
+      'Rule A: uses an id that is already taken.\n' +
+      "Rule A: has unknown severity 'fatal'; use error or warning.\n" +
+      'Rule #3: has no id.\n' +
+      'Rule #3: contact must list one or more of bulkhead, corner, vertical, cofferdam.\n' +
+      'Rule #3: cargo.tank.shipType must be 1, 2 or 3.'
+    );
+  });
+
+  it('rejects a condition that would match every cargo', () => {
+    expect(() => rules([{ id: 'X', cargo: {} }])).toThrow('Rule X: cargo has no conditions; it would match every cargo.');
+  });
+
+  it('rejects an empty tank condition instead of matching every cargo', () => {
+    expect(() => rules([{ id: 'X', cargo: { tank: {} } }])).toThrow(
+      'Rule X: cargo.tank must be an object with one or more of shipType, coating, heatingCoils.'
+    );
+  });
+
+  it('rejects condition keys it does not know', () => {
+    expect(() => rules([{ id: 'X', cargo: { group: [5] } }, { id: 'Y', cargo: { groups: [5], tank: { coatings: ['zinc'] } } }])).toThrow(
+      "Rule X: cargo: unknown condition 'group'; use chemicals, groups, tags, heated, tank.\n" +
+      'Rule X: cargo has no conditions; it would match every cargo.\n' +
+      "Rule Y: cargo.tank: unknown condition 'coatings'; use shipType, coating, heatingCoils."
+    );
+  });
+
+  it('rejects files that are not rule sets', () => {
+    expect(() => parseCompanyRules('{', 'rules.json')).toThrow('rules.json: not valid JSON');
+    expect(() => parseCompanyRules('{}', 'rules.json')).toThrow('rules.json: company rules must contain a "rules" array.');
+  });
+});
+
+describe('evaluateCompanyRules', () => {
+  const vessel = createGridProfile(3, 1);
+
+  it('reports separation violations once per pair of cargoes', () => {
+    const ruleSet = rules([{ id: 'FG-1', description: 'No food-grade next to caustics', cargo: { tags: ['food-grade'] }, neighbour: { groups: ['5-10'] } }], foodGrade);
+    expect(evaluateCompanyRules({ vessel, tanks: { '0-0': ethanol, '0-1': caustic, '0-2': ethanol } }, ruleSet)).toEqual([
+      { ruleId: 'FG-1', description: 'No food-grade next to caustics', severity: 'error', tank1: '0-0', chemical1: 'Ethanol', tank2: '0-1', chemical2: 'Caustic soda', adjacencyType: 'bulkhead' },
+      { ruleId: 'FG-1', description: 'No food-grade next to caustics', severity: 'error', tank1: '0-2', chemical1: 'Ethanol', tank2: '0-1', chemical2: 'Caustic soda', adjacencyType: 'bulkhead' }
+    ]);
+    expect(evaluateCompanyRules({ vessel, tanks: { '0-0': ethanol, '0-1': acetone } }, ruleSet)).toEqual([]);
+  });
+
+  it('wants buffer tanks around the cargo empty', () => {
+    const ruleSet = rules([{ id: 'BUF-1', severity: 'warning', cargo: { chemicals: ['acetone'] } }]);
+    const violations = evaluateCompanyRules({ vessel, tanks: { '0-0': ethanol, '0-1': acetone } }, ruleSet);
+    expect(violations).toMatchObject([{ ruleId: 'BUF-1', severity: 'warning', tank1: '0-1', chemical2: 'Ethanol' }]);
+  });
+
+  it('checks the attributes of the tank the cargo is in', () => {
+    const ruleSet = rules([{ id: 'T-1', cargo: { groups: [5], tank: { shipType: [3] } } }]);
+    const tanks = { '0-0': ethanol, '0-1': caustic };
+    expect(evaluateCompanyRules({ vessel, tanks }, ruleSet)).toEqual([]);
+    expect(evaluateCompanyRules({ vessel: updateTank(vessel, '0-1', { shipType: 3 }), tanks }, ruleSet)).toHaveLength(1);
+  });
+
+  it('checks each component of a blend', () => {
+    const ruleSet = rules([{ id: 'FG-1', cargo: { tags: ['food-grade'] }, neighbour: { groups: [5] } }], foodGrade);
+    const blend: Tank = {
+      chemical: 'Acetone 50% + Ethanol 50%',
+      group: 18,
+      components: [{ chemical: 'Acetone', group: 18, proportion: 50 }, { chemical: 'Ethanol', group: 20, proportion: 50 }]
+    };
+    expect(evaluateCompanyRules({ vessel, tanks: { '0-0': blend, '0-1': caustic } }, ruleSet)).toMatchObject([{ chemical1: 'Ethanol', chemical2: 'Caustic soda' }]);
+  });
+
+  it('does nothing without a rule set', () => {
+    expect(evaluateCompanyRules({ vessel, tanks: { '0-0': ethanol, '0-1': caustic } }, null)).toEqual([]);
+  });
+});
@@ -0,0 +1,343 @@
+// Company rules: stricter policies layered on top of the regulatory chart,
+// declared in a JSON rules file. They are evaluated alongside the analysis and
+// reported apart from regulatory violations.
+//
+//   {
+//     "name": "Fleet stowage policy",
+//     "tags": { "food-grade": ["Ethanol"], "low-flash-point": ["Acetone", "Methanol"] },
+//     "rules": [
+//       { "id": "FG-1", "description": "No food-grade cargo next to groups 5-10", "severity": "error",
+//         "type": "separation", "cargo": { "tags": ["food-grade"] }, "neighbour": { "groups": ["5-10"] } },
+//       { "id": "BUF-1", "description": "Empty tank around group 1", "severity": "warning",
+//         "type": "buffer", "cargo": { "groups": [1] }, "contact": ["bulkhead"] }
+//     ]
+//   }
+import { isLoaded, tankComponents } from './cargo_compatibility_engine';
+import type { ReactiveGroup, StowagePlan, Tank, TankComponent } from './cargo_compatibility_engine';
+import { findRequirement } from './cargo_requirements';
+import type { CargoRequirements } from './cargo_requirements';
+import type { ReferenceSource } from './compliance_report';
+import { sha256Hex } from './content_hash';
+import { ADJACENCY_TYPE_LABELS, findTank, getAdjacencies, SHIP_TYPES, TANK_COATING_LABELS } from './vessel_profile';
+import type { AdjacencyType, ShipType, TankCoating, VesselTank } from './vessel_profile';
+import { defaultStorage } from './stowage_plan_storage';
+import type { PlanStorage } from './stowage_plan_storage';
+
+export type RuleSeverity = 'error' | 'warning';
+
+// separation: matching cargoes may not touch; buffer: tanks around the cargo must be empty
+export type CompanyRuleType = 'separation' | 'buffer';
+
+// Every field given must hold; within a list any entry will do
+export interface CargoCondition {
+  chemicals?: string[];
+  groups?: ReactiveGroup[];
+  tags?: string[];
+  // Cargo needs heating according to the cargo requirements file
+  heated?: boolean;
+  // Attributes of the tank the cargo is in
+  tank?: { shipType?: ShipType[]; coating?: TankCoating[]; heatingCoils?: boolean };
+}
+
+export interface CompanyRule {
+  id: string;
+  description: string;
+  severity: RuleSeverity;
+  type: CompanyRuleType;
+  cargo: CargoCondition;
+  // Separation rules only
+  neighbour: CargoCondition | null;
+  contact: AdjacencyType[];
+}
+
+export interface CompanyRuleSet {
+  name: string;
+  // Tag name to chemical names
+  tags: Record<string, string[]>;
+  rules: CompanyRule[];
+}
+
+export interface RuleViolation {
+  ruleId: string;
+  description: string;
+  severity: RuleSeverity;
+  tank1: string;
+  chemical1: string;
+  // The neighbouring tank that breaks the rule
+  tank2: string;
+  chemical2: string;
+  adjacencyType: AdjacencyType;
+}
+
+// Physical contact; cofferdam separation only when a rule asks for it
+const DEFAULT_CONTACT: AdjacencyType[] = ['bulkhead', 'corner', 'vertical'];
+
+const RULES_KEY = 'cargo-compatibility:company-rules';
+
+const CONDITION_KEYS = ['chemicals', 'groups', 'tags', 'heated', 'tank'];
+const TANK_CONDITION_KEYS = ['shipType', 'coating', 'heatingCoils'];
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const stringList = (value: any, field: string, errors: string[]): string[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string' || !item.trim())) {
+    errors.push(`${field} must be a list of names.`);
+    return undefined;
+  }
+  return value.map(item => item.trim());
+};
+
+// A misspelt key would otherwise leave the condition wider than intended
+const checkKeys = (value: Record<string, any>, allowed: string[], field: string, errors: string[]) => {
+  Object.keys(value)
+    .filter(key => !allowed.includes(key))
+    .forEach(key => errors.push(`${field}: unknown condition '${key}'; use ${allowed.join(', ')}.`));
+};
+
+// Groups may be written as numbers or ranges: [1, "5-10"]
+const groupList = (value: any, field: string, errors: string[]): ReactiveGroup[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    errors.push(`${field} must be a list of groups.`);
+    return undefined;
+  }
+  return value.flatMap(item => {
+    const range = String(item).trim().match(/^(\d+)\s*(?:-\s*(\d+))?$/);
+    if (!range || (range[2] && Number(range[2]) < Number(range[1]))) {
+      errors.push(`${field}: '${item}' is not a group or range of groups.`);
+      return [];
+    }
+    const first = Number(range[1]);
+    const last = range[2] ? Number(range[2]) : first;
+    return Array.from({ length: last - first + 1 }, (_, index) => first + index);
+  });
+};
+
+const parseCondition = (value: any, field: string, tags: Record<string, string[]>, errors: string[]): CargoCondition => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    errors.push(`${field} must be an object of conditions.`);
+    return {};
+  }
+  checkKeys(value, CONDITION_KEYS, field, errors);
+  const condition: CargoCondition = {};
+  const chemicals = stringList(value.chemicals, `${field}.chemicals`, errors);
+  if (chemicals) condition.chemicals = chemicals;
+  const groups = groupList(value.groups, `${field}.groups`, errors);
+  if (groups) condition.groups = groups;
+  const tagNames = stringList(value.tags, `${field}.tags`, errors);
+  if (tagNames) {
+    tagNames.filter(tag => !tags[tag]).forEach(tag => errors.push(`${field}.tags: tag '${tag}' is not defined.`));
+    condition.tags = tagNames;
+  }
+  if (value.heated !== undefined) {
+    if (typeof value.heated !== 'boolean') errors.push(`${field}.heated must be true or false.`);
+    else condition.heated = value.heated;
+  }
+  const tank = value.tank;
+  if (tank !== undefined && (!tank || typeof tank !== 'object' || Array.isArray(tank) || Object.keys(tank).length === 0)) {
+    errors.push(`${field}.tank must be an object with one or more of ${TANK_CONDITION_KEYS.join(', ')}.`);
+  } else if (tank !== undefined) {
+    checkKeys(tank, TANK_CONDITION_KEYS, `${field}.tank`, errors);
+    condition.tank = {};
+    if (tank.shipType !== undefined) {
+      const types = Array.isArray(tank.shipType) ? tank.shipType : [tank.shipType];
+      if (types.some((type: any) => !SHIP_TYPES.includes(type))) errors.push(`${field}.tank.shipType must be 1, 2 or 3.`);
+      else condition.tank.shipType = types;
+    }
+    if (tank.coating !== undefined) {
+      const coatings = Array.isArray(tank.coating) ? tank.coating : [tank.coating];
+      if (coatings.some((coating: any) => !(coating in TANK_COATING_LABELS))) {
+        errors.push(`${field}.tank.coating must be one of ${Object.keys(TANK_COATING_LABELS).join(', ')}.`);
+      } else condition.tank.coating = coatings;
+    }
+    if (tank.heatingCoils !== undefined) {
+      if (typeof tank.heatingCoils !== 'boolean') errors.push(`${field}.tank.heatingCoils must be true or false.`);
+      else condition.tank.heatingCoils = tank.heatingCoils;
+    }
+  }
+  if (Object.keys(condition).length === 0) errors.push(`${field} has no conditions; it would match every cargo.`);
+  return condition;
+};
+
+const parseRule = (value: any, index: number, tags: Record<string, string[]>, ids: Set<string>, errors: string[]): CompanyRule | null => {
+  const ruleErrors: string[] = [];
+  const id = value && typeof value.id === 'string' && value.id.trim() ? value.id.trim() : `#${index + 1}`;
+  if (!value || typeof value !== 'object') {
+    errors.push(`Rule ${id} is not an object.`);
+    return null;
+  }
+  if (id.startsWith('#')) ruleErrors.push('has no id.');
+  else if (ids.has(id)) ruleErrors.push('uses an id that is already taken.');
+  ids.add(id);
+
+  const type: CompanyRuleType = value.type === undefined ? (value.neighbour ? 'separation' : 'buffer') : value.type;
+  if (type !== 'separation' && type !== 'buffer') ruleErrors.push(`has unknown type '${value.type}'; use separation or buffer.`);
+  const severity: RuleSeverity = value.severity === undefined ? 'error' : value.severity;
+  if (severity !== 'error' && severity !== 'warning') ruleErrors.push(`has unknown severity '${value.severity}'; use error or warning.`);
+
+  const contact: AdjacencyType[] = value.contact === undefined ? DEFAULT_CONTACT : value.contact;
+  if (!Array.isArray(contact) || contact.length === 0 || contact.some(type => !(type in ADJACENCY_TYPE_LABELS))) {
+    ruleErrors.push(`contact must list one or more of ${Object.keys(ADJACENCY_TYPE_LABELS).join(', ')}.`);
+  }
+
+  const cargo = parseCondition(value.cargo, 'cargo', tags, ruleErrors);
+  let neighbour: CargoCondition | null = null;
+  if (type === 'separation') {
+    neighbour = parseCondition(value.neighbour, 'neighbour', tags, ruleErrors);
+  } else if (value.neighbour !== undefined) {
+    ruleErrors.push('is a buffer rule; buffer rules have no neighbour condition.');
+  }
+
+  ruleErrors.forEach(error => errors.push(`Rule ${id}: ${error}`));
+  if (ruleErrors.length > 0) return null;
+  return {
+    id,
+    description: typeof value.description === 'string' && value.description.trim() ? value.description.trim() : id,
+    severity,
+    type,
+    cargo,
+    neighbour,
+    contact
+  };
+};
+
+export const parseCompanyRules = (json: string, fileName = 'company-rules.json'): CompanyRuleSet => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`${fileName}: not valid JSON: ${(error as Error).message}`);
+  }
+  if (!data || !Array.isArray(data.rules)) {
+    throw new Error(`${fileName}: company rules must contain a "rules" array.`);
+  }
+
+  const errors: string[] = [];
+  const tags: Record<string, string[]> = {};
+  Object.entries(data.tags && typeof data.tags === 'object' ? data.tags : {}).forEach(([tag, names]) => {
+    const list = stringList(names, `tags.${tag}`, errors);
+    if (list) tags[tag] = list.map(normalize);
+  });
+  const ids = new Set<string>();
+  const rules = data.rules.map((rule: any, index: number) => parseRule(rule, index, tags, ids, errors));
+  if (errors.length > 0) {
+    throw new Error(`${fileName}: ${errors.length} error(s) in company rules.\n${errors.join('\n')}`);
+  }
+  return {
+    name: typeof data.name === 'string' && data.name.trim() ? data.name.trim() : fileName,
+    tags,
+    rules: rules.filter((rule: CompanyRule | null): rule is CompanyRule => rule !== null)
+  };
+};
+
+const matchesComponent = (
+  component: TankComponent,
+  vesselTank: VesselTank,
+  condition: CargoCondition,
+  tags: Record<string, string[]>,
+  requirements: CargoRequirements
+) => {
+  const name = normalize(component.chemical);
+  if (condition.chemicals && !condition.chemicals.some(chemical => normalize(chemical) === name)) return false;
+  if (condition.groups && (component.group === null || !condition.groups.includes(component.group))) return false;
+  if (condition.tags && !condition.tags.some(tag => (tags[tag] || []).includes(name))) return false;
+  if (condition.heated !== undefined && (findRequirement(requirements, component.chemical)?.heating || false) !== condition.heated) return false;
+  if (condition.tank) {
+    const { shipType, coating, heatingCoils } = condition.tank;
+    if (shipType && (vesselTank.shipType === undefined || !shipType.includes(vesselTank.shipType))) return false;
+    if (coating && (vesselTank.coating === undefined || !coating.includes(vesselTank.coating))) return false;
+    if (heatingCoils !== undefined && vesselTank.heatingCoils !== heatingCoils) return false;
+  }
+  return true;
+};
+
+// Components of the tank that meet the condition
+const matchingComponents = (
+  tank: Tank | undefined,
+  vesselTank: VesselTank,
+  condition: CargoCondition,
+  tags: Record<string, string[]>,
+  requirements: CargoRequirements
+) => tankComponents(tank).filter(component => matchesComponent(component, vesselTank, condition, tags, requirements));
+
+export const evaluateCompanyRules = (
+  plan: StowagePlan,
+  ruleSet: CompanyRuleSet | null,
+  requirements: CargoRequirements = {}
+): RuleViolation[] => {
+  if (!ruleSet) return [];
+  const { vessel, tanks } = plan;
+  const violations: RuleViolation[] = [];
+  const seen = new Set<string>();
+
+  ruleSet.rules.forEach(rule => {
+    vessel.tanks.forEach(vesselTank => {
+      const matched = matchingComponents(tanks[vesselTank.id], vesselTank, rule.cargo, ruleSet.tags, requirements);
+      if (matched.length === 0) return;
+
+      getAdjacencies(vessel, vesselTank.id)
+        .filter(({ type }) => rule.contact.includes(type))
+        .forEach(({ tankId: adjTankId, type }) => {
+          const adjVesselTank = findTank(vessel, adjTankId);
+          const adjTank = tanks[adjTankId];
+          if (!adjVesselTank || !isLoaded(adjTank)) return;
+          const neighbours = rule.neighbour
+            ? matchingComponents(adjTank, adjVesselTank, rule.neighbour, ruleSet.tags, requirements)
+            : tankComponents(adjTank);
+
+          matched.forEach(component => neighbours.forEach(neighbour => {
+            // Cargoes matching both sides of a rule would otherwise be reported twice
+            const key = [rule.id, ...[`${vesselTank.id}:${component.chemical}`, `${adjTankId}:${neighbour.chemical}`].sort()].join('|');
+            if (seen.has(key)) return;
+            seen.add(key);
+            violations.push({
+              ruleId: rule.id,
+              description: rule.description,
+              severity: rule.severity,
+              tank1: vesselTank.id,
+              chemical1: component.chemical,
+              tank2: adjTankId,
+              chemical2: neighbour.chemical,
+              adjacencyType: type
+            });
+          }));
+        });
+    });
+  });
+  return violations;
+};
+
+// The rules file is kept as text so the stored copy is exactly what was loaded
+export interface StoredCompanyRules {
+  fileName: string;
+  text: string;
+}
+
+export interface LoadedCompanyRules {
+  ruleSet: CompanyRuleSet;
+  source: ReferenceSource;
+}
+
+export const loadCompanyRules = async ({ fileName, text }: StoredCompanyRules): Promise<LoadedCompanyRules> => ({
+  ruleSet: parseCompanyRules(text, fileName),
+  source: { file: 'companyRules', fileName, sha256: await sha256Hex(text) }
+});
+
+export const readStoredRules = (storage: PlanStorage | null = defaultStorage()): StoredCompanyRules | null => {
+  try {
+    const stored = JSON.parse(storage?.getItem(RULES_KEY) || 'null');
+    return stored && typeof stored.fileName === 'string' && typeof stored.text === 'string' ? stored : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+export const writeStoredRules = (rules: StoredCompanyRules | null, storage: PlanStorage | null = defaultStorage()) => {
+  try {
+    if (rules) storage?.setItem(RULES_KEY, JSON.stringify(rules));
+    else storage?.removeItem(RULES_KEY);
+  } catch (error) {
+    // The rules still apply for this session
+  }
+};
@@ -0,0 +1,109 @@
+import React from 'react';
+import { Building2, Upload, Trash2 } from 'lucide-react';
+import { loadCompanyRules, writeStoredRules } from './company_rules';
+import type { CargoCondition, CompanyRuleSet, LoadedCompanyRules } from './company_rules';
+import { ADJACENCY_TYPE_LABELS, TANK_COATING_LABELS } from './vessel_profile';
+
+interface CompanyRulesPanelProps {
+  rules: LoadedCompanyRules | null;
+  onChange: (rules: LoadedCompanyRules | null) => void;
+  onError: (message: string) => void;
+}
+
+const describeCondition = (condition: CargoCondition | null, ruleSet: CompanyRuleSet) => {
+  if (!condition) return 'any cargo';
+  const parts: string[] = [];
+  if (condition.chemicals) parts.push(condition.chemicals.join(' / '));
+  if (condition.groups) parts.push(`group ${condition.groups.join(', ')}`);
+  if (condition.tags) {
+    parts.push(condition.tags.map(tag => `${tag} (${(ruleSet.tags[tag] || []).length})`).join(' / '));
+  }
+  if (condition.heated !== undefined) parts.push(condition.heated ? 'heated' : 'not heated');
+  if (condition.tank?.shipType) parts.push(`in ship type ${condition.tank.shipType.join('/')} tank`);
+  if (condition.tank?.coating) parts.push(`in ${condition.tank.coating.map(coating => TANK_COATING_LABELS[coating]).join('/')} tank`);
+  if (condition.tank?.heatingCoils !== undefined) parts.push(condition.tank.heatingCoils ? 'in heated tank' : 'in unheated tank');
+  return parts.join(', ');
+};
+
+const CompanyRulesPanel = ({ rules, onChange, onError }: CompanyRulesPanelProps) => {
+  const handleRulesUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      const stored = { fileName: file.name, text: await file.text() };
+      onChange(await loadCompanyRules(stored));
+      writeStoredRules(stored);
+    } catch (error) {
+      onError(`Error loading company rules: ${(error as Error).message}`);
+    }
+    event.target.value = '';
+  };
+
+  const removeRules = () => {
+    if (!window.confirm('Stop applying the company rules?')) return;
+    writeStoredRules(null);
+    onChange(null);
+  };
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg">
+      <div className="flex items-center gap-2 mb-2">
+        <Building2 className="w-5 h-5" />
+        <h2 className="text-xl font-semibold">Company Rules</h2>
+      </div>
+      <p className="text-sm text-gray-600 mb-2">
+        Company policy on top of the regulatory chart. Breaches are listed separately and do not change the regulatory result.
+      </p>
+
+      <div className="flex gap-2 items-center mb-3">
+        <label className="flex items-center gap-2 px-4 py-2 bg-gray-200 rounded-md hover:bg-gray-300 cursor-pointer text-sm">
+          <Upload className="w-4 h-4" />
+          {rules ? 'Replace Rules File' : 'Load Rules File'}
+          <input type="file" accept=".json" onChange={handleRulesUpload} className="hidden" />
+        </label>
+        {rules && (
+          <>
+            <span className="text-sm text-gray-700">
+              {rules.ruleSet.name} ({rules.source.fileName}, {rules.ruleSet.rules.length} rules)
+            </span>
+            <button onClick={removeRules} className="text-gray-400 hover:text-red-600" title="Remove">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </>
+        )}
+      </div>
+
+      {rules && rules.ruleSet.rules.length > 0 && (
+        <table className="w-full text-sm bg-white border">
+          <thead className="bg-gray-100 text-left">
+            <tr>
+              <th className="p-2">Rule</th>
+              <th className="p-2">Severity</th>
+              <th className="p-2">Cargo</th>
+              <th className="p-2">Not next to</th>
+              <th className="p-2">Contact</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rules.ruleSet.rules.map(rule => (
+              <tr key={rule.id} className="border-t align-top">
+                <td className="p-2">
+                  <div className="font-medium">{rule.id}</div>
+                  <div className="text-xs text-gray-600">{rule.description}</div>
+                </td>
+                <td className={`p-2 ${rule.severity === 'error' ? 'text-red-700' : 'text-yellow-700'}`}>{rule.severity}</td>
+                <td className="p-2 text-xs">{describeCondition(rule.cargo, rules.ruleSet)}</td>
+                <td className="p-2 text-xs">
+                  {rule.type === 'buffer' ? 'any cargo (empty buffer tank)' : describeCondition(rule.neighbour, rules.ruleSet)}
+                </td>
+                <td className="p-2 text-xs">{rule.contact.map(type => ADJACENCY_TYPE_LABELS[type]).join(', ')}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default CompanyRulesPanel;
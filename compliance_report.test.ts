@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { buildCompatibilityChart, DEFAULT_ADJACENCY_POLICY, emptyReferenceData, toTank } from './cargo_compatibility_engine';
+import type { ReferenceData, Tank } from './cargo_compatibility_engine';
+import { buildComplianceReport, generateComplianceReport, reportStatus, verifyReport } from './compliance_report';
+import { createGridProfile } from './vessel_profile';
+
+const referenceData: ReferenceData = {
+  ...emptyReferenceData(),
+  chemicals: [
+    { 'Chemical name': 'Acetic acid', 'Group No.': 4 },
+    { 'Chemical name': 'Caustic soda', 'Group No.': 5 }
+  ],
+  chart: buildCompatibilityChart([
+    { 'REACTIVE GROUP': '4. Organic acids', '5': 'X' },
+    { 'REACTIVE GROUP': '5. Caustics', '4': 'X' }
+  ])
+};
+
+const vessel = createGridProfile(2, 1);
+
+const input = (tanks: Record<string, Tank>) => ({
+  planName: 'Voyage 12',
+  notes: '',
+  vessel,
+  tanks,
+  adjacencyPolicy: DEFAULT_ADJACENCY_POLICY,
+  chartNormalization: 'as loaded' as const,
+  referenceData,
+  cleaning: {},
+  referenceSources: [],
+  generatedAt: '2026-01-01T00:00:00.000Z'
+});
+
+describe('reportStatus', () => {
+  it('puts issues ahead of manual review', () => {
+    const problem = { tank1: '0-0', tank2: '0-1', chemical1: 'A', chemical2: 'B', compatibility: 'incompatible' as const, adjacencyType: 'bulkhead' as const };
+    const warning = { tank: '0-0', chemical: 'A', note: 'Depends on concentration' };
+    expect(reportStatus({ results: {}, problems: [problem], warnings: [warning] })).toBe('ISSUES FOUND');
+    expect(reportStatus({ results: {}, problems: [], warnings: [warning] })).toBe('MANUAL REVIEW REQUIRED');
+    expect(reportStatus(null, [], 1)).toBe('ISSUES FOUND');
+    expect(reportStatus({ results: {}, problems: [], warnings: [] })).toBe('APPROVED');
+  });
+
+  it('never approves a plan that was not analyzed', () => {
+    expect(reportStatus(null)).toBe('MANUAL REVIEW REQUIRED');
+  });
+});
+
+describe('buildComplianceReport', () => {
+  it('analyzes the tanks it reports on and reports each pair in contact once', () => {
+    const report = buildComplianceReport(input({ '0-0': toTank({ name: 'Acetic acid', group: 4 }), '0-1': toTank({ name: 'Caustic soda', group: 5 }) }));
+    expect(report.cargoManifest).toEqual([
+      expect.objectContaining({ tank: 'A1', chemical: 'Acetic acid', group: 4 }),
+      expect.objectContaining({ tank: 'A2', chemical: 'Caustic soda', group: 5 })
+    ]);
+    expect(report.pairs).toEqual([expect.objectContaining({ tank1: 'A1', tank2: 'A2', chemical1: 'Acetic acid', chemical2: 'Caustic soda', compatibility: 'incompatible' })]);
+    expect(report.summary).toMatchObject({ loadedTanks: 2, compatibilityIssues: 2, status: 'ISSUES FOUND' });
+  });
+
+  it('names the components that clash in a blend', () => {
+    const blend: Tank = {
+      chemical: 'Methanol 70% + Acetic acid 30%',
+      group: 20,
+      components: [{ chemical: 'Methanol', group: 20, proportion: 70 }, { chemical: 'Acetic acid', group: 4, proportion: 30 }]
+    };
+    const report = buildComplianceReport(input({ '0-0': blend, '0-1': toTank({ name: 'Caustic soda', group: 5 }) }));
+    expect(report.pairs.filter(pair => pair.tank1 !== pair.tank2)).toEqual([
+      expect.objectContaining({ tank1: 'A1', chemical1: 'Acetic acid', group1: 4, tank2: 'A2', chemical2: 'Caustic soda', group2: 5 })
+    ]);
+  });
+
+  it('reports a pair from the side the chart marks incompatible', () => {
+    const asLoaded = { ...referenceData, chart: buildCompatibilityChart([{ 'REACTIVE GROUP': '4. Organic acids', '5': 'X' }, { 'REACTIVE GROUP': '5. Caustics' }]) };
+    const tanks = { '0-0': toTank({ name: 'Caustic soda', group: 5 }), '0-1': toTank({ name: 'Acetic acid', group: 4 }) };
+    const report = buildComplianceReport({ ...input(tanks), referenceData: asLoaded });
+    expect(report.summary.compatibilityIssues).toBe(1);
+    expect(report.pairs).toEqual([expect.objectContaining({ tank1: 'A2', chemical1: 'Acetic acid', tank2: 'A1', chemical2: 'Caustic soda', compatibility: 'incompatible' })]);
+  });
+
+  it('approves compatible cargo', () => {
+    const report = buildComplianceReport(input({ '0-0': toTank({ name: 'Acetic acid', group: 4 }) }));
+    expect(report.summary.status).toBe('APPROVED');
+  });
+});
+
+describe('generateComplianceReport', () => {
+  it('seals the report to the plan it was built from', async () => {
+    const tanks = { '0-0': toTank({ name: 'Acetic acid', group: 4 }) };
+    const report = await generateComplianceReport(input(tanks));
+    expect(await verifyReport(report, { vessel, tanks })).toEqual({ contentIntact: true, matchesPlan: true });
+    expect(await verifyReport(report, { vessel, tanks: {} })).toEqual({ contentIntact: true, matchesPlan: false });
+    expect(await verifyReport({ ...report, summary: { ...report.summary, status: 'ISSUES FOUND' } }))
+      .toEqual({ contentIntact: false, matchesPlan: null });
+  });
+});
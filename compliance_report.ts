@@ -0,0 +1,444 @@
+// Compliance report: the structure behind the JSON and printable exports.
+// Headless so the same report can be produced outside the browser.
+import { analyze, CONTACT_TYPE_LABELS, findChemical, isIncompatible, isLoaded } from './cargo_compatibility_engine';
+import type {
+  AdjacencyPolicy,
+  AnalysisResult,
+  Compatibility,
+  Problem,
+  QuantityUnit,
+  ReactiveGroup,
+  ReferenceData,
+  Tank,
+  TankComponent
+} from './cargo_compatibility_engine';
+import { CARRIAGE_REQUIREMENT_LABELS } from './cargo_requirements';
+import type { CarriageFinding } from './cargo_requirements';
+import type { RuleSeverity, RuleViolation } from './company_rules';
+import { canonicalJson, sha256Hex } from './content_hash';
+import type { ChangeLogEntry } from './plan_history';
+import { symmetrizeChart } from './reference_data_audit';
+import type { ReferenceFileKey } from './reference_data_loader';
+import type { ReferenceEditionInfo } from './reference_library';
+import { CLEANING_LEVEL_LABELS } from './tank_cleaning';
+import type { CleaningAssessment, ResidueFinding } from './tank_cleaning';
+import { describeTank } from './tank_blends';
+import type { CargoTotal, FillStatus, QuantityAssessment } from './tank_quantities';
+import { findTankByLabel, tankLabel } from './vessel_profile';
+import type { VesselProfile } from './vessel_profile';
+
+export type ReportStatus = 'ISSUES FOUND' | 'MANUAL REVIEW REQUIRED' | 'APPROVED';
+
+export interface ReferenceSource {
+  file: ReferenceFileKey | 'bundle' | 'cargoRequirements' | 'companyRules';
+  fileName: string;
+  sha256: string;
+}
+
+export interface ReportInput {
+  planName: string;
+  notes: string;
+  vessel: VesselProfile;
+  tanks: Record<string, Tank>;
+  adjacencyPolicy: AdjacencyPolicy;
+  chartNormalization: 'symmetric' | 'as loaded';
+  // With the chart already normalized; the report analyzes exactly the tanks it seals
+  referenceData: ReferenceData;
+  cleaning: Record<string, CleaningAssessment>;
+  // Tank attributes against the cargo requirements file, when one is loaded
+  carriage?: CarriageFinding[];
+  // Company policy on top of the regulations, when a rules file is loaded
+  companyRules?: { name: string; violations: RuleViolation[] } | null;
+  // Fill of every tank with a nominated quantity, and cargo totals
+  quantities?: QuantityAssessment | null;
+  referenceSources: ReferenceSource[];
+  // Library edition the reference data came from, if any
+  referenceEdition?: ReferenceEditionInfo | null;
+  changeLog?: ChangeLogEntry[];
+  generatedAt?: string;
+}
+
+export interface ManifestEntry {
+  tank: string;
+  chemical: string;
+  group: ReactiveGroup | 'Unknown';
+  quantity?: number;
+  quantityUnit?: QuantityUnit;
+  density?: number;
+  components?: { chemical: string; group: ReactiveGroup | null; proportion?: number | null }[];
+}
+
+// One row per pair of cargoes in contact: neighbouring tanks (worst component
+// pair) or two components of the same tank
+export interface ReportPair {
+  tank1: string;
+  chemical1: string;
+  group1: ReactiveGroup | null;
+  tank2: string;
+  chemical2: string;
+  group2: ReactiveGroup | null;
+  contact: string;
+  compatibility: Compatibility;
+  exception: string | null;
+  footnote: string | null;
+  enforced: boolean;
+}
+
+export interface CleaningRequirement {
+  tank: string;
+  chemical: string;
+  cleaning: string;
+  findings: ResidueFinding[];
+}
+
+export interface ReportCarriageFinding {
+  tank: string;
+  chemical: string;
+  requirement: string;
+  severity: CarriageFinding['severity'];
+  message: string;
+}
+
+export interface ReportRuleViolation {
+  rule: string;
+  description: string;
+  severity: RuleSeverity;
+  tank1: string;
+  chemical1: string;
+  tank2: string;
+  chemical2: string;
+  contact: string;
+}
+
+export interface ReportTankQuantity {
+  tank: string;
+  cargo: string;
+  volume: number | null;
+  weight: number | null;
+  capacity: number | null;
+  fillPercent: number | null;
+  status: FillStatus;
+  message: string;
+}
+
+export interface ReportQuantities {
+  fillLimit: number;
+  tanks: ReportTankQuantity[];
+  cargoTotals: CargoTotal[];
+  totalVolume: number;
+  totalWeight: number;
+  totalCapacity: number;
+  // Some quantities could not be converted and are missing from the totals
+  incomplete: boolean;
+}
+
+export interface ReportIntegrity {
+  algorithm: 'SHA-256';
+  // Vessel and tank contents only; matches as long as the plan is unchanged
+  planHash: string;
+  // Everything in the report except this field
+  contentHash: string;
+}
+
+export interface ComplianceReport {
+  timestamp: string;
+  stowagePlan: { name: string; notes: string };
+  vesselConfiguration: VesselProfile;
+  adjacencyPolicy: AdjacencyPolicy;
+  chartNormalization: string;
+  referenceData: { sources: ReferenceSource[]; edition?: ReferenceEditionInfo | null };
+  cargoManifest: ManifestEntry[];
+  pairs: ReportPair[];
+  compatibilityResults: AnalysisResult;
+  cleaningRequirements: CleaningRequirement[];
+  carriageFindings: ReportCarriageFinding[];
+  // Kept apart from the regulatory results; does not change the status
+  companyPolicy: { ruleSet: string | null; violations: ReportRuleViolation[] };
+  quantities: ReportQuantities | null;
+  changeLog: ChangeLogEntry[];
+  summary: {
+    totalTanks: number;
+    loadedTanks: number;
+    compatibilityIssues: number;
+    manualReviewItems: number;
+    tanksRequiringCleaning: number;
+    carriageViolations: number;
+    overfilledTanks: number;
+    // m³ and t of all nominated cargo; null when no quantities are given
+    totalVolume: number | null;
+    totalWeight: number | null;
+    companyRuleViolations: number;
+    companyRuleWarnings: number;
+    status: ReportStatus;
+  };
+  integrity?: ReportIntegrity;
+}
+
+// A past report re-run against another edition of the reference data
+export interface ReportReverification {
+  edition: ReferenceEditionInfo | null;
+  previousStatus: ReportStatus;
+  status: ReportStatus;
+  verdictChanged: boolean;
+  resolved: string[];
+  introduced: string[];
+  // Cargoes whose reactive group differs in the new edition
+  regrouped: string[];
+  // Cargoes the new edition does not list; checked with the report's group
+  notFound: string[];
+  analysis: AnalysisResult;
+}
+
+export interface ReportVerification {
+  contentIntact: boolean;
+  // null when no plan was given to compare against
+  matchesPlan: boolean | null;
+}
+
+// A carriage requirement the tank cannot be checked against needs a person to
+// confirm it; an overfilled tank is an issue. Without an analysis nothing was
+// checked, so the plan is never approved.
+export const reportStatus = (
+  analysis: AnalysisResult | null,
+  carriage: Pick<CarriageFinding, 'severity'>[] = [],
+  overfilledTanks = 0
+): ReportStatus =>
+  (analysis?.problems?.length || 0) > 0 || carriage.some(finding => finding.severity === 'violation') || overfilledTanks > 0
+    ? 'ISSUES FOUND'
+    : !analysis || analysis.warnings.length > 0 || carriage.length > 0 ? 'MANUAL REVIEW REQUIRED' : 'APPROVED';
+
+const reportPairs = (vessel: VesselProfile, analysis: AnalysisResult): ReportPair[] => {
+  const pairs: ReportPair[] = [];
+  const seen = new Map<string, number>();
+  Object.entries(analysis.results).forEach(([tankId, result]) => {
+    result.intraTank.forEach(pair => pairs.push({
+      tank1: tankLabel(vessel, tankId),
+      chemical1: pair.chemical1,
+      group1: pair.group1,
+      tank2: tankLabel(vessel, tankId),
+      chemical2: pair.chemical2,
+      group2: pair.group2,
+      contact: CONTACT_TYPE_LABELS.same_tank,
+      compatibility: pair.compatibility,
+      exception: pair.exception,
+      footnote: pair.footnote ? pair.footnote.text : null,
+      enforced: true
+    }));
+
+    // Each neighbour pair is analyzed from both sides; report it once, from
+    // the side with the worse verdict (an as-loaded chart may differ by side)
+    Object.entries(result.adjacentCompatibility).forEach(([adjTankId, pair]) => {
+      const key = [tankId, adjTankId].sort().join('|');
+      const index = seen.get(key);
+      if (index !== undefined && (isIncompatible(pairs[index].compatibility) || !isIncompatible(pair.compatibility))) return;
+      const row: ReportPair = {
+        tank1: tankLabel(vessel, tankId),
+        chemical1: pair.ownChemical,
+        group1: pair.ownGroup,
+        tank2: tankLabel(vessel, adjTankId),
+        chemical2: pair.chemical,
+        group2: pair.group,
+        contact: CONTACT_TYPE_LABELS[pair.adjacencyType],
+        compatibility: pair.compatibility,
+        exception: pair.exception,
+        footnote: pair.footnote ? pair.footnote.text : null,
+        enforced: pair.enforced
+      };
+      if (index !== undefined) pairs[index] = row;
+      else seen.set(key, pairs.push(row) - 1);
+    });
+  });
+  return pairs;
+};
+
+export const buildComplianceReport = (input: ReportInput): ComplianceReport => {
+  const { vessel, tanks, cleaning } = input;
+  const compatibilityResults = analyze({ vessel, tanks }, input.referenceData, { adjacencyPolicy: input.adjacencyPolicy });
+  const carriage = input.carriage || [];
+  const companyViolations = input.companyRules?.violations || [];
+  const quantities = input.quantities || null;
+  const hasQuantities = quantities !== null && quantities.tanks.length > 0;
+
+  return {
+    timestamp: input.generatedAt || new Date().toISOString(),
+    stowagePlan: { name: input.planName, notes: input.notes },
+    vesselConfiguration: vessel,
+    adjacencyPolicy: input.adjacencyPolicy,
+    chartNormalization: input.chartNormalization,
+    referenceData: { sources: input.referenceSources, edition: input.referenceEdition || null },
+    cargoManifest: Object.entries(tanks)
+      .filter(([_, tank]) => isLoaded(tank))
+      .map(([tankId, tank]) => ({
+        tank: tankLabel(vessel, tankId),
+        chemical: describeTank(tank),
+        group: tank.group !== null ? tank.group : 'Unknown',
+        ...(typeof tank.quantity === 'number' ? { quantity: tank.quantity, quantityUnit: tank.quantityUnit || 'm3' } : {}),
+        ...(typeof tank.density === 'number' ? { density: tank.density } : {}),
+        ...(tank.components && tank.components.length > 1
+          ? { components: tank.components.map(({ chemical, group, proportion }) => ({ chemical, group, proportion })) }
+          : {})
+      })),
+    pairs: reportPairs(vessel, compatibilityResults),
+    compatibilityResults,
+    cleaningRequirements: Object.values(cleaning)
+      .filter(assessment => assessment.findings.length > 0)
+      .map(assessment => ({
+        tank: tankLabel(vessel, assessment.tankId),
+        chemical: assessment.chemical,
+        cleaning: CLEANING_LEVEL_LABELS[assessment.level],
+        findings: assessment.findings
+      })),
+    carriageFindings: carriage.map(finding => ({
+      tank: tankLabel(vessel, finding.tankId),
+      chemical: finding.chemical,
+      requirement: CARRIAGE_REQUIREMENT_LABELS[finding.requirement],
+      severity: finding.severity,
+      message: finding.message
+    })),
+    companyPolicy: {
+      ruleSet: input.companyRules?.name || null,
+      violations: companyViolations.map(violation => ({
+        rule: violation.ruleId,
+        description: violation.description,
+        severity: violation.severity,
+        tank1: tankLabel(vessel, violation.tank1),
+        chemical1: violation.chemical1,
+        tank2: tankLabel(vessel, violation.tank2),
+        chemical2: violation.chemical2,
+        contact: CONTACT_TYPE_LABELS[violation.adjacencyType]
+      }))
+    },
+    quantities: quantities && {
+      fillLimit: quantities.fillLimit,
+      tanks: quantities.tanks.map(({ tankId, ...quantity }) => ({ tank: tankLabel(vessel, tankId), ...quantity })),
+      cargoTotals: quantities.cargoTotals,
+      totalVolume: quantities.totalVolume,
+      totalWeight: quantities.totalWeight,
+      totalCapacity: quantities.totalCapacity,
+      incomplete: quantities.incomplete
+    },
+    changeLog: input.changeLog || [],
+    summary: {
+      totalTanks: Object.keys(tanks).length,
+      loadedTanks: Object.values(tanks).filter(tank => isLoaded(tank)).length,
+      compatibilityIssues: compatibilityResults.problems.length,
+      manualReviewItems: compatibilityResults.warnings.length + carriage.filter(finding => finding.severity === 'unverified').length,
+      tanksRequiringCleaning: Object.values(cleaning).filter(assessment => assessment.level !== 'none').length,
+      carriageViolations: carriage.filter(finding => finding.severity === 'violation').length,
+      overfilledTanks: quantities?.overfilled || 0,
+      totalVolume: hasQuantities ? quantities.totalVolume : null,
+      totalWeight: hasQuantities ? quantities.totalWeight : null,
+      companyRuleViolations: companyViolations.filter(violation => violation.severity === 'error').length,
+      companyRuleWarnings: companyViolations.filter(violation => violation.severity === 'warning').length,
+      status: reportStatus(compatibilityResults, carriage, quantities?.overfilled || 0)
+    }
+  };
+};
+
+// What the cargo plan is, without display-only data such as footnote text
+export const hashPlan = (vessel: VesselProfile, tanks: Record<string, Tank>) =>
+  sha256Hex(canonicalJson({
+    vessel: { name: vessel.name, tanks: vessel.tanks, adjacency: vessel.adjacency },
+    tanks: Object.fromEntries(Object.entries(tanks).map(([tankId, tank]) => [tankId, {
+      chemical: tank.chemical || '',
+      group: tank.group ?? null,
+      quantity: tank.quantity ?? null,
+      // Left out when not given so hashes of earlier plans still match
+      quantityUnit: tank.quantityUnit === 't' ? 't' : undefined,
+      density: tank.density ?? undefined,
+      components: (tank.components || []).map(({ chemical, group, proportion }) => ({ chemical, group, proportion: proportion ?? null })),
+      previousCargoes: (tank.previousCargoes || []).map(({ chemical, group }) => ({ chemical, group }))
+    }]))
+  }));
+
+const hashContent = (report: ComplianceReport, planHash: string) =>
+  sha256Hex(canonicalJson({ ...report, integrity: { algorithm: 'SHA-256', planHash } }));
+
+export const sealReport = async (report: ComplianceReport, vessel: VesselProfile, tanks: Record<string, Tank>): Promise<ComplianceReport> => {
+  const planHash = await hashPlan(vessel, tanks);
+  const { integrity, ...content } = report;
+  return {
+    ...content,
+    integrity: { algorithm: 'SHA-256', planHash, contentHash: await hashContent(content, planHash) }
+  };
+};
+
+export const generateComplianceReport = (input: ReportInput) =>
+  sealReport(buildComplianceReport(input), input.vessel, input.tanks);
+
+// Recompute the hashes of a saved report; with a plan, also check the report
+// was produced from it
+export const verifyReport = async (
+  report: ComplianceReport,
+  plan?: { vessel: VesselProfile; tanks: Record<string, Tank> }
+): Promise<ReportVerification> => {
+  if (!report.integrity) {
+    throw new Error('Report has no integrity section; it was not sealed.');
+  }
+  const { integrity, ...content } = report;
+  const contentIntact = await hashContent(content, integrity.planHash) === integrity.contentHash;
+  const matchesPlan = plan ? await hashPlan(plan.vessel, plan.tanks) === integrity.planHash : null;
+  return { contentIntact, matchesPlan };
+};
+
+const conflictText = (vessel: VesselProfile, problem: Problem) =>
+  [`${tankLabel(vessel, problem.tank1)} ${problem.chemical1}`, `${tankLabel(vessel, problem.tank2)} ${problem.chemical2}`]
+    .sort().join(' ↔ ') + ` (${problem.compatibility.replace(/_/g, ' ')})`;
+
+// Rebuild the report's tanks from its manifest with groups from the given data
+export const reverifyReport = (
+  report: ComplianceReport,
+  referenceData: ReferenceData,
+  edition: ReferenceEditionInfo | null = null
+): ReportReverification => {
+  const vessel = report.vesselConfiguration;
+  const regrouped: string[] = [];
+  const notFound: string[] = [];
+  const tanks: Record<string, Tank> = {};
+
+  report.cargoManifest.forEach(entry => {
+    const vesselTank = findTankByLabel(vessel, entry.tank);
+    if (!vesselTank) {
+      throw new Error(`Report manifest names tank '${entry.tank}', which is not in its vessel configuration.`);
+    }
+    const listed = entry.components || [{ chemical: entry.chemical, group: entry.group === 'Unknown' ? null : entry.group }];
+    const components: TankComponent[] = listed.map(component => {
+      const chemical = findChemical(component.chemical, referenceData.chemicals);
+      if (!chemical) {
+        notFound.push(component.chemical);
+        return { ...component };
+      }
+      if (chemical.group !== component.group) {
+        regrouped.push(`${component.chemical}: group ${component.group ?? '?'} → ${chemical.group ?? '?'}`);
+      }
+      return { ...component, group: chemical.group, chemicalData: chemical };
+    });
+    const main = [...components].sort((a, b) => (b.proportion || 0) - (a.proportion || 0))[0];
+    tanks[vesselTank.id] = {
+      chemical: main.chemical,
+      group: main.group,
+      ...(components.length > 1 ? { components } : { chemicalData: main.chemicalData }),
+      ...(typeof entry.quantity === 'number' ? { quantity: entry.quantity, quantityUnit: entry.quantityUnit } : {}),
+      ...(typeof entry.density === 'number' ? { density: entry.density } : {})
+    };
+  });
+
+  const chart = report.chartNormalization === 'symmetric' ? symmetrizeChart(referenceData.chart) : referenceData.chart;
+  const analysis = analyze({ vessel, tanks }, { ...referenceData, chart }, { adjacencyPolicy: report.adjacencyPolicy });
+  const before = new Set(report.compatibilityResults.problems.map(problem => conflictText(vessel, problem)));
+  const after = new Set(analysis.problems.map(problem => conflictText(vessel, problem)));
+  // Tank suitability and fill do not depend on the reference data; carry them over
+  const status = reportStatus(analysis, report.carriageFindings || [], report.summary.overfilledTanks || 0);
+
+  return {
+    edition,
+    previousStatus: report.summary.status,
+    status,
+    verdictChanged: status !== report.summary.status,
+    resolved: Array.from(before).filter(conflict => !after.has(conflict)),
+    introduced: Array.from(after).filter(conflict => !before.has(conflict)),
+    regrouped: Array.from(new Set(regrouped)),
+    notFound: Array.from(new Set(notFound)),
+    analysis
+  };
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { analyze, buildCompatibilityChart, emptyReferenceData } from './cargo_compatibility_engine';
+import type { ReferenceData, Tank } from './cargo_compatibility_engine';
+import { suggestResolutions } from './conflict_resolution';
+import { createGridProfile } from './vessel_profile';
+
+const referenceData: ReferenceData = {
+  ...emptyReferenceData(),
+  chemicals: [
+    { 'Chemical name': 'Acetic acid', 'Group No.': 4 },
+    { 'Chemical name': 'Caustic soda', 'Group No.': 5 },
+    { 'Chemical name': 'Methanol', 'Group No.': 20 }
+  ],
+  chart: buildCompatibilityChart([
+    { 'REACTIVE GROUP': '4. Organic acids', '5': 'X' },
+    { 'REACTIVE GROUP': '5. Caustics', '4': 'X' },
+    { 'REACTIVE GROUP': '20. Alcohols' }
+  ])
+};
+
+const acid: Tank = { chemical: 'Acetic acid', group: 4 };
+const caustic: Tank = { chemical: 'Caustic soda', group: 5 };
+const methanol: Tank = { chemical: 'Methanol', group: 20 };
+
+const resolve = (columns: number, tanks: Record<string, Tank>) => {
+  const vessel = createGridProfile(columns, 1);
+  const [problem] = analyze({ vessel, tanks }, referenceData).problems;
+  return suggestResolutions(vessel, tanks, problem, referenceData);
+};
+
+describe('suggestResolutions', () => {
+  it('keeps only candidates that clear the conflict, moves first', () => {
+    const suggestions = resolve(3, { '0-0': acid, '0-1': caustic });
+    expect(suggestions.map(suggestion => suggestion.description)).toEqual([
+      'Move Caustic soda from Tank A2 to empty Tank A3',
+      'Leave Tank A1 empty as a buffer (Acetic acid is shut out of this plan)',
+      'Leave Tank A2 empty as a buffer (Caustic soda is shut out of this plan)'
+    ]);
+    expect(suggestions[0].tanks['0-2']).toMatchObject(caustic);
+    expect(suggestions[0].problems).toEqual([]);
+  });
+
+  it('suggests swapping with a compatible cargo', () => {
+    const suggestions = resolve(3, { '0-0': acid, '0-1': caustic, '0-2': methanol });
+    expect(suggestions[0]).toMatchObject({ kind: 'swap', description: 'Swap Caustic soda in Tank A2 with Methanol in Tank A3', problems: [] });
+    expect(suggestions.map(suggestion => suggestion.kind)).toEqual(['swap', 'buffer', 'buffer']);
+  });
+
+  it('lists the cleaning the new tank needs', () => {
+    const dirty: Tank = { chemical: '', group: null, previousCargoes: [{ chemical: 'Acetic acid', group: 4 }] };
+    const [move] = resolve(3, { '0-0': acid, '0-1': caustic, '0-2': dirty });
+    expect(move.kind).toBe('move');
+    expect(move.tanks['0-2'].previousCargoes).toEqual(dirty.previousCargoes);
+    expect(move.cleaning).toHaveLength(1);
+  });
+
+  it('has nothing to offer for components of one tank', () => {
+    const vessel = createGridProfile(2, 1);
+    const problem = { tank1: '0-0', tank2: '0-0', chemical1: 'Acetic acid', chemical2: 'Caustic soda', compatibility: 'incompatible' as const, adjacencyType: 'bulkhead' as const };
+    expect(suggestResolutions(vessel, {}, problem, referenceData)).toEqual([]);
+  });
+});
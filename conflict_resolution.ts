@@ -0,0 +1,107 @@
+// Ranked fixes for a single conflict: move a cargo to an empty tank, swap it
+// with another tank, or leave one of the tanks empty as a buffer. Every
+// candidate is re-checked with analyze() and only kept if it removes the
+// conflict without introducing a new one.
+import { analyze, isLoaded } from './cargo_compatibility_engine';
+import type { AnalysisOptions, Problem, ReferenceData, Tank } from './cargo_compatibility_engine';
+import { emptyTank } from './stowage_plan_storage';
+import { describeTank } from './tank_blends';
+import { assessTankCleaning, CLEANING_LEVEL_LABELS } from './tank_cleaning';
+import { canHoldCargo, tankLabel } from './vessel_profile';
+import type { VesselProfile } from './vessel_profile';
+
+export type ResolutionKind = 'move' | 'swap' | 'buffer';
+
+export interface ResolutionSuggestion {
+  kind: ResolutionKind;
+  description: string;
+  // The whole plan after applying the suggestion
+  tanks: Record<string, Tank>;
+  // Conflicts left elsewhere in the plan after applying it
+  problems: Problem[];
+  // Tanks that must be cleaned before taking their new cargo
+  cleaning: string[];
+}
+
+// Moves first, then swaps; a buffer shuts a cargo out and is the last resort
+const KIND_RANK: Record<ResolutionKind, number> = { move: 0, swap: 1, buffer: 2 };
+
+const DEFAULT_LIMIT = 5;
+
+const problemKey = (problem: Problem) =>
+  [`${problem.tank1}:${problem.chemical1}`, `${problem.tank2}:${problem.chemical2}`].sort().join('|');
+
+// The cargo goes, the tank's own history stays
+const withCargo = (tank: Tank | undefined, cargo: Tank | undefined): Tank => {
+  const { previousCargoes, ...contents } = isLoaded(cargo) ? cargo : emptyTank();
+  return { ...contents, previousCargoes: tank?.previousCargoes };
+};
+
+export const suggestResolutions = (
+  vessel: VesselProfile,
+  tanks: Record<string, Tank>,
+  problem: Problem,
+  referenceData: ReferenceData,
+  options: AnalysisOptions & { limit?: number } = {}
+): ResolutionSuggestion[] => {
+  // Components of one tank cannot be separated by moving the tank
+  if (problem.tank1 === problem.tank2) return [];
+
+  const before = new Set(analyze({ vessel, tanks }, referenceData, options).problems.map(problemKey));
+  const cargoTanks = vessel.tanks.filter(canHoldCargo).map(tank => tank.id);
+  const label = (tankId: string) => `Tank ${tankLabel(vessel, tankId)}`;
+  const candidates: { kind: ResolutionKind; description: string; tanks: Record<string, Tank>; changed: string[] }[] = [];
+
+  [problem.tank1, problem.tank2].forEach(from => {
+    const cargo = tanks[from];
+    if (!isLoaded(cargo)) return;
+
+    cargoTanks.filter(to => to !== from).forEach(to => {
+      const other = tanks[to];
+      if (!isLoaded(other)) {
+        candidates.push({
+          kind: 'move',
+          description: `Move ${describeTank(cargo)} from ${label(from)} to empty ${label(to)}`,
+          tanks: { ...tanks, [from]: withCargo(cargo, undefined), [to]: withCargo(other, cargo) },
+          changed: [to]
+        });
+      } else if (to !== problem.tank1 && to !== problem.tank2) {
+        candidates.push({
+          kind: 'swap',
+          description: `Swap ${describeTank(cargo)} in ${label(from)} with ${describeTank(other)} in ${label(to)}`,
+          tanks: { ...tanks, [from]: withCargo(cargo, other), [to]: withCargo(other, cargo) },
+          changed: [from, to]
+        });
+      }
+    });
+
+    candidates.push({
+      kind: 'buffer',
+      description: `Leave ${label(from)} empty as a buffer (${describeTank(cargo)} is shut out of this plan)`,
+      tanks: { ...tanks, [from]: withCargo(cargo, undefined) },
+      changed: []
+    });
+  });
+
+  const suggestions = candidates
+    .map(candidate => {
+      const { problems } = analyze({ vessel, tanks: candidate.tanks }, referenceData, options);
+      const cleaning = candidate.changed.flatMap(tankId => {
+        const assessment = assessTankCleaning(tankId, candidate.tanks[tankId], referenceData);
+        return assessment && assessment.level !== 'none' ? [`${label(tankId)}: ${CLEANING_LEVEL_LABELS[assessment.level]}`] : [];
+      });
+      return { kind: candidate.kind, description: candidate.description, tanks: candidate.tanks, problems, cleaning };
+    })
+    .filter(suggestion => {
+      const after = suggestion.problems.map(problemKey);
+      return !after.includes(problemKey(problem)) && after.every(key => before.has(key));
+    });
+
+  return suggestions
+    .sort((a, b) =>
+      a.problems.length - b.problems.length ||
+      KIND_RANK[a.kind] - KIND_RANK[b.kind] ||
+      a.cleaning.length - b.cleaning.length
+    )
+    .slice(0, options.limit || DEFAULT_LIMIT);
+};
@@ -0,0 +1,68 @@
+import React, { useMemo } from 'react';
+import { ArrowRightLeft, MoveRight, Square } from 'lucide-react';
+import type { AdjacencyPolicy, Problem, ReferenceData, Tank } from './cargo_compatibility_engine';
+import { suggestResolutions } from './conflict_resolution';
+import type { ResolutionKind } from './conflict_resolution';
+import type { VesselProfile } from './vessel_profile';
+
+interface ConflictResolutionPanelProps {
+  vessel: VesselProfile;
+  tanks: Record<string, Tank>;
+  problem: Problem;
+  referenceData: ReferenceData;
+  adjacencyPolicy: AdjacencyPolicy;
+  onApply: (tanks: Record<string, Tank>) => void;
+}
+
+const KIND_ICONS: Record<ResolutionKind, React.ReactNode> = {
+  move: <MoveRight className="w-4 h-4 text-blue-600" />,
+  swap: <ArrowRightLeft className="w-4 h-4 text-blue-600" />,
+  buffer: <Square className="w-4 h-4 text-gray-500" />
+};
+
+const ConflictResolutionPanel = ({ vessel, tanks, problem, referenceData, adjacencyPolicy, onApply }: ConflictResolutionPanelProps) => {
+  const suggestions = useMemo(
+    () => suggestResolutions(vessel, tanks, problem, referenceData, { adjacencyPolicy }),
+    [vessel, tanks, problem, referenceData, adjacencyPolicy]
+  );
+
+  if (problem.tank1 === problem.tank2) {
+    return (
+      <p className="text-xs text-gray-600 mt-2">
+        The cargoes are commingled in one tank; moving the tank cannot separate them. Load them in separate tanks instead.
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-2 space-y-1" onClick={(e) => e.stopPropagation()}>
+      {suggestions.length === 0 ? (
+        <p className="text-xs text-gray-600">No single move, swap or buffer resolves this conflict without creating another.</p>
+      ) : (
+        suggestions.map((suggestion, index) => (
+          <div key={index} className="flex items-center gap-2 p-2 bg-gray-50 rounded border text-sm">
+            <span className="text-xs text-gray-400 w-4">{index + 1}.</span>
+            {KIND_ICONS[suggestion.kind]}
+            <div className="flex-1">
+              <div>{suggestion.description}</div>
+              <div className="text-xs text-gray-500">
+                {suggestion.problems.length === 0
+                  ? 'Plan has no conflicts afterwards.'
+                  : `${suggestion.problems.length} other conflict(s) remain.`}
+                {suggestion.cleaning.length > 0 && ` Cleaning: ${suggestion.cleaning.join(', ')}.`}
+              </div>
+            </div>
+            <button
+              onClick={() => onApply(suggestion.tanks)}
+              className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-xs"
+            >
+              Apply
+            </button>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default ConflictResolutionPanel;
@@ -0,0 +1,23 @@
+// SHA-256 hashes for reference files, plans and reports. Uses Web Crypto,
+// which both browsers and Node provide as globalThis.crypto.
+
+// JSON with object keys sorted, so equal content always hashes the same
+export const canonicalJson = (value: any): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+export const sha256Hex = async (content: string | ArrayBuffer): Promise<string> => {
+  const data = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
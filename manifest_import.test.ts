@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { applyManifest, chooseManifestCandidate, detectManifestColumns, previewManifest } from './manifest_import';
+import { readReferenceFile } from './reference_data_loader';
+import { createGridProfile, updateTank } from './vessel_profile';
+
+const chemicals = [
+  { 'Chemical name': 'Methanol', 'Group No.': 20, 'UN': '1230' },
+  { 'Chemical name': 'Ethanol', 'Group No.': 20 },
+  { 'Chemical name': 'Acetic acid', 'Group No.': 4 },
+  { 'Chemical name': 'Ammonium nitrate solution', 'Group No.': 0 },
+  { 'Chemical name': 'Ammonium nitrate solution', 'Group No.': 1 }
+];
+
+// A1 to A4, with A4 a cofferdam
+const vessel = updateTank(createGridProfile(4, 1), '0-3', { kind: 'cofferdam' });
+
+const preview = (csv: string) => previewManifest(readReferenceFile('manifest.csv', csv), vessel, chemicals);
+
+describe('detectManifestColumns', () => {
+  it('matches header names ignoring case and spacing', () => {
+    expect(detectManifestColumns(['tank  no.', 'Product', 'UN No.', 'QTY'])).toEqual({ tank: 'tank  no.', cargo: 'Product', un: 'UN No.', quantity: 'QTY', quantityUnit: 'm3', density: null });
+  });
+
+  it('reads the unit from the quantity header', () => {
+    expect(detectManifestColumns(['Tank', 'Cargo', 'Tonnes', 'SG'])).toMatchObject({ quantity: 'Tonnes', quantityUnit: 't', density: 'SG' });
+  });
+
+  it('needs a tank and a cargo column', () => {
+    expect(() => detectManifestColumns(['Cargo'])).toThrow('No tank column found.');
+    expect(() => detectManifestColumns(['Tank', 'Quantity'])).toThrow('No cargo column found.');
+  });
+});
+
+describe('previewManifest', () => {
+  it('matches each row to a tank and a chemical', () => {
+    const { rows } = preview('Tank,Cargo,UN,Quantity\nA1,Methanol,,"1,200.5"\nA2,,1230,\nA3,Methanol 60% + Ethanol 40%,,300\n,,,\n');
+    expect(rows.map(row => [row.row, row.tankId, row.status, row.quantity, row.cargo?.chemical])).toEqual([
+      [2, '0-0', 'matched', 1200.5, 'Methanol'],
+      [3, '0-1', 'matched', null, 'Methanol'],
+      [4, '0-2', 'matched', 300, 'Methanol']
+    ]);
+    expect(rows[2].cargo?.components).toHaveLength(2);
+  });
+
+  it('explains rows it cannot match', () => {
+    const { rows } = preview('Tank,Cargo\nA4,Methanol\nA9,Methanol\nA1,Unobtainium\nA2,Ammonium nitrate solution\nA2,Ethanol\nA3,Methanol + Unobtainium');
+    expect(rows.map(row => [row.tankText, row.status])).toEqual([
+      ['A4', 'unknown_tank'],
+      ['A9', 'unknown_tank'],
+      ['A1', 'not_found'],
+      ['A2', 'ambiguous'],
+      ['A2', 'duplicate_tank'],
+      ['A3', 'not_found']
+    ]);
+    expect(rows[0].message).toBe(`Tank 'A4' is not a cargo tank of ${vessel.name}.`);
+    expect(rows[3].candidates).toHaveLength(2);
+    expect(rows[4].message).toBe('Tank A2 is already assigned in row 5.');
+  });
+});
+
+describe('chooseManifestCandidate and applyManifest', () => {
+  it('applies matched rows only and keeps the history of each tank', () => {
+    const manifest = preview('Tank,Cargo,Quantity\nA1,Ammonium nitrate solution,500\nA2,Unobtainium,100');
+    const chosen = chooseManifestCandidate(manifest, 2, manifest.rows[0].candidates[1].chemical);
+    const history = [{ chemical: 'Acetic acid', group: 4 }];
+    const tanks = applyManifest({ '0-0': { chemical: '', group: null, previousCargoes: history }, '0-2': { chemical: 'Ethanol', group: 20 } }, chosen);
+    expect(tanks['0-0']).toMatchObject({ chemical: 'Ammonium nitrate solution', group: 1, quantity: 500, quantityUnit: 'm3', density: null, previousCargoes: history });
+    expect(tanks['0-1']).toBeUndefined();
+    expect(tanks['0-2'].chemical).toBe('Ethanol');
+  });
+});
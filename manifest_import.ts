@@ -0,0 +1,172 @@
+// Cargo manifest import: spreadsheet rows of tank, cargo (name or UN number),
+// quantity and density, matched onto the vessel's tanks with the same lookup
+// used for typed entries. Nothing is applied until the preview has been reviewed.
+import type { Chemical, ChemicalIndexRow, QuantityUnit, Tank } from './cargo_compatibility_engine';
+import { toTank } from './cargo_compatibility_engine';
+import { resolveChemical } from './chemical_lookup';
+import type { ChemicalMatch } from './chemical_lookup';
+import { sourceRowNumber } from './reference_data_loader';
+import type { ParsedReferenceFile, ReferenceRow } from './reference_data_loader';
+import { isBlendText, resolveBlend } from './tank_blends';
+import { canHoldCargo, findTank, findTankByLabel } from './vessel_profile';
+import type { VesselProfile } from './vessel_profile';
+
+export type ManifestRowStatus = 'matched' | 'ambiguous' | 'not_found' | 'unknown_tank' | 'duplicate_tank' | 'empty';
+
+export interface ManifestRow {
+  row: number;
+  tankText: string;
+  tankId: string | null;
+  cargoText: string;
+  quantity: number | null;
+  density: number | null;
+  status: ManifestRowStatus;
+  // Set when status is 'matched'
+  cargo: Tank | null;
+  candidates: ChemicalMatch[];
+  message: string;
+}
+
+export interface ManifestColumns {
+  tank: string;
+  cargo: string | null;
+  un: string | null;
+  quantity: string | null;
+  // Taken from the quantity column's header
+  quantityUnit: QuantityUnit;
+  density: string | null;
+}
+
+export interface ManifestPreview {
+  fileName: string;
+  columns: ManifestColumns;
+  rows: ManifestRow[];
+}
+
+const TANK_COLUMNS = ['Tank', 'Tank No.', 'Tank No', 'Tank label', 'Tank ID'];
+const CARGO_COLUMNS = ['Cargo', 'Cargo name', 'Chemical', 'Chemical name', 'Product', 'Grade'];
+const UN_COLUMNS = ['UN Number', 'UN No.', 'UN No', 'UN'];
+const QUANTITY_COLUMNS = ['Quantity', 'Qty', 'Quantity (m3)', 'Quantity (t)', 'Volume', 'Tonnes', 'Metric tons'];
+const TONNE_COLUMNS = ['Quantity (t)', 'Tonnes', 'Metric tons'];
+const DENSITY_COLUMNS = ['Density', 'Density (t/m3)', 'Density (kg/l)', 'SG', 'Specific gravity'];
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Header names vary between charterers; match them ignoring case and spacing
+const findColumn = (headers: string[], candidates: string[]) => {
+  const wanted = candidates.map(normalize);
+  return headers.find(header => wanted.includes(normalize(header))) || null;
+};
+
+const cellText = (row: ReferenceRow, column: string | null) =>
+  column && row[column] !== undefined && row[column] !== null ? row[column].toString().trim() : '';
+
+const parseQuantity = (value: string) => {
+  if (value === '') return null;
+  const quantity = parseFloat(value.replace(/,/g, ''));
+  return isNaN(quantity) ? null : quantity;
+};
+
+export const detectManifestColumns = (headers: string[]): ManifestColumns => {
+  const tank = findColumn(headers, TANK_COLUMNS);
+  const cargo = findColumn(headers, CARGO_COLUMNS);
+  const un = findColumn(headers, UN_COLUMNS);
+  if (!tank) {
+    throw new Error(`No tank column found. Expected one of: ${TANK_COLUMNS.join(', ')}.`);
+  }
+  if (!cargo && !un) {
+    throw new Error(`No cargo column found. Expected one of: ${[...CARGO_COLUMNS, ...UN_COLUMNS].join(', ')}.`);
+  }
+  const quantity = findColumn(headers, QUANTITY_COLUMNS);
+  const quantityUnit = quantity && TONNE_COLUMNS.map(normalize).includes(normalize(quantity)) ? 't' : 'm3';
+  return { tank, cargo, un, quantity, quantityUnit, density: findColumn(headers, DENSITY_COLUMNS) };
+};
+
+export const previewManifest = (
+  file: ParsedReferenceFile,
+  vessel: VesselProfile,
+  chemicals: ChemicalIndexRow[]
+): ManifestPreview => {
+  const columns = detectManifestColumns(file.headers);
+  const claimed = new Map<string, number>();
+
+  const rows = file.rows.map((row, index): ManifestRow => {
+    const tankText = cellText(row, columns.tank);
+    const name = cellText(row, columns.cargo);
+    const un = cellText(row, columns.un);
+    const base = {
+      row: sourceRowNumber(row, index),
+      tankText,
+      tankId: null,
+      cargoText: name || un,
+      quantity: parseQuantity(cellText(row, columns.quantity)),
+      density: parseQuantity(cellText(row, columns.density)),
+      cargo: null,
+      candidates: []
+    };
+
+    if (!tankText && !name && !un) {
+      return { ...base, status: 'empty', message: 'Blank row.' };
+    }
+    const vesselTank = findTankByLabel(vessel, tankText) || findTank(vessel, tankText);
+    if (!vesselTank || !canHoldCargo(vesselTank)) {
+      return { ...base, status: 'unknown_tank', message: `Tank '${tankText}' is not a cargo tank of ${vessel.name}.` };
+    }
+    const located = { ...base, tankId: vesselTank.id };
+    if (claimed.has(vesselTank.id)) {
+      return { ...located, status: 'duplicate_tank', message: `Tank ${vesselTank.label} is already assigned in row ${claimed.get(vesselTank.id)}.` };
+    }
+    claimed.set(vesselTank.id, base.row);
+
+    if (name && isBlendText(name)) {
+      try {
+        return { ...located, status: 'matched', cargo: resolveBlend(name, chemicals), message: 'Blend' };
+      } catch (error) {
+        return { ...located, status: 'not_found', message: (error as Error).message };
+      }
+    }
+
+    // The name is tried first; a UN number column backs it up
+    const lookups = [name, un].filter(text => text !== '').map(text => resolveChemical(text, chemicals));
+    const found = lookups.find(lookup => lookup.status === 'found');
+    if (found && found.status === 'found') {
+      return { ...located, status: 'matched', cargo: toTank(found.chemical), message: found.chemical.name };
+    }
+    const ambiguous = lookups.find(lookup => lookup.status === 'ambiguous');
+    if (ambiguous && ambiguous.status === 'ambiguous') {
+      return {
+        ...located,
+        status: 'ambiguous',
+        candidates: ambiguous.candidates,
+        message: `'${base.cargoText}' matches ${ambiguous.candidates.length} chemicals; choose one.`
+      };
+    }
+    return { ...located, status: 'not_found', message: `'${base.cargoText}' not found in approved cargo index.` };
+  });
+
+  return { fileName: file.fileName, columns, rows: rows.filter(row => row.status !== 'empty') };
+};
+
+// Pick a candidate for an ambiguous row
+export const chooseManifestCandidate = (preview: ManifestPreview, row: number, chemical: Chemical): ManifestPreview => ({
+  ...preview,
+  rows: preview.rows.map(manifestRow => manifestRow.row === row
+    ? { ...manifestRow, status: 'matched', cargo: toTank(chemical), candidates: [], message: chemical.name }
+    : manifestRow)
+});
+
+// Matched rows replace the cargo of their tank; every other tank is kept
+export const applyManifest = (tanks: Record<string, Tank>, preview: ManifestPreview): Record<string, Tank> => {
+  const next = { ...tanks };
+  preview.rows.forEach(row => {
+    if (row.status !== 'matched' || !row.cargo || !row.tankId) return;
+    next[row.tankId] = {
+      ...row.cargo,
+      quantity: row.quantity,
+      ...(row.quantity !== null ? { quantityUnit: preview.columns.quantityUnit } : {}),
+      density: row.density,
+      previousCargoes: tanks[row.tankId]?.previousCargoes
+    };
+  });
+  return next;
+};
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { CheckCircle, AlertTriangle, XCircle, FileSpreadsheet } from 'lucide-react';
+import { applyManifest, chooseManifestCandidate, previewManifest } from './manifest_import';
+import type { ManifestPreview, ManifestRowStatus } from './manifest_import';
+import type { ChemicalIndexRow, Tank } from './cargo_compatibility_engine';
+import { readReferenceFile } from './reference_data_loader';
+import { QUANTITY_UNIT_LABELS } from './tank_quantities';
+import { tankLabel } from './vessel_profile';
+import type { VesselProfile } from './vessel_profile';
+
+interface ManifestImportPanelProps {
+  vessel: VesselProfile;
+  tanks: Record<string, Tank>;
+  chemicals: ChemicalIndexRow[];
+  onApply: (tanks: Record<string, Tank>) => void;
+  onError: (message: string) => void;
+}
+
+const STATUS_LABELS: Record<ManifestRowStatus, string> = {
+  matched: 'Matched',
+  ambiguous: 'Ambiguous',
+  not_found: 'Not found',
+  unknown_tank: 'Unknown tank',
+  duplicate_tank: 'Duplicate tank',
+  empty: 'Blank'
+};
+
+const ManifestImportPanel = ({ vessel, tanks, chemicals, onApply, onError }: ManifestImportPanelProps) => {
+  const [preview, setPreview] = useState<ManifestPreview | null>(null);
+
+  const handleManifestUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      const parsed = readReferenceFile(file.name, await file.arrayBuffer());
+      setPreview(previewManifest(parsed, vessel, chemicals));
+    } catch (error) {
+      setPreview(null);
+      onError(`Error reading manifest: ${(error as Error).message}`);
+    }
+    event.target.value = '';
+  };
+
+  const matched = preview ? preview.rows.filter(row => row.status === 'matched') : [];
+  const unresolved = preview ? preview.rows.length - matched.length : 0;
+  const overwrites = matched.filter(row => row.tankId && tanks[row.tankId]?.chemical).length;
+
+  const apply = () => {
+    if (!preview) return;
+    if (overwrites > 0 && !window.confirm(`${overwrites} tank(s) already hold cargo and will be overwritten. Continue?`)) return;
+    onApply(applyManifest(tanks, preview));
+    setPreview(null);
+  };
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg">
+      <h2 className="text-xl font-semibold mb-2">Import Cargo Manifest</h2>
+      <p className="text-sm text-gray-600 mb-2">
+        CSV or Excel with a tank column, a cargo name or UN number column and, optionally, quantity and density columns.
+      </p>
+      <label className="inline-flex items-center gap-2 px-4 py-2 bg-gray-200 rounded-md hover:bg-gray-300 cursor-pointer">
+        <FileSpreadsheet className="w-4 h-4" />
+        Choose Manifest
+        <input type="file" accept=".csv,.xlsx,.xls" onChange={handleManifestUpload} className="hidden" />
+      </label>
+
+      {preview && (
+        <div className="mt-4">
+          <div className="text-sm text-gray-700 mb-2">
+            {preview.fileName}: {matched.length} row(s) ready, {unresolved} need attention.
+            <span className="text-gray-500"> Columns: tank '{preview.columns.tank}'
+              {preview.columns.cargo && `, cargo '${preview.columns.cargo}'`}
+              {preview.columns.un && `, UN '${preview.columns.un}'`}
+              {preview.columns.quantity && `, quantity '${preview.columns.quantity}' (${QUANTITY_UNIT_LABELS[preview.columns.quantityUnit]})`}
+              {preview.columns.density && `, density '${preview.columns.density}'`}
+            </span>
+          </div>
+          <div className="max-h-80 overflow-y-auto bg-white border rounded">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-100 text-left sticky top-0">
+                <tr>
+                  <th className="p-2">Row</th>
+                  <th className="p-2">Tank</th>
+                  <th className="p-2">Cargo</th>
+                  <th className="p-2">Quantity</th>
+                  <th className="p-2">Density</th>
+                  <th className="p-2">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.rows.map(row => (
+                  <tr key={row.row} className={`border-t ${row.status === 'matched' ? '' : 'bg-yellow-50'}`}>
+                    <td className="p-2">{row.row}</td>
+                    <td className="p-2">{row.tankId ? tankLabel(vessel, row.tankId) : row.tankText}</td>
+                    <td className="p-2">{row.cargoText}</td>
+                    <td className="p-2">{row.quantity ?? '—'}</td>
+                    <td className="p-2">{row.density ?? '—'}</td>
+                    <td className="p-2">
+                      <div className="flex items-center gap-1">
+                        {row.status === 'matched'
+                          ? <CheckCircle className="w-4 h-4 text-green-500" />
+                          : row.status === 'ambiguous'
+                            ? <AlertTriangle className="w-4 h-4 text-yellow-500" />
+                            : <XCircle className="w-4 h-4 text-red-500" />}
+                        <span className="font-medium">{STATUS_LABELS[row.status]}</span>
+                      </div>
+                      <div className="text-xs text-gray-600">{row.message}</div>
+                      {row.status === 'ambiguous' && (
+                        <select
+                          defaultValue=""
+                          onChange={(e) => {
+                            const match = row.candidates[parseInt(e.target.value)];
+                            if (match) setPreview(chooseManifestCandidate(preview, row.row, match.chemical));
+                          }}
+                          className="mt-1 p-1 border rounded text-xs"
+                        >
+                          <option value="" disabled>Choose a chemical...</option>
+                          {row.candidates.map((match, index) => (
+                            <option key={index} value={index}>{match.chemical.name} (Group {match.chemical.group})</option>
+                          ))}
+                        </select>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex gap-2 mt-2">
+            <button
+              onClick={apply}
+              disabled={matched.length === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300"
+            >
+              Apply {matched.length} Row(s) to Tanks
+            </button>
+            <button
+              onClick={() => setPreview(null)}
+              className="px-4 py-2 bg-gray-200 rounded-md hover:bg-gray-300"
+            >
+              Cancel
+            </button>
+          </div>
+          {unresolved > 0 && (
+            <p className="text-xs text-gray-500 mt-1">Rows that are not matched are skipped when applying.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ManifestImportPanel;
@@ -0,0 +1,153 @@
+// Why two cargoes are or are not compatible: the chart cell, the exception row
+// that overrode it and any footnote involved, in the order checkPair applies them.
+import {
+  checkPair,
+  DEFAULT_ADJACENCY_POLICY,
+  findException,
+  footnoteRules,
+  isLoaded,
+  tankComponents
+} from './cargo_compatibility_engine';
+import type {
+  AdjacencyPolicy,
+  BaseCompatibility,
+  Compatibility,
+  ContactType,
+  ExceptionMatch,
+  ReactiveGroup,
+  ReferenceData,
+  Tank
+} from './cargo_compatibility_engine';
+import { findFootnoteConflict } from './chemical_footnotes';
+import type { FootnoteRule } from './chemical_footnotes';
+import { getAdjacencies } from './vessel_profile';
+import type { VesselProfile } from './vessel_profile';
+
+export interface PairExplanation {
+  chemical1: string;
+  group1: ReactiveGroup | null;
+  chemical2: string;
+  group2: ReactiveGroup | null;
+  // null when either group is unknown and the chart cannot be read
+  chartCell: { row: ReactiveGroup; column: ReactiveGroup; marked: boolean } | null;
+  baseCompatibility: BaseCompatibility;
+  exception: ExceptionMatch | null;
+  // false when the exception agrees with the chart and changes nothing
+  exceptionApplied: boolean;
+  footnote: { chemical: string; rule: FootnoteRule } | null;
+  footnoteApplied: boolean;
+  compatibility: Compatibility;
+  steps: string[];
+}
+
+export interface ContactExplanation {
+  // Same as the explained tank for 'same_tank'
+  tankId: string;
+  contact: ContactType;
+  enforced: boolean;
+  pairs: PairExplanation[];
+}
+
+const groupText = (group: ReactiveGroup | null) => group === null ? 'unknown group' : `group ${group}`;
+
+export const explainPair = (
+  chemical1: string,
+  group1: ReactiveGroup | null,
+  chemical2: string,
+  group2: ReactiveGroup | null,
+  referenceData: ReferenceData
+): PairExplanation => {
+  const { compatibility, baseCompatibility } = checkPair(chemical1, group1, chemical2, group2, referenceData);
+  const exception = findException(chemical1, group1, chemical2, group2, referenceData);
+  const exceptionApplied = !!exception &&
+    (exception.kind === 'compatible_exception' ? baseCompatibility === 'incompatible' : baseCompatibility === 'compatible');
+
+  // Same lookup order as checkPair: the first cargo's footnote, then the second's
+  const rule1 = findFootnoteConflict(footnoteRules(chemical1, referenceData), group2);
+  const rule2 = rule1 ? null : findFootnoteConflict(footnoteRules(chemical2, referenceData), group1);
+  const footnote = rule1 ? { chemical: chemical1, rule: rule1 } : rule2 ? { chemical: chemical2, rule: rule2 } : null;
+  const footnoteApplied = compatibility === 'incompatible_footnote';
+
+  const chartCell = group1 !== null && group2 !== null
+    ? { row: group1, column: group2, marked: !!referenceData.chart[group1]?.[group2] }
+    : null;
+
+  const steps: string[] = [];
+  if (chartCell) {
+    steps.push(chartCell.marked
+      ? `Chart cell group ${chartCell.row} x group ${chartCell.column} is marked X: incompatible.`
+      : `Chart cell group ${chartCell.row} x group ${chartCell.column} is blank: compatible.`);
+  } else {
+    steps.push(`${group1 === null ? chemical1 : chemical2} has no reactive group; the chart cannot be applied and the pair is treated as compatible.`);
+  }
+
+  if (exception) {
+    const listed = exception.kind === 'compatible_exception' ? 'compatible exceptions' : 'incompatible exceptions';
+    steps.push(exceptionApplied
+      ? `Listed in the ${listed}, which overrides the chart.`
+      : `Listed in the ${listed}, which agrees with the chart.`);
+  }
+
+  if (footnote) {
+    steps.push(footnoteApplied
+      ? `Footnote of ${footnote.chemical}: "${footnote.rule.text}" makes the pair incompatible.`
+      : exception?.kind === 'compatible_exception'
+        ? `Footnote of ${footnote.chemical}: "${footnote.rule.text}" is overridden by the compatible exception.`
+        : `Footnote of ${footnote.chemical}: "${footnote.rule.text}" agrees with the result.`);
+  }
+
+  steps.push(`Result: ${compatibility.replace(/_/g, ' ')} (${chemical1}, ${groupText(group1)} / ${chemical2}, ${groupText(group2)}).`);
+
+  return {
+    chemical1,
+    group1,
+    chemical2,
+    group2,
+    chartCell,
+    baseCompatibility,
+    exception,
+    exceptionApplied,
+    footnote,
+    footnoteApplied,
+    compatibility,
+    steps
+  };
+};
+
+// Every contact of a tank: its own components first, then each loaded neighbour
+export const explainTank = (
+  vessel: VesselProfile,
+  tanks: Record<string, Tank>,
+  tankId: string,
+  referenceData: ReferenceData,
+  adjacencyPolicy: AdjacencyPolicy = DEFAULT_ADJACENCY_POLICY
+): ContactExplanation[] => {
+  const components = tankComponents(tanks[tankId]);
+  if (components.length === 0) return [];
+
+  const contacts: ContactExplanation[] = [];
+  if (components.length > 1) {
+    contacts.push({
+      tankId,
+      contact: 'same_tank',
+      enforced: true,
+      pairs: components.flatMap((first, index) => components.slice(index + 1).map(second =>
+        explainPair(first.chemical, first.group, second.chemical, second.group, referenceData)
+      ))
+    });
+  }
+
+  getAdjacencies(vessel, tankId).forEach(({ tankId: adjTankId, type }) => {
+    const adjTank = tanks[adjTankId];
+    if (!isLoaded(adjTank)) return;
+    contacts.push({
+      tankId: adjTankId,
+      contact: type,
+      enforced: !!adjacencyPolicy[type],
+      pairs: components.flatMap(component => tankComponents(adjTank).map(adjComponent =>
+        explainPair(component.chemical, component.group, adjComponent.chemical, adjComponent.group, referenceData)
+      ))
+    });
+  });
+  return contacts;
+};
@@ -0,0 +1,94 @@
+import React, { useMemo } from 'react';
+import { HelpCircle, X } from 'lucide-react';
+import { CONTACT_TYPE_LABELS, isIncompatible } from './cargo_compatibility_engine';
+import type { AdjacencyPolicy, ReferenceData, Tank } from './cargo_compatibility_engine';
+import { explainTank } from './pair_explanation';
+import type { PairExplanation } from './pair_explanation';
+import { tankLabel } from './vessel_profile';
+import type { VesselProfile } from './vessel_profile';
+
+interface PairExplanationPanelProps {
+  vessel: VesselProfile;
+  tanks: Record<string, Tank>;
+  referenceData: ReferenceData;
+  adjacencyPolicy: AdjacencyPolicy;
+  tankId: string;
+  // Neighbour to highlight, e.g. the other tank of a clicked problem
+  focusTankId?: string | null;
+  onClose: () => void;
+}
+
+const PairDetails = ({ pair }: { pair: PairExplanation }) => (
+  <div className={`p-2 rounded border text-sm ${isIncompatible(pair.compatibility) ? 'border-red-300 bg-red-50' : 'bg-white'}`}>
+    <div className="font-medium">
+      {pair.chemical1} (Group {pair.group1 ?? '?'}) ↔ {pair.chemical2} (Group {pair.group2 ?? '?'}):{' '}
+      <span className={isIncompatible(pair.compatibility) ? 'text-red-700' : 'text-green-700'}>
+        {pair.compatibility.replace(/_/g, ' ').toUpperCase()}
+      </span>
+    </div>
+    <ol className="list-decimal ml-5 text-xs text-gray-700 mt-1">
+      {pair.steps.map((step, index) => <li key={index}>{step}</li>)}
+    </ol>
+    {pair.exception && (
+      <div className="mt-1 text-xs">
+        <span className="text-gray-500">
+          {pair.exception.kind === 'compatible_exception' ? 'Compatible' : 'Incompatible'} exception row
+          {pair.exceptionApplied ? '' : ' (no effect)'}:
+        </span>
+        <table className="mt-1 border text-xs bg-white">
+          <tbody>
+            {Object.entries(pair.exception.row).map(([column, value]) => (
+              <tr key={column} className="border-t">
+                <td className="px-2 py-0.5 text-gray-500">{column}</td>
+                <td className="px-2 py-0.5">{String(value ?? '')}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    )}
+  </div>
+);
+
+const PairExplanationPanel = ({ vessel, tanks, referenceData, adjacencyPolicy, tankId, focusTankId, onClose }: PairExplanationPanelProps) => {
+  const contacts = useMemo(
+    () => explainTank(vessel, tanks, tankId, referenceData, adjacencyPolicy),
+    [vessel, tanks, tankId, referenceData, adjacencyPolicy]
+  );
+
+  return (
+    <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
+      <div className="flex items-center gap-2 mb-3">
+        <HelpCircle className="w-5 h-5 text-blue-600" />
+        <h3 className="font-semibold text-blue-900 flex-1">Why? Tank {tankLabel(vessel, tankId)}</h3>
+        <button onClick={onClose} className="p-1 rounded hover:bg-blue-100" title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      {contacts.length === 0 ? (
+        <p className="text-sm text-gray-600">This tank is empty or has no loaded neighbours.</p>
+      ) : (
+        <div className="space-y-3">
+          {contacts.map(contact => (
+            <div
+              key={`${contact.contact}-${contact.tankId}`}
+              className={`p-2 rounded ${contact.tankId === focusTankId ? 'ring-2 ring-blue-400 bg-white' : ''}`}
+            >
+              <div className="text-sm font-medium mb-1">
+                {contact.contact === 'same_tank' ? 'Within the tank' : `Tank ${tankLabel(vessel, contact.tankId)}`}
+                <span className="text-xs text-gray-500 ml-2">
+                  {CONTACT_TYPE_LABELS[contact.contact]}{contact.enforced ? '' : ' (not enforced by the adjacency policy)'}
+                </span>
+              </div>
+              <div className="space-y-2">
+                {contact.pairs.map((pair, index) => <PairDetails key={index} pair={pair} />)}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PairExplanationPanel;
@@ -0,0 +1,125 @@
+// Compare two stowage plans: which tank assignments differ and which conflicts
+// the revision resolved, introduced or left in place. Tanks are matched by
+// label, so plans on different vessel layouts can still be compared.
+import { analyze, isLoaded } from './cargo_compatibility_engine';
+import type { AnalysisOptions, AnalysisResult, ContactType, Problem, ReferenceData, Tank } from './cargo_compatibility_engine';
+import { describeTank } from './tank_blends';
+import { canHoldCargo, tankLabel } from './vessel_profile';
+import type { VesselProfile } from './vessel_profile';
+
+export interface ComparedPlan {
+  name: string;
+  vessel: VesselProfile;
+  tanks: Record<string, Tank>;
+}
+
+// 'added' and 'removed' tanks exist in only one of the two layouts
+export type TankChangeKind = 'unchanged' | 'loaded' | 'discharged' | 'changed' | 'added' | 'removed';
+
+export interface TankComparison {
+  label: string;
+  baseTankId: string | null;
+  revisedTankId: string | null;
+  before: string;
+  after: string;
+  kind: TankChangeKind;
+}
+
+export interface ConflictEntry {
+  tank1: string;
+  tank2: string;
+  chemical1: string;
+  chemical2: string;
+  contact: ContactType;
+  compatibility: Problem['compatibility'];
+}
+
+export interface PlanComparison {
+  tanks: TankComparison[];
+  resolved: ConflictEntry[];
+  introduced: ConflictEntry[];
+  unchanged: ConflictEntry[];
+  baseAnalysis: AnalysisResult;
+  revisedAnalysis: AnalysisResult;
+}
+
+const cargoTanks = (plan: ComparedPlan) => {
+  const byLabel = new Map<string, string>();
+  plan.vessel.tanks.filter(canHoldCargo).forEach(tank => byLabel.set(tank.label, tank.id));
+  return byLabel;
+};
+
+const tankKind = (before: Tank | undefined, after: Tank | undefined, inBase: boolean, inRevised: boolean): TankChangeKind => {
+  if (!inBase) return 'added';
+  if (!inRevised) return 'removed';
+  const beforeText = isLoaded(before) ? describeTank(before) : '';
+  const afterText = isLoaded(after) ? describeTank(after) : '';
+  const sameQuantity = (before?.quantity ?? null) === (after?.quantity ?? null) &&
+    (before?.quantityUnit || 'm3') === (after?.quantityUnit || 'm3') &&
+    (before?.density ?? null) === (after?.density ?? null);
+  if (beforeText === afterText && sameQuantity) return 'unchanged';
+  if (!beforeText) return 'loaded';
+  if (!afterText) return 'discharged';
+  return 'changed';
+};
+
+// One entry per conflicting pair of cargoes, whichever tank reported it
+const conflictEntries = (plan: ComparedPlan, analysis: AnalysisResult) => {
+  const entries = new Map<string, ConflictEntry>();
+  analysis.problems.forEach(problem => {
+    const side1 = { tank: tankLabel(plan.vessel, problem.tank1), chemical: problem.chemical1 };
+    const side2 = { tank: tankLabel(plan.vessel, problem.tank2), chemical: problem.chemical2 };
+    const [first, second] = [side1, side2].sort((a, b) => `${a.tank}:${a.chemical}`.localeCompare(`${b.tank}:${b.chemical}`));
+    const key = `${first.tank}:${first.chemical}|${second.tank}:${second.chemical}`;
+    if (entries.has(key)) return;
+    entries.set(key, {
+      tank1: first.tank,
+      tank2: second.tank,
+      chemical1: first.chemical,
+      chemical2: second.chemical,
+      contact: problem.adjacencyType,
+      compatibility: problem.compatibility
+    });
+  });
+  return entries;
+};
+
+export const comparePlans = (
+  base: ComparedPlan,
+  revised: ComparedPlan,
+  referenceData: ReferenceData,
+  options: AnalysisOptions = {}
+): PlanComparison => {
+  const baseTanks = cargoTanks(base);
+  const revisedTanks = cargoTanks(revised);
+  const labels = Array.from(new Set([...baseTanks.keys(), ...revisedTanks.keys()]));
+
+  const tanks = labels.map(label => {
+    const baseTankId = baseTanks.get(label) || null;
+    const revisedTankId = revisedTanks.get(label) || null;
+    const before = baseTankId ? base.tanks[baseTankId] : undefined;
+    const after = revisedTankId ? revised.tanks[revisedTankId] : undefined;
+    return {
+      label,
+      baseTankId,
+      revisedTankId,
+      before: isLoaded(before) ? describeTank(before) : '',
+      after: isLoaded(after) ? describeTank(after) : '',
+      kind: tankKind(before, after, !!baseTankId, !!revisedTankId)
+    };
+  });
+
+  const baseAnalysis = analyze({ vessel: base.vessel, tanks: base.tanks }, referenceData, options);
+  const revisedAnalysis = analyze({ vessel: revised.vessel, tanks: revised.tanks }, referenceData, options);
+  const baseConflicts = conflictEntries(base, baseAnalysis);
+  const revisedConflicts = conflictEntries(revised, revisedAnalysis);
+
+  return {
+    tanks,
+    resolved: Array.from(baseConflicts.entries()).filter(([key]) => !revisedConflicts.has(key)).map(([_, entry]) => entry),
+    introduced: Array.from(revisedConflicts.entries()).filter(([key]) => !baseConflicts.has(key)).map(([_, entry]) => entry),
+    unchanged: Array.from(revisedConflicts.entries()).filter(([key]) => baseConflicts.has(key)).map(([_, entry]) => entry),
+    baseAnalysis,
+    revisedAnalysis
+  };
+};
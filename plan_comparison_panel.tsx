@@ -0,0 +1,239 @@
+import React, { useMemo, useState } from 'react';
+import { GitCompare, Upload } from 'lucide-react';
+import { CONTACT_TYPE_LABELS } from './cargo_compatibility_engine';
+import type { AdjacencyPolicy, AnalysisResult, ReferenceData } from './cargo_compatibility_engine';
+import { comparePlans } from './plan_comparison';
+import type { ComparedPlan, ConflictEntry, TankChangeKind } from './plan_comparison';
+import { listSavedPlans, parsePlan } from './stowage_plan_storage';
+import type { SavedStowagePlan } from './stowage_plan_storage';
+import { describeTank } from './tank_blends';
+import { canHoldCargo } from './vessel_profile';
+
+interface PlanComparisonPanelProps {
+  currentPlan: SavedStowagePlan;
+  referenceData: ReferenceData;
+  adjacencyPolicy: AdjacencyPolicy;
+  onError: (message: string) => void;
+}
+
+// 'current' follows the plan being edited; a file is held until replaced
+type PlanSource = { kind: 'current' } | { kind: 'saved'; name: string } | { kind: 'file'; plan: SavedStowagePlan };
+
+const CHANGE_STYLES: Record<TankChangeKind, string> = {
+  unchanged: 'border-gray-300',
+  loaded: 'border-blue-500 bg-blue-50',
+  discharged: 'border-blue-500 bg-blue-50',
+  changed: 'border-blue-500 bg-blue-50',
+  added: 'border-purple-500 border-dashed',
+  removed: 'border-purple-500 border-dashed'
+};
+
+const sourceValue = (source: PlanSource) =>
+  source.kind === 'saved' ? `saved:${source.name}` : source.kind;
+
+interface PlanPickerProps {
+  title: string;
+  source: PlanSource;
+  savedPlans: SavedStowagePlan[];
+  onChange: (source: PlanSource) => void;
+  onRefresh: () => void;
+  onError: (message: string) => void;
+}
+
+const PlanPicker = ({ title, source, savedPlans, onChange, onRefresh, onError }: PlanPickerProps) => {
+  const handlePlanUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      onChange({ kind: 'file', plan: parsePlan(await file.text()) });
+    } catch (error) {
+      onError(`Error importing stowage plan: ${(error as Error).message}`);
+    }
+    event.target.value = '';
+  };
+
+  return (
+    <div className="flex-1">
+      <label className="block text-sm font-medium text-gray-700 mb-1">{title}</label>
+      <div className="flex gap-2">
+        <select
+          value={sourceValue(source)}
+          onFocus={onRefresh}
+          onChange={(e) => {
+            const value = e.target.value;
+            if (value === 'current') onChange({ kind: 'current' });
+            else if (value.startsWith('saved:')) onChange({ kind: 'saved', name: value.slice('saved:'.length) });
+          }}
+          className="flex-1 p-2 border rounded-md"
+        >
+          <option value="current">Current plan</option>
+          {savedPlans.map(plan => (
+            <option key={plan.name} value={`saved:${plan.name}`}>Saved: {plan.name}</option>
+          ))}
+          {source.kind === 'file' && <option value="file">File: {source.plan.name}</option>}
+        </select>
+        <label className="flex items-center gap-2 px-3 py-2 bg-gray-200 rounded-md hover:bg-gray-300 cursor-pointer" title="Compare a plan exported as JSON">
+          <Upload className="w-4 h-4" />
+          <input type="file" accept=".json" onChange={handlePlanUpload} className="hidden" />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+interface PlanDiagramProps {
+  plan: ComparedPlan;
+  analysis: AnalysisResult;
+  changes: Map<string, TankChangeKind>;
+}
+
+const PlanDiagram = ({ plan, analysis, changes }: PlanDiagramProps) => {
+  const conflicted = new Set(analysis.problems.flatMap(problem => [problem.tank1, problem.tank2]));
+  const columns = Math.max(1, ...plan.vessel.tanks.map(tank => tank.position.col + (tank.position.span || 1)));
+
+  return (
+    <div className="grid gap-1" style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}>
+      {plan.vessel.tanks.map(tank => {
+        const cargo = plan.tanks[tank.id];
+        const kind = changes.get(tank.label) || 'unchanged';
+        return (
+          <div
+            key={tank.id}
+            style={{ gridRow: tank.position.row + 1, gridColumn: `${tank.position.col + 1} / span ${tank.position.span || 1}` }}
+            className={`p-1 border-2 rounded text-xs min-h-[48px] ${canHoldCargo(tank) ? CHANGE_STYLES[kind] : 'border-dashed bg-gray-100 text-gray-400'}`}
+          >
+            <div className={`font-bold ${conflicted.has(tank.id) ? 'text-red-600' : 'text-gray-600'}`}>
+              {tank.label}{conflicted.has(tank.id) ? ' ⚠' : ''}
+            </div>
+            <div className="truncate">{canHoldCargo(tank) ? (cargo?.chemical ? describeTank(cargo) : 'Empty') : 'Cofferdam'}</div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const ConflictList = ({ title, entries, className }: { title: string; entries: ConflictEntry[]; className: string }) => (
+  <div className={`p-3 rounded border ${className}`}>
+    <h4 className="font-semibold text-sm mb-1">{title} ({entries.length})</h4>
+    {entries.length === 0 ? (
+      <p className="text-xs text-gray-500">None.</p>
+    ) : (
+      <ul className="text-xs space-y-1">
+        {entries.map((entry, index) => (
+          <li key={index}>
+            <span className="font-medium">{entry.tank1 === entry.tank2 ? entry.tank1 : `${entry.tank1} ↔ ${entry.tank2}`}</span>:{' '}
+            {entry.chemical1} ↔ {entry.chemical2}
+            <span className="text-gray-500"> ({CONTACT_TYPE_LABELS[entry.contact]}, {entry.compatibility.replace(/_/g, ' ')})</span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+const PlanComparisonPanel = ({ currentPlan, referenceData, adjacencyPolicy, onError }: PlanComparisonPanelProps) => {
+  const [savedPlans, setSavedPlans] = useState<SavedStowagePlan[]>(() => listSavedPlans());
+  const [baseSource, setBaseSource] = useState<PlanSource>({ kind: 'current' });
+  const [revisedSource, setRevisedSource] = useState<PlanSource>({ kind: 'current' });
+
+  const resolve = (source: PlanSource): SavedStowagePlan | null =>
+    source.kind === 'current'
+      ? currentPlan
+      : source.kind === 'saved' ? savedPlans.find(plan => plan.name === source.name) || null : source.plan;
+
+  const base = resolve(baseSource);
+  const revised = resolve(revisedSource);
+
+  const comparison = useMemo(
+    () => base && revised ? comparePlans(base, revised, referenceData, { adjacencyPolicy }) : null,
+    [base, revised, referenceData, adjacencyPolicy]
+  );
+  const changes = new Map((comparison?.tanks || []).map(tank => [tank.label, tank.kind]));
+  const changed = (comparison?.tanks || []).filter(tank => tank.kind !== 'unchanged');
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg">
+      <div className="flex items-center gap-2 mb-2">
+        <GitCompare className="w-5 h-5" />
+        <h2 className="text-xl font-semibold">Compare Plans</h2>
+      </div>
+      <div className="flex gap-4 mb-4">
+        <PlanPicker
+          title="Plan A (e.g. charterer's proposal)"
+          source={baseSource}
+          savedPlans={savedPlans}
+          onChange={setBaseSource}
+          onRefresh={() => setSavedPlans(listSavedPlans())}
+          onError={onError}
+        />
+        <PlanPicker
+          title="Plan B (e.g. our revision)"
+          source={revisedSource}
+          savedPlans={savedPlans}
+          onChange={setRevisedSource}
+          onRefresh={() => setSavedPlans(listSavedPlans())}
+          onError={onError}
+        />
+      </div>
+
+      {(!base || !revised) && (
+        <p className="text-sm text-red-600">A selected saved plan no longer exists; choose another.</p>
+      )}
+
+      {base && revised && comparison && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <h3 className="font-semibold text-sm mb-1">A: {base.name} ({comparison.baseAnalysis.problems.length === 0 ? 'no conflicts' : 'has conflicts'})</h3>
+              <PlanDiagram plan={base} analysis={comparison.baseAnalysis} changes={changes} />
+            </div>
+            <div>
+              <h3 className="font-semibold text-sm mb-1">B: {revised.name} ({comparison.revisedAnalysis.problems.length === 0 ? 'no conflicts' : 'has conflicts'})</h3>
+              <PlanDiagram plan={revised} analysis={comparison.revisedAnalysis} changes={changes} />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            Blue: assignment changed. Dashed purple: tank exists in only one layout. ⚠: tank in conflict.
+          </p>
+
+          <div>
+            <h3 className="font-semibold text-sm mb-1">Changed Tanks ({changed.length})</h3>
+            {changed.length === 0 ? (
+              <p className="text-xs text-gray-500">The two plans assign the same cargoes.</p>
+            ) : (
+              <table className="w-full text-sm bg-white border">
+                <thead className="bg-gray-100 text-left">
+                  <tr>
+                    <th className="p-2">Tank</th>
+                    <th className="p-2">A</th>
+                    <th className="p-2">B</th>
+                    <th className="p-2">Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {changed.map(tank => (
+                    <tr key={tank.label} className="border-t">
+                      <td className="p-2">{tank.label}</td>
+                      <td className="p-2">{tank.before || '—'}</td>
+                      <td className="p-2">{tank.after || '—'}</td>
+                      <td className="p-2">{tank.kind}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <ConflictList title="Resolved in B" entries={comparison.resolved} className="bg-green-50 border-green-200" />
+            <ConflictList title="Introduced in B" entries={comparison.introduced} className="bg-red-50 border-red-200" />
+            <ConflictList title="In both plans" entries={comparison.unchanged} className="bg-yellow-50 border-yellow-200" />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlanComparisonPanel;
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import type { Tank } from './cargo_compatibility_engine';
+import { appendChanges, describePlanChanges, emptyHistory, pushUndo, redoStep, samePlan, undoStep } from './plan_history';
+import type { PlanSnapshot } from './plan_history';
+import { createGridProfile } from './vessel_profile';
+
+const vessel = createGridProfile(2, 1);
+
+const snapshot = (tanks: Record<string, Tank>, profile = vessel): PlanSnapshot => ({ vessel: profile, tanks });
+
+const methanol: Tank = { chemical: 'Methanol', group: 20 };
+
+describe('describePlanChanges', () => {
+  it('records cargo and cargo history changes per tank', () => {
+    const before = snapshot({ '0-0': methanol });
+    const after = snapshot({
+      '0-0': { chemical: '', group: null, previousCargoes: [{ chemical: 'Methanol', group: 20 }] },
+      '0-1': { chemical: 'Ethanol', group: 20, quantity: 500 }
+    });
+    expect(describePlanChanges(before, after)).toEqual([
+      { tank: 'A1', field: 'cargo', before: 'Methanol', after: '(empty)' },
+      { tank: 'A1', field: 'previous_cargoes', before: '(none)', after: 'Methanol' },
+      { tank: 'A2', field: 'cargo', before: '(no tank)', after: 'Ethanol, qty 500 m³' }
+    ]);
+  });
+
+  it('records a layout change once, without the empty tanks it adds', () => {
+    const larger = createGridProfile(3, 1);
+    expect(describePlanChanges(snapshot({}), snapshot({ '0-2': { chemical: '', group: null } }, larger))).toEqual([
+      { tank: null, field: 'layout', before: `${vessel.name}: 2 tanks, 1 adjacencies`, after: `${larger.name}: 3 tanks, 2 adjacencies` }
+    ]);
+  });
+
+  it('finds nothing between equal plans', () => {
+    expect(describePlanChanges(snapshot({ '0-0': methanol }), snapshot({ '0-0': { ...methanol } }))).toEqual([]);
+    expect(samePlan(snapshot({ '0-0': methanol }), snapshot({ '0-0': { group: 20, chemical: 'Methanol' } }))).toBe(true);
+  });
+});
+
+describe('appendChanges', () => {
+  it('continues the sequence of the existing log', () => {
+    const change = { tank: 'A1', field: 'cargo' as const, before: '(empty)', after: 'Methanol' };
+    const log = appendChanges([], [change], 'Mate', 'edit', '2026-01-01T00:00:00.000Z');
+    const next = appendChanges(log, [change, change], '', 'undo', '2026-01-02T00:00:00.000Z');
+    expect(next.map(entry => [entry.sequence, entry.user, entry.action])).toEqual([[1, 'Mate', 'edit'], [2, 'unknown', 'undo'], [3, 'unknown', 'undo']]);
+    expect(next[0]).toBe(log[0]);
+  });
+});
+
+describe('undo and redo', () => {
+  it('moves between snapshots and drops the redo stack on a new edit', () => {
+    const first = snapshot({});
+    const second = snapshot({ '0-0': methanol });
+    const third = snapshot({ '0-1': methanol });
+
+    const history = pushUndo(pushUndo(emptyHistory(), first), second);
+    const undone = undoStep(history, third)!;
+    expect(undone.snapshot).toBe(second);
+    const redone = redoStep(undone.history, second)!;
+    expect(redone.snapshot).toBe(third);
+    expect(redoStep(redone.history, third)).toBeNull();
+
+    expect(pushUndo(undone.history, second).future).toEqual([]);
+    expect(undoStep(emptyHistory(), first)).toBeNull();
+  });
+});
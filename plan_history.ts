@@ -0,0 +1,135 @@
+// Undo/redo snapshots and the append-only change log of a stowage plan.
+// Changes are found by diffing successive snapshots, so every kind of edit
+// (typing, imports, auto-stow, layout changes) is recorded the same way.
+import type { Tank } from './cargo_compatibility_engine';
+import { canonicalJson } from './content_hash';
+import { describeTank } from './tank_blends';
+import { QUANTITY_UNIT_LABELS } from './tank_quantities';
+import { defaultStorage } from './stowage_plan_storage';
+import { tankLabel } from './vessel_profile';
+import type { VesselProfile } from './vessel_profile';
+
+export interface PlanSnapshot {
+  vessel: VesselProfile;
+  tanks: Record<string, Tank>;
+}
+
+export interface PlanHistory {
+  past: PlanSnapshot[];
+  future: PlanSnapshot[];
+}
+
+export type ChangeAction = 'edit' | 'undo' | 'redo' | 'load';
+
+export interface ChangeLogEntry {
+  sequence: number;
+  timestamp: string;
+  user: string;
+  action: ChangeAction;
+  // Tank label, or null for changes to the vessel layout or the plan as a whole
+  tank: string | null;
+  field: 'cargo' | 'previous_cargoes' | 'layout' | 'plan';
+  before: string;
+  after: string;
+}
+
+export interface PlanChange {
+  tank: string | null;
+  field: ChangeLogEntry['field'];
+  before: string;
+  after: string;
+}
+
+const MAX_UNDO = 100;
+const USER_KEY = 'cargo-compatibility:user';
+
+export const emptyHistory = (): PlanHistory => ({ past: [], future: [] });
+
+export const samePlan = (a: PlanSnapshot, b: PlanSnapshot) => canonicalJson(a) === canonicalJson(b);
+
+const cargoText = (tank: Tank | undefined) => {
+  if (!tank) return '(no tank)';
+  const cargo = describeTank(tank) || '(empty)';
+  return typeof tank.quantity === 'number' ? `${cargo}, qty ${tank.quantity} ${QUANTITY_UNIT_LABELS[tank.quantityUnit || 'm3']}` : cargo;
+};
+
+const historyText = (tank: Tank | undefined) =>
+  (tank?.previousCargoes || []).map(previous => previous.chemical).join(', ') || '(none)';
+
+const layoutText = (vessel: VesselProfile) =>
+  `${vessel.name}: ${vessel.tanks.length} tanks, ${vessel.adjacency.length} adjacencies`;
+
+export const describePlanChanges = (before: PlanSnapshot, after: PlanSnapshot): PlanChange[] => {
+  const changes: PlanChange[] = [];
+  if (canonicalJson(before.vessel) !== canonicalJson(after.vessel)) {
+    changes.push({ tank: null, field: 'layout', before: layoutText(before.vessel), after: layoutText(after.vessel) });
+  }
+
+  const tankIds = Array.from(new Set([...Object.keys(before.tanks), ...Object.keys(after.tanks)]));
+  tankIds.forEach(tankId => {
+    const label = after.tanks[tankId] ? tankLabel(after.vessel, tankId) : tankLabel(before.vessel, tankId);
+    const previous = before.tanks[tankId];
+    const next = after.tanks[tankId];
+    // Tanks appearing or disappearing empty are part of the layout change
+    if ((!previous && !next?.chemical) || (!next && !previous?.chemical)) return;
+    if (cargoText(previous) !== cargoText(next)) {
+      changes.push({ tank: label, field: 'cargo', before: cargoText(previous), after: cargoText(next) });
+    }
+    if (historyText(previous) !== historyText(next)) {
+      changes.push({ tank: label, field: 'previous_cargoes', before: historyText(previous), after: historyText(next) });
+    }
+  });
+  return changes;
+};
+
+// Entries are only ever appended; sequence numbers continue from the last one
+export const appendChanges = (
+  log: ChangeLogEntry[],
+  changes: PlanChange[],
+  user: string,
+  action: ChangeAction,
+  timestamp = new Date().toISOString()
+): ChangeLogEntry[] => {
+  const start = log.length > 0 ? log[log.length - 1].sequence + 1 : 1;
+  return [
+    ...log,
+    ...changes.map((change, index) => ({ sequence: start + index, timestamp, user: user || 'unknown', action, ...change }))
+  ];
+};
+
+export const pushUndo = (history: PlanHistory, snapshot: PlanSnapshot): PlanHistory => ({
+  past: [...history.past, snapshot].slice(-MAX_UNDO),
+  future: []
+});
+
+export const undoStep = (history: PlanHistory, current: PlanSnapshot) => {
+  if (history.past.length === 0) return null;
+  return {
+    snapshot: history.past[history.past.length - 1],
+    history: { past: history.past.slice(0, -1), future: [current, ...history.future] }
+  };
+};
+
+export const redoStep = (history: PlanHistory, current: PlanSnapshot) => {
+  if (history.future.length === 0) return null;
+  return {
+    snapshot: history.future[0],
+    history: { past: [...history.past, current], future: history.future.slice(1) }
+  };
+};
+
+export const readUserName = (storage = defaultStorage()) => {
+  try {
+    return storage?.getItem(USER_KEY) || '';
+  } catch (error) {
+    return '';
+  }
+};
+
+export const writeUserName = (name: string, storage = defaultStorage()) => {
+  try {
+    storage?.setItem(USER_KEY, name);
+  } catch (error) {
+    // Not worth interrupting the user over; the name is asked again next time
+  }
+};
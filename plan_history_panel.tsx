@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { Undo2, Redo2, ClipboardList } from 'lucide-react';
+import type { ChangeLogEntry } from './plan_history';
+
+interface PlanHistoryPanelProps {
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  userName: string;
+  onUserNameChange: (name: string) => void;
+  changeLog: ChangeLogEntry[];
+}
+
+const FIELD_LABELS: Record<ChangeLogEntry['field'], string> = {
+  cargo: 'Cargo',
+  previous_cargoes: 'Previous cargoes',
+  layout: 'Layout',
+  plan: 'Plan'
+};
+
+const PlanHistoryPanel = ({ canUndo, canRedo, onUndo, onRedo, userName, onUserNameChange, changeLog }: PlanHistoryPanelProps) => {
+  const [showLog, setShowLog] = useState(false);
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y), except while typing in a field
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (!(event.ctrlKey || event.metaKey) || (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey && canUndo) {
+        event.preventDefault();
+        onUndo();
+      } else if (((key === 'z' && event.shiftKey) || key === 'y') && canRedo) {
+        event.preventDefault();
+        onRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [canUndo, canRedo, onUndo, onRedo]);
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg">
+      <div className="flex gap-2 items-end">
+        <button
+          onClick={onUndo}
+          disabled={!canUndo}
+          className="flex items-center gap-2 px-4 py-2 bg-gray-200 rounded-md hover:bg-gray-300 disabled:opacity-50"
+        >
+          <Undo2 className="w-4 h-4" />
+          Undo
+        </button>
+        <button
+          onClick={onRedo}
+          disabled={!canRedo}
+          className="flex items-center gap-2 px-4 py-2 bg-gray-200 rounded-md hover:bg-gray-300 disabled:opacity-50"
+        >
+          <Redo2 className="w-4 h-4" />
+          Redo
+        </button>
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Changes recorded as</label>
+          <input
+            type="text"
+            value={userName}
+            onChange={(e) => onUserNameChange(e.target.value)}
+            placeholder="Your name and rank"
+            className="w-full p-2 border rounded-md"
+          />
+        </div>
+        <button
+          onClick={() => setShowLog(prev => !prev)}
+          className="flex items-center gap-2 px-4 py-2 bg-gray-200 rounded-md hover:bg-gray-300"
+        >
+          <ClipboardList className="w-4 h-4" />
+          {showLog ? 'Hide Change Log' : `Change Log (${changeLog.length})`}
+        </button>
+      </div>
+
+      {showLog && (
+        <div className="mt-3 max-h-80 overflow-y-auto bg-white border rounded">
+          {changeLog.length === 0 ? (
+            <p className="p-2 text-sm text-gray-500">No changes recorded yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-gray-100 text-left sticky top-0">
+                <tr>
+                  <th className="p-2">#</th>
+                  <th className="p-2">When</th>
+                  <th className="p-2">Who</th>
+                  <th className="p-2">Action</th>
+                  <th className="p-2">Tank</th>
+                  <th className="p-2">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...changeLog].reverse().map(entry => (
+                  <tr key={entry.sequence} className="border-t">
+                    <td className="p-2 text-gray-500">{entry.sequence}</td>
+                    <td className="p-2 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString()}</td>
+                    <td className="p-2">{entry.user}</td>
+                    <td className="p-2">{entry.action}</td>
+                    <td className="p-2">{entry.tank ?? '—'}</td>
+                    <td className="p-2">
+                      <span className="text-gray-500">{FIELD_LABELS[entry.field]}:</span> {entry.before} → {entry.after}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlanHistoryPanel;
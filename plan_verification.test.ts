@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { loadReference, readPlanFile, resolvePlanTanks, verifyPlan } from './plan_verification';
+import type { LoadedReference } from './plan_verification';
+
+const bundle = JSON.stringify({
+  chemicalIndex: [
+    { 'Chemical name': 'Sulfuric acid', 'Group No.': 2 },
+    { 'Chemical name': 'Methanol', 'Group No.': 20, 'UN': '1230' },
+    { 'Chemical name': 'Ethanol', 'Group No.': 20 },
+    { 'Chemical name': 'Ammonium nitrate solution', 'Group No.': 0 },
+    { 'Chemical name': 'Ammonium nitrate solution', 'Group No.': 2 }
+  ],
+  compatibilityChart: [
+    { 'REACTIVE GROUP': '0. Unassigned' },
+    { 'REACTIVE GROUP': '2. Sulfuric acids', '20': 'X' },
+    { 'REACTIVE GROUP': '20. Alcohols', '2': 'X' }
+  ],
+  compatibleExceptions: [{ 'Chemical Name': 'Methanol', 'Compatible Chemical Name': 'Ethanol' }],
+  incompatibleExceptions: [{ 'Chemical Name': 'Ethanol', 'Incompatible Group': '0' }]
+});
+
+const vessel = {
+  name: 'Test',
+  tanks: [
+    { id: 't1', label: '1P', position: { row: 0, col: 0 } },
+    { id: 't2', label: '1S', position: { row: 0, col: 1 } }
+  ],
+  adjacency: [{ from: 't1', to: 't2', type: 'bulkhead' }]
+};
+
+const planFile = (tanks: Record<string, any>) => readPlanFile(JSON.stringify({ name: 'Voyage 12', vessel, tanks }));
+
+const reference = (): Promise<LoadedReference> => loadReference({ bundle: { fileName: 'reference.json', text: bundle } });
+
+describe('loadReference', () => {
+  it('rejects reference data that fails validation', async () => {
+    const broken = bundle.replace('"Group No.":20,"UN"', '"Group No.":30,"UN"');
+    await expect(loadReference({ bundle: { fileName: 'reference.json', text: broken } }))
+      .rejects.toThrow('reference.json row 2: Group 30 for Methanol is not defined in the compatibility chart.');
+  });
+
+  it('rejects a group that is not a number', async () => {
+    const broken = bundle.replace('"Group No.":20,"UN"', '"Group No.":"twenty","UN"');
+    await expect(loadReference({ bundle: { fileName: 'reference.json', text: broken } }))
+      .rejects.toThrow("Reference data rejected: 1 error(s) found.\nreference.json row 2: Group 'twenty' for Methanol is not a number.");
+  });
+
+  it('records a hash of the bundle', async () => {
+    const { sources } = await reference();
+    expect(sources).toEqual([{ file: 'bundle', fileName: 'reference.json', sha256: expect.stringMatching(/^[0-9a-f]{64}$/) }]);
+  });
+});
+
+describe('readPlanFile', () => {
+  it('accepts tanks keyed by label and rejects tanks the vessel does not have', () => {
+    expect(Object.keys(planFile({ '1P': { chemical: 'Methanol' } }).tanks)).toContain('t1');
+    expect(() => planFile({ '9P': { chemical: 'Methanol' } })).toThrow('assigns cargo to tank(s) 9P');
+    expect(() => readPlanFile('{')).toThrow('Stowage plan is not valid JSON');
+  });
+});
+
+describe('resolvePlanTanks', () => {
+  it('takes the group from the index, whatever chemical data the plan carries', async () => {
+    const { referenceData } = await reference();
+    const plan = planFile({
+      '1P': { chemical: 'UN 1230', chemicalData: { name: 'Methanol', group: 43 } }
+    });
+    expect(resolvePlanTanks(plan, referenceData).t1).toMatchObject({ chemical: 'Methanol', group: 20 });
+  });
+
+  it('rejects a declared group that differs from the index', async () => {
+    const { referenceData } = await reference();
+    const plan = planFile({
+      '1P': { chemical: 'Sulfuric acid', group: 20, chemicalData: { name: 'Sulfuric acid', group: 20 } },
+      '1S': {
+        chemical: 'Methanol',
+        group: 20,
+        components: [{ chemical: 'Methanol', group: 20, proportion: 60 }, { chemical: 'Ethanol', group: 4, proportion: 40 }]
+      }
+    });
+    expect(() => resolvePlanTanks(plan, referenceData)).toThrow(
+      'Tank 1P: the plan gives Sulfuric acid group 20, but the chemical index has group 2.\n' +
+      'Tank 1S: the plan gives Ethanol group 4, but the chemical index has group 20.'
+    );
+  });
+
+  it('checks previous cargoes against the index too', async () => {
+    const { referenceData } = await reference();
+    const plan = planFile({ '1P': { chemical: '', group: null, previousCargoes: [{ chemical: 'Sulfuric acid', group: 20 }] } });
+    expect(() => resolvePlanTanks(plan, referenceData)).toThrow('Tank 1P: the plan gives Sulfuric acid group 20');
+  });
+
+  it('tells index rows sharing a name apart by the declared group', async () => {
+    const { referenceData } = await reference();
+    expect(resolvePlanTanks(planFile({ '1P': { chemical: 'Ammonium nitrate solution', group: 2 } }), referenceData).t1.group).toBe(2);
+    expect(() => resolvePlanTanks(planFile({ '1P': { chemical: 'Ammonium nitrate solution' } }), referenceData))
+      .toThrow("'Ammonium nitrate solution' matches several chemicals");
+  });
+
+  it('looks up cargo names and blends in the index', async () => {
+    const { referenceData } = await reference();
+    const tanks = resolvePlanTanks(planFile({ '1P': { chemical: 'UN 1230' }, '1S': { chemical: 'Methanol 60% + Ethanol 40%' } }), referenceData);
+    expect(tanks.t1).toMatchObject({ chemical: 'Methanol', group: 20 });
+    expect(tanks.t2.components).toHaveLength(2);
+  });
+
+  it('lists every cargo it cannot find', async () => {
+    const { referenceData } = await reference();
+    expect(() => resolvePlanTanks(planFile({ '1P': { chemical: 'Unobtainium' }, '1S': { chemical: 'Kryptonite' } }), referenceData)).toThrow(
+      "Tank 1P: 'Unobtainium' is not in the approved cargo index.\n" +
+      "Tank 1S: 'Kryptonite' is not in the approved cargo index."
+    );
+  });
+});
+
+describe('verifyPlan', () => {
+  it('finds the conflict a misdeclared group would hide', async () => {
+    const loaded = await reference();
+    const plan = planFile({ '1P': { chemical: 'Sulfuric acid' }, '1S': { chemical: 'Methanol', group: 20 } });
+    const report = await verifyPlan(plan, loaded);
+    expect(report.summary.status).toBe('ISSUES FOUND');
+    expect(report.cargoManifest).toEqual([
+      expect.objectContaining({ tank: '1P', chemical: 'Sulfuric acid', group: 2 }),
+      expect.objectContaining({ tank: '1S', chemical: 'Methanol', group: 20 })
+    ]);
+  });
+});
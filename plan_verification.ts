@@ -0,0 +1,207 @@
+// Verification of a stowage plan file against reference data without the
+// browser: the same validation, analysis and report as the web tool. Callers
+// do their own file reading, so this serves the CLI and the local API alike.
+import { DEFAULT_ADJACENCY_POLICY, isLoaded, toTank } from './cargo_compatibility_engine';
+import type { AdjacencyPolicy, Chemical, ReactiveGroup, ReferenceData, Tank, TankComponent } from './cargo_compatibility_engine';
+import { checkCarriage, readCargoRequirements } from './cargo_requirements';
+import type { CargoRequirements } from './cargo_requirements';
+import { resolveChemical } from './chemical_lookup';
+import { evaluateCompanyRules, loadCompanyRules } from './company_rules';
+import type { CompanyRuleSet } from './company_rules';
+import { generateComplianceReport } from './compliance_report';
+import type { ComplianceReport, ReferenceSource } from './compliance_report';
+import { sha256Hex } from './content_hash';
+import { symmetrizeChart } from './reference_data_audit';
+import { buildReferenceData, readReferenceBundle, readReferenceFile, REFERENCE_FILE_KEYS, rowsOf } from './reference_data_loader';
+import type { ParsedReferenceFiles, ReferenceFileKey } from './reference_data_loader';
+import { validateReferenceFiles } from './reference_data_schema';
+import { parsePlan } from './stowage_plan_storage';
+import type { SavedStowagePlan } from './stowage_plan_storage';
+import { isBlendText, resolveBlend } from './tank_blends';
+import { assessCleaning } from './tank_cleaning';
+import { assessQuantities, DEFAULT_FILL_LIMIT } from './tank_quantities';
+import { canHoldCargo, findTankByLabel, parseVesselProfile, serializeVesselProfile, tankLabel } from './vessel_profile';
+
+export interface VerificationOptions {
+  adjacencyPolicy?: AdjacencyPolicy;
+  // The web tool defaults to a symmetric chart
+  symmetricChart?: boolean;
+  // Percent of tank capacity; defaults to DEFAULT_FILL_LIMIT
+  fillLimit?: number;
+}
+
+export type ReferenceInput = (
+  | { bundle: { fileName: string; text: string } }
+  | { files: Record<ReferenceFileKey, { fileName: string; data: ArrayBuffer }> }
+) & {
+  // Optional cargo requirements file, checked against the tank attributes
+  requirements?: { fileName: string; data: ArrayBuffer } | null;
+  companyRules?: { fileName: string; text: string } | null;
+};
+
+export interface LoadedReference {
+  // As loaded; the chart is normalized per verification
+  referenceData: ReferenceData;
+  sources: ReferenceSource[];
+  // Empty when no requirements file was given
+  requirements: CargoRequirements;
+  companyRules: CompanyRuleSet | null;
+}
+
+// Same validation as the Load Database Files button; any error rejects the data
+export const loadReference = async (input: ReferenceInput): Promise<LoadedReference> => {
+  const sources: ReferenceSource[] = [];
+  let files: ParsedReferenceFiles;
+  if ('bundle' in input) {
+    files = readReferenceBundle(input.bundle.text, input.bundle.fileName);
+    sources.push({ file: 'bundle', fileName: input.bundle.fileName, sha256: await sha256Hex(input.bundle.text) });
+  } else {
+    files = {} as ParsedReferenceFiles;
+    for (const key of REFERENCE_FILE_KEYS) {
+      const { fileName, data } = input.files[key];
+      files[key] = readReferenceFile(fileName, data);
+      sources.push({ file: key, fileName, sha256: await sha256Hex(data) });
+    }
+  }
+
+  const validation = validateReferenceFiles(files);
+  if (validation.fatal) {
+    const errors = validation.diagnostics
+      .filter(diagnostic => diagnostic.severity === 'error')
+      .map(diagnostic => `${diagnostic.fileName}${diagnostic.row !== null ? ` row ${diagnostic.row}` : ''}: ${diagnostic.message}`);
+    throw new Error(`Reference data rejected: ${validation.errorCount} error(s) found.\n${errors.join('\n')}`);
+  }
+
+  let requirements: CargoRequirements = {};
+  if (input.requirements) {
+    const { fileName, data } = input.requirements;
+    requirements = readCargoRequirements(readReferenceFile(fileName, data));
+    sources.push({ file: 'cargoRequirements', fileName, sha256: await sha256Hex(data) });
+  }
+  let companyRules: CompanyRuleSet | null = null;
+  if (input.companyRules) {
+    const loaded = await loadCompanyRules(input.companyRules);
+    companyRules = loaded.ruleSet;
+    sources.push(loaded.source);
+  }
+  return { referenceData: buildReferenceData(rowsOf(files)), sources, requirements, companyRules };
+};
+
+// Like parsePlan, but tanks may be keyed by label as well as id, and a tank
+// the vessel does not have is an error rather than silently dropped
+export const readPlanFile = (json: string): SavedStowagePlan => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Stowage plan is not valid JSON: ${(error as Error).message}`);
+  }
+  if (!data || typeof data !== 'object' || !data.vessel || !data.tanks || typeof data.tanks !== 'object') {
+    throw new Error('Stowage plan must contain "vessel" and "tanks".');
+  }
+
+  const vessel = parseVesselProfile(serializeVesselProfile(data.vessel));
+  const tanks: Record<string, any> = {};
+  const unknown: string[] = [];
+  Object.entries(data.tanks).forEach(([key, tank]) => {
+    const vesselTank = findTankByLabel(vessel, key);
+    if (!vesselTank || !canHoldCargo(vesselTank)) unknown.push(key);
+    else tanks[vesselTank.id] = tank;
+  });
+  if (unknown.length > 0) {
+    throw new Error(`Stowage plan assigns cargo to tank(s) ${unknown.join(', ')}, which are not cargo tanks of ${vessel.name}.`);
+  }
+  return parsePlan(JSON.stringify({ ...data, tanks }));
+};
+
+export const normalizedReferenceData = (referenceData: ReferenceData, options: VerificationOptions = {}): ReferenceData =>
+  options.symmetricChart === false ? referenceData : { ...referenceData, chart: symmetrizeChart(referenceData.chart) };
+
+// The index is the only source of reactive groups: a group the plan declares
+// is checked against it, never trusted. Rows sharing a name (e.g. by
+// concentration) are told apart by the declared group.
+const indexChemical = (name: string, declaredGroup: ReactiveGroup | null | undefined, referenceData: ReferenceData): Chemical => {
+  const declared = declaredGroup === null || declaredGroup === undefined ? null : Number(declaredGroup);
+  const lookup = resolveChemical(name, referenceData.chemicals);
+  if (lookup.status === 'not_found') {
+    throw new Error(`'${name}' is not in the approved cargo index.`);
+  }
+  if (lookup.status === 'ambiguous') {
+    const sameName = lookup.candidates.filter(match => match.matchType === 'name' && match.chemical.group === declared);
+    if (declared === null || sameName.length !== 1) {
+      throw new Error(`'${name}' matches several chemicals (${lookup.candidates.map(candidate => candidate.chemical.name).join(', ')}).`);
+    }
+    return sameName[0].chemical;
+  }
+  if (declared !== null && declared !== lookup.chemical.group) {
+    throw new Error(`the plan gives ${lookup.chemical.name} group ${declaredGroup}, but the chemical index has group ${lookup.chemical.group ?? 'none'}.`);
+  }
+  return lookup.chemical;
+};
+
+const indexComponent = (entry: TankComponent, referenceData: ReferenceData): TankComponent => {
+  const chemical = indexChemical(entry.chemical, entry.group, referenceData);
+  return { ...entry, chemical: chemical.name, group: chemical.group, chemicalData: chemical };
+};
+
+// Plans from other systems may carry only cargo names; look them up the way
+// typing them into a tank card would. Names, blend components and previous
+// cargoes are looked up again even when the plan carries chemical data.
+export const resolvePlanTanks = (plan: SavedStowagePlan, referenceData: ReferenceData): Record<string, Tank> => {
+  const errors: string[] = [];
+  const tanks: Record<string, Tank> = {};
+  Object.entries(plan.tanks).forEach(([tankId, tank]) => {
+    try {
+      const previousCargoes = tank.previousCargoes && tank.previousCargoes.map(cargo => indexComponent(cargo, referenceData));
+      const kept = { quantity: tank.quantity, quantityUnit: tank.quantityUnit, density: tank.density, previousCargoes };
+      if (!isLoaded(tank)) {
+        tanks[tankId] = { ...plan.tanks[tankId], ...(previousCargoes ? { previousCargoes } : {}) };
+        return;
+      }
+      if (tank.components && tank.components.length > 0) {
+        const components = tank.components.map(component => indexComponent(component, referenceData));
+        const main = components.reduce((largest, component) =>
+          (component.proportion || 0) > (largest.proportion || 0) ? component : largest
+        );
+        tanks[tankId] = { chemical: main.chemical, group: main.group, chemicalData: main.chemicalData, components, ...kept };
+      } else if (isBlendText(tank.chemical)) {
+        tanks[tankId] = { ...resolveBlend(tank.chemical, referenceData.chemicals), ...kept };
+      } else {
+        tanks[tankId] = { ...toTank(indexChemical(tank.chemical, tank.group, referenceData)), ...kept };
+      }
+    } catch (error) {
+      errors.push(`Tank ${tankLabel(plan.vessel, tankId)}: ${(error as Error).message}`);
+    }
+  });
+  if (errors.length > 0) throw new Error(errors.join('\n'));
+  return tanks;
+};
+
+// A caller verifying many plans can normalize the reference data once and pass it in
+export const verifyPlan = async (
+  plan: SavedStowagePlan,
+  reference: LoadedReference,
+  options: VerificationOptions = {},
+  referenceData = normalizedReferenceData(reference.referenceData, options)
+): Promise<ComplianceReport> => {
+  const adjacencyPolicy = options.adjacencyPolicy || DEFAULT_ADJACENCY_POLICY;
+  const tanks = resolvePlanTanks(plan, referenceData);
+  return generateComplianceReport({
+    planName: plan.name,
+    notes: plan.notes,
+    vessel: plan.vessel,
+    tanks,
+    adjacencyPolicy,
+    chartNormalization: options.symmetricChart === false ? 'as loaded' : 'symmetric',
+    referenceData,
+    cleaning: assessCleaning(tanks, referenceData),
+    carriage: checkCarriage(plan.vessel, tanks, reference.requirements),
+    quantities: assessQuantities(plan.vessel, tanks, options.fillLimit ?? DEFAULT_FILL_LIMIT),
+    companyRules: reference.companyRules && {
+      name: reference.companyRules.name,
+      violations: evaluateCompanyRules({ vessel: plan.vessel, tanks }, reference.companyRules, reference.requirements)
+    },
+    referenceSources: reference.sources,
+    changeLog: plan.changeLog
+  });
+};
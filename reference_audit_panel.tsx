@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { AlertTriangle, CheckCircle, Search } from 'lucide-react';
+import type { AuditReport } from './reference_data_audit';
+
+interface ReferenceAuditPanelProps {
+  report: AuditReport;
+  useSymmetricChart: boolean;
+  onToggleSymmetricChart: (enabled: boolean) => void;
+}
+
+const ReferenceAuditPanel = ({ report, useSymmetricChart, onToggleSymmetricChart }: ReferenceAuditPanelProps) => {
+  const [expanded, setExpanded] = useState(false);
+
+  const sections = [
+    {
+      title: 'Chart asymmetries',
+      items: report.asymmetries.map(a =>
+        `Group ${a.marked} × Group ${a.unmarked} is marked incompatible, but Group ${a.unmarked} × Group ${a.marked} is not.`
+      )
+    },
+    {
+      title: 'Exception rows naming chemicals not in the index',
+      items: report.unknownExceptionChemicals.map(u =>
+        `${u.list === 'compatible' ? 'Compatible' : 'Incompatible'} exceptions row ${u.row}: '${u.chemical}'` +
+        (u.nearMatch ? ` (index has '${u.nearMatch}'; names must match exactly)` : '')
+      )
+    },
+    {
+      title: 'Compatible exceptions contradicted by incompatible exceptions',
+      items: report.contradictions.map(c =>
+        `${c.chemical1} ↔ ${c.chemical2} (compatible row ${c.compatibleRow}) but ${c.incompatibleChemical} bans group ${c.group} (incompatible row ${c.incompatibleRow}).`
+      )
+    },
+    {
+      title: 'Groups used by chemicals but missing from the chart',
+      items: report.missingGroups.map(m =>
+        `Group ${m.group}: ${m.chemicals.slice(0, 5).join(', ')}${m.chemicals.length > 5 ? ` and ${m.chemicals.length - 5} more` : ''}`
+      )
+    }
+  ];
+
+  return (
+    <div className={`p-4 border rounded-lg ${report.issueCount > 0 ? 'bg-yellow-50 border-yellow-200' : 'bg-green-50 border-green-200'}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          {report.issueCount > 0
+            ? <AlertTriangle className="w-5 h-5 text-yellow-500" />
+            : <CheckCircle className="w-5 h-5 text-green-500" />}
+          <h3 className="font-semibold text-gray-800">
+            Reference Data Audit: {report.issueCount === 0 ? 'no consistency issues' : `${report.issueCount} issue(s)`}
+          </h3>
+        </div>
+        {report.issueCount > 0 && (
+          <button
+            onClick={() => setExpanded(prev => !prev)}
+            className="flex items-center gap-1 text-sm text-blue-700 hover:underline"
+          >
+            <Search className="w-4 h-4" />
+            {expanded ? 'Hide details' : 'Show details'}
+          </button>
+        )}
+      </div>
+
+      <label className="flex items-center gap-2 mt-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={useSymmetricChart}
+          onChange={(e) => onToggleSymmetricChart(e.target.checked)}
+        />
+        Analyze with the symmetric chart (a pair is incompatible if either direction is marked)
+      </label>
+
+      {expanded && (
+        <div className="mt-3 space-y-3">
+          {sections.filter(section => section.items.length > 0).map(section => (
+            <div key={section.title}>
+              <div className="font-medium text-sm text-gray-800 mb-1">{section.title} ({section.items.length})</div>
+              <ul className="list-disc list-inside text-sm text-gray-700 max-h-40 overflow-y-auto bg-white border rounded p-2">
+                {section.items.map((item, index) => <li key={index}>{item}</li>)}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReferenceAuditPanel;
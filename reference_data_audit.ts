@@ -0,0 +1,147 @@
+// Consistency audit of loaded reference data. Unlike schema validation this
+// looks across files: chart symmetry, exception rows against the index, and
+// exception lists against each other.
+import type { CompatibilityChart, ReactiveGroup, ReferenceData } from './cargo_compatibility_engine';
+import { sourceRowNumber } from './reference_data_loader';
+
+export interface ChartAsymmetry {
+  // chart[marked][unmarked] is 'X' but chart[unmarked][marked] is not
+  marked: ReactiveGroup;
+  unmarked: ReactiveGroup;
+}
+
+export interface UnknownExceptionChemical {
+  list: 'compatible' | 'incompatible';
+  row: number;
+  chemical: string;
+  // Index entry that differs only in case or spacing, if any
+  nearMatch: string | null;
+}
+
+export interface ExceptionContradiction {
+  chemical1: string;
+  chemical2: string;
+  compatibleRow: number;
+  incompatibleRow: number;
+  incompatibleChemical: string;
+  group: ReactiveGroup;
+}
+
+export interface MissingChartGroup {
+  group: ReactiveGroup;
+  chemicals: string[];
+}
+
+export interface AuditReport {
+  asymmetries: ChartAsymmetry[];
+  unknownExceptionChemicals: UnknownExceptionChemical[];
+  contradictions: ExceptionContradiction[];
+  missingGroups: MissingChartGroup[];
+  issueCount: number;
+}
+
+const normalizeName = (name: string) => name.toString().toLowerCase().replace(/\s+/g, ' ').trim();
+
+const groupsOf = (value: any): ReactiveGroup[] =>
+  value === undefined || value === null
+    ? []
+    : value.toString().split(',').map((g: string) => parseInt(g.trim())).filter((g: number) => !isNaN(g));
+
+// Incompatibility in either direction marks both; the conservative reading
+export const symmetrizeChart = (chart: CompatibilityChart): CompatibilityChart => {
+  const symmetric: CompatibilityChart = {};
+  Object.keys(chart).forEach(key => {
+    const group1 = Number(key);
+    symmetric[group1] = symmetric[group1] || {};
+    Object.keys(chart[group1] || {}).forEach(other => {
+      const group2 = Number(other);
+      symmetric[group1][group2] = 'X';
+      symmetric[group2] = symmetric[group2] || {};
+      symmetric[group2][group1] = 'X';
+    });
+  });
+  return symmetric;
+};
+
+export const auditReferenceData = (referenceData: ReferenceData): AuditReport => {
+  const { chart, chemicals, compatibleExceptions, incompatibleExceptions } = referenceData;
+
+  const asymmetries: ChartAsymmetry[] = [];
+  Object.keys(chart).forEach(key => {
+    const group1 = Number(key);
+    Object.keys(chart[group1] || {}).forEach(other => {
+      const group2 = Number(other);
+      if (!(chart[group2] && chart[group2][group1])) {
+        asymmetries.push({ marked: group1, unmarked: group2 });
+      }
+    });
+  });
+
+  const indexNames = new Set(chemicals.map(chem => chem['Chemical name']));
+  const normalizedIndex = new Map<string, string>();
+  chemicals.forEach(chem => normalizedIndex.set(normalizeName(chem['Chemical name']), chem['Chemical name']));
+  const groupOfChemical = new Map<string, ReactiveGroup>();
+  chemicals.forEach(chem => {
+    if (!groupOfChemical.has(chem['Chemical name'])) {
+      groupOfChemical.set(chem['Chemical name'], chem['Group No.']);
+    }
+  });
+
+  // Exceptions compare names exactly, so a case or spacing slip disables the row
+  const unknownExceptionChemicals: UnknownExceptionChemical[] = [];
+  const checkName = (list: UnknownExceptionChemical['list'], row: number, chemical: any) => {
+    if (!chemical || indexNames.has(chemical)) return;
+    unknownExceptionChemicals.push({
+      list,
+      row,
+      chemical: chemical.toString(),
+      nearMatch: normalizedIndex.get(normalizeName(chemical)) || null
+    });
+  };
+  compatibleExceptions.forEach((ex, index) => {
+    checkName('compatible', sourceRowNumber(ex, index), ex['Chemical Name']);
+    checkName('compatible', sourceRowNumber(ex, index), ex['Compatible Chemical Name']);
+  });
+  incompatibleExceptions.forEach((ex, index) => {
+    checkName('incompatible', sourceRowNumber(ex, index), ex['Chemical Name']);
+  });
+
+  // A pair declared compatible while one side bans the other's group
+  const contradictions: ExceptionContradiction[] = [];
+  compatibleExceptions.forEach((compatible, compatibleIndex) => {
+    const pair = [compatible['Chemical Name'], compatible['Compatible Chemical Name']];
+    if (!pair[0] || !pair[1]) return;
+    incompatibleExceptions.forEach((incompatible, incompatibleIndex) => {
+      const side = pair.indexOf(incompatible['Chemical Name']);
+      if (side === -1) return;
+      const otherGroup = groupOfChemical.get(pair[1 - side]);
+      if (otherGroup === undefined || !groupsOf(incompatible['Incompatible Group']).includes(otherGroup)) return;
+      contradictions.push({
+        chemical1: pair[0],
+        chemical2: pair[1],
+        compatibleRow: sourceRowNumber(compatible, compatibleIndex),
+        incompatibleRow: sourceRowNumber(incompatible, incompatibleIndex),
+        incompatibleChemical: incompatible['Chemical Name'],
+        group: otherGroup
+      });
+    });
+  });
+
+  const missing = new Map<ReactiveGroup, string[]>();
+  chemicals.forEach(chem => {
+    const group = chem['Group No.'];
+    if (group === undefined || group === null || group === '' || chart[group]) return;
+    missing.set(group, [...(missing.get(group) || []), chem['Chemical name']]);
+  });
+  const missingGroups = Array.from(missing.entries())
+    .map(([group, names]) => ({ group, chemicals: names }))
+    .sort((a, b) => a.group - b.group);
+
+  return {
+    asymmetries,
+    unknownExceptionChemicals,
+    contradictions,
+    missingGroups,
+    issueCount: asymmetries.length + unknownExceptionChemicals.length + contradictions.length + missingGroups.length
+  };
+};
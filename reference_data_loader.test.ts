@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { analyze, findChemical, toTank } from './cargo_compatibility_engine';
+import { buildReferenceData, readCsv, readReferenceBundle, readReferenceFile, rowsOf, sourceRowNumber } from './reference_data_loader';
+import { createGridProfile } from './vessel_profile';
+
+describe('readCsv', () => {
+  it('reads quoted fields, numbers and blank cells like a spreadsheet', () => {
+    const { headers, rows } = readCsv('\uFEFFChemical name,Group No.,Synonyms\r\n"Acid, acetic",4,\r\n\r\nMethanol,20,"Wood ""spirit"""\r\n');
+    expect(headers).toEqual(['Chemical name', 'Group No.', 'Synonyms']);
+    expect(rows).toEqual([
+      { 'Chemical name': 'Acid, acetic', 'Group No.': 4 },
+      { 'Chemical name': 'Methanol', 'Group No.': 20, 'Synonyms': 'Wood "spirit"' }
+    ]);
+  });
+
+  it('detects semicolon separated files', () => {
+    expect(readCsv('Chemical name;Group No.\nWater;43').rows).toEqual([{ 'Chemical name': 'Water', 'Group No.': 43 }]);
+  });
+
+  it('numbers rows by the line they came from', () => {
+    const { rows } = readCsv('Chemical name\n\nWater');
+    expect(sourceRowNumber(rows[0], 0)).toBe(3);
+  });
+});
+
+describe('readReferenceFile', () => {
+  it('reads a JSON array of rows', () => {
+    const file = readReferenceFile('index.json', '[{"Chemical name":"Water","Group No.":43}]');
+    expect(file).toMatchObject({ fileName: 'index.json', headers: ['Chemical name', 'Group No.'] });
+  });
+
+  it('rejects JSON that is not an array and unknown file types', () => {
+    expect(() => readReferenceFile('index.json', '{}')).toThrow('index.json: expected a JSON array of rows.');
+    expect(() => readReferenceFile('index.txt', '')).toThrow("index.txt: unsupported file type '.txt'");
+  });
+});
+
+describe('readReferenceBundle', () => {
+  it('names the dataset a bundle is missing', () => {
+    expect(() => readReferenceBundle('{"chemicalIndex":[]}')).toThrow('Reference bundle is missing the "compatibilityChart" array (Cargo Compatibility Chart).');
+  });
+
+  it('builds reference data from the bundle rows', () => {
+    const files = readReferenceBundle(JSON.stringify({
+      chemicalIndex: [{ 'Chemical name': 'Acetic acid', 'Group No.': 4 }, { 'Group No.': 5 }],
+      compatibilityChart: [{ 'REACTIVE GROUP': '4. Organic acids', '5': 'X' }],
+      compatibleExceptions: [],
+      incompatibleExceptions: []
+    }));
+    const data = buildReferenceData(rowsOf(files));
+    expect(data.chemicals).toEqual([{ 'Chemical name': 'Acetic acid', 'Group No.': 4 }]);
+    expect(data.chart).toEqual({ 4: { 5: 'X' } });
+  });
+
+  it('reads groups given as text as numbers, so exceptions on them apply', () => {
+    const files = readReferenceBundle(JSON.stringify({
+      chemicalIndex: [{ 'Chemical name': 'Methanol', 'Group No.': '20' }, { 'Chemical name': 'Acetic acid', 'Group No.': ' 4 ' }],
+      compatibilityChart: [{ 'REACTIVE GROUP': '4. Organic acids' }, { 'REACTIVE GROUP': '20. Alcohols' }],
+      compatibleExceptions: [],
+      incompatibleExceptions: [{ 'Chemical Name': 'Methanol', 'Incompatible Group': '4' }]
+    }));
+    const data = buildReferenceData(rowsOf(files));
+    expect(data.chemicals.map(row => row['Group No.'])).toEqual([20, 4]);
+
+    const vessel = createGridProfile(2, 1);
+    const tank = (name: string) => toTank(findChemical(name, data.chemicals)!);
+    const result = analyze({ vessel, tanks: { '0-0': tank('Methanol'), '0-1': tank('Acetic acid') } }, data);
+    expect(result.problems[0]).toMatchObject({ tank1: '0-0', tank2: '0-1', compatibility: 'incompatible_exception' });
+  });
+});
@@ -0,0 +1,218 @@
+// Parsing of the four reference datasets. Works entirely offline: spreadsheets
+// go through the bundled xlsx package, CSV and JSON are parsed here. Nothing in
+// this module touches the DOM, so the same code serves the browser and Node.
+import * as XLSX from 'xlsx';
+import { buildCompatibilityChart } from './cargo_compatibility_engine';
+import type { ReferenceData } from './cargo_compatibility_engine';
+import { toGroup } from './chemical_lookup';
+
+export type ReferenceFileKey = 'chemicalIndex' | 'compatibilityChart' | 'compatibleExceptions' | 'incompatibleExceptions';
+
+export type ReferenceRow = Record<string, any>;
+
+export type ReferenceRows = Record<ReferenceFileKey, ReferenceRow[]>;
+
+// Rows plus where they came from, for diagnostics and provenance
+export interface ParsedReferenceFile {
+  fileName: string;
+  sheet: string;
+  headers: string[];
+  rows: ReferenceRow[];
+}
+
+export type ParsedReferenceFiles = Record<ReferenceFileKey, ParsedReferenceFile>;
+
+export const REFERENCE_FILE_KEYS: ReferenceFileKey[] = [
+  'chemicalIndex',
+  'compatibilityChart',
+  'compatibleExceptions',
+  'incompatibleExceptions'
+];
+
+export const REFERENCE_FILE_LABELS: Record<ReferenceFileKey, string> = {
+  chemicalIndex: 'Chemical Index',
+  compatibilityChart: 'Cargo Compatibility Chart',
+  compatibleExceptions: 'Compatible Exceptions',
+  incompatibleExceptions: 'Incompatible Exceptions'
+};
+
+export const SUPPORTED_EXTENSIONS = ['.xlsx', '.xls', '.csv', '.json'];
+
+const extensionOf = (fileName: string) => {
+  const dot = fileName.lastIndexOf('.');
+  return dot >= 0 ? fileName.slice(dot).toLowerCase() : '';
+};
+
+// SheetJS tags each row with a hidden 0-based __rowNum__; CSV rows get the same
+// so diagnostics can point at the line a person sees in a spreadsheet
+const tagRowNumber = (row: ReferenceRow, rowNum: number) => {
+  Object.defineProperty(row, '__rowNum__', { value: rowNum, enumerable: false });
+  return row;
+};
+
+export const sourceRowNumber = (row: ReferenceRow, index: number) =>
+  row && typeof row.__rowNum__ === 'number' ? row.__rowNum__ + 1 : index + 1;
+
+// Spreadsheets hand back numbers for numeric cells; do the same for CSV so a
+// group read from either format compares equal
+const coerceCell = (cell: string) => {
+  const trimmed = cell.trim();
+  return /^-?\d+(\.\d+)?$/.test(trimmed) ? Number(trimmed) : trimmed;
+};
+
+// RFC 4180 CSV with a header row. Semicolon-separated files (common with
+// European spreadsheet exports) are detected from the header line.
+export const readCsv = (text: string): { headers: string[]; rows: ReferenceRow[] } => {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  if (records.length === 0) return { headers: [], rows: [] };
+  const headers = records[0].map(header => header.trim());
+
+  // Like sheet_to_json, leave blank cells out and skip blank lines
+  const rows = records
+    .map((cells, recordIndex) => ({ cells, recordIndex }))
+    .slice(1)
+    .filter(({ cells }) => cells.some(cell => cell.trim() !== ''))
+    .map(({ cells, recordIndex }) => {
+      const row: ReferenceRow = {};
+      headers.forEach((header, index) => {
+        const cell = cells[index];
+        if (header && cell !== undefined && cell.trim() !== '') {
+          row[header] = coerceCell(cell);
+        }
+      });
+      return tagRowNumber(row, recordIndex);
+    });
+
+  return { headers, rows };
+};
+
+export const parseCsv = (text: string): ReferenceRow[] => readCsv(text).rows;
+
+const readSpreadsheet = (data: ArrayBuffer | Uint8Array) => {
+  const workbook = XLSX.read(data);
+  const sheetName = workbook.SheetNames[0];
+  const sheet = workbook.Sheets[sheetName];
+  const [headerRow] = XLSX.utils.sheet_to_json(sheet, { header: 1 }) as any[][];
+  return {
+    sheet: sheetName,
+    headers: (headerRow || []).map(header => (header === undefined || header === null ? '' : header.toString().trim())),
+    rows: XLSX.utils.sheet_to_json(sheet) as ReferenceRow[]
+  };
+};
+
+const headersOf = (rows: ReferenceRow[]) =>
+  Array.from(new Set(rows.flatMap(row => (row && typeof row === 'object' ? Object.keys(row) : []))));
+
+const decode = (data: ArrayBuffer | Uint8Array | string) =>
+  typeof data === 'string' ? data : new TextDecoder('utf-8').decode(data);
+
+// A single reference file; the format is taken from its extension
+export const readReferenceFile = (fileName: string, data: ArrayBuffer | Uint8Array | string): ParsedReferenceFile => {
+  const extension = extensionOf(fileName);
+  switch (extension) {
+    case '.xlsx':
+    case '.xls':
+      if (typeof data === 'string') {
+        throw new Error(`${fileName}: spreadsheet files must be read as binary data.`);
+      }
+      return { fileName, ...readSpreadsheet(data) };
+    case '.csv':
+      return { fileName, sheet: fileName, ...readCsv(decode(data)) };
+    case '.json': {
+      let rows: any;
+      try {
+        rows = JSON.parse(decode(data));
+      } catch (error) {
+        throw new Error(`${fileName}: not valid JSON: ${(error as Error).message}`);
+      }
+      if (!Array.isArray(rows)) {
+        throw new Error(`${fileName}: expected a JSON array of rows.`);
+      }
+      return { fileName, sheet: fileName, headers: headersOf(rows), rows };
+    }
+    default:
+      throw new Error(`${fileName}: unsupported file type '${extension || 'none'}'. Use ${SUPPORTED_EXTENSIONS.join(', ')}.`);
+  }
+};
+
+export const parseReferenceFile = (fileName: string, data: ArrayBuffer | Uint8Array | string): ReferenceRow[] =>
+  readReferenceFile(fileName, data).rows;
+
+// All four datasets in one JSON document, keyed like ReferenceRows
+export const readReferenceBundle = (json: string, fileName = 'reference-bundle.json'): ParsedReferenceFiles => {
+  let bundle: any;
+  try {
+    bundle = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Reference bundle is not valid JSON: ${(error as Error).message}`);
+  }
+
+  const files = {} as ParsedReferenceFiles;
+  REFERENCE_FILE_KEYS.forEach(key => {
+    if (!bundle || !Array.isArray(bundle[key])) {
+      throw new Error(`Reference bundle is missing the "${key}" array (${REFERENCE_FILE_LABELS[key]}).`);
+    }
+    files[key] = { fileName, sheet: key, headers: headersOf(bundle[key]), rows: bundle[key] };
+  });
+  return files;
+};
+
+export const rowsOf = (files: ParsedReferenceFiles): ReferenceRows => {
+  const rows = {} as ReferenceRows;
+  REFERENCE_FILE_KEYS.forEach(key => { rows[key] = files[key].rows; });
+  return rows;
+};
+
+export const parseReferenceBundle = (json: string): ReferenceRows => rowsOf(readReferenceBundle(json));
+
+export const serializeReferenceBundle = (rows: ReferenceRows) => JSON.stringify(rows, null, 2);
+
+// Groups are converted once here so every lookup and check sees numbers,
+// whichever file format they came from
+export const buildReferenceData = (rows: ReferenceRows): ReferenceData => ({
+  chemicals: rows.chemicalIndex
+    .filter(row => row && row['Chemical name'])
+    .map(row => ({ ...row, 'Group No.': toGroup(row['Group No.']) })),
+  chart: buildCompatibilityChart(rows.compatibilityChart),
+  compatibleExceptions: rows.compatibleExceptions,
+  incompatibleExceptions: rows.incompatibleExceptions
+});
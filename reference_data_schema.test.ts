@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { readReferenceBundle } from './reference_data_loader';
+import { validateReferenceFiles } from './reference_data_schema';
+
+const bundle = (overrides: Record<string, any[]> = {}) => readReferenceBundle(JSON.stringify({
+  chemicalIndex: [
+    { 'Chemical name': 'Acetic acid', 'Group No.': 4 },
+    { 'Chemical name': 'Caustic soda', 'Group No.': 5 }
+  ],
+  compatibilityChart: [
+    { 'REACTIVE GROUP': '4. Organic acids', '5': 'X' },
+    { 'REACTIVE GROUP': '5. Caustics', '4': 'X' }
+  ],
+  compatibleExceptions: [{ 'Chemical Name': 'Caustic soda', 'Compatible Chemical Name': 'Acetic acid' }],
+  incompatibleExceptions: [{ 'Chemical Name': 'Acetic acid', 'Incompatible Group': '5' }],
+  ...overrides
+}));
+
+const errors = (report: ReturnType<typeof validateReferenceFiles>) =>
+  report.diagnostics.filter(diagnostic => diagnostic.severity === 'error').map(diagnostic => diagnostic.message);
+
+describe('validateReferenceFiles', () => {
+  it('accepts a consistent set of files', () => {
+    const report = validateReferenceFiles(bundle());
+    expect(report.fatal).toBe(false);
+    expect(report.errorCount).toBe(0);
+  });
+
+  it('rejects an index group the chart does not define', () => {
+    const report = validateReferenceFiles(bundle({
+      chemicalIndex: [{ 'Chemical name': 'Acetic acid', 'Group No.': 4 }, { 'Chemical name': 'Methanol', 'Group No.': 20 }]
+    }));
+    expect(report.fatal).toBe(true);
+    expect(errors(report)).toEqual(['Group 20 for Methanol is not defined in the compatibility chart.']);
+    expect(report.diagnostics[0]).toMatchObject({ file: 'chemicalIndex', row: 2, column: 'Group No.' });
+  });
+
+  it('rejects an index group that is not a number', () => {
+    const report = validateReferenceFiles(bundle({
+      chemicalIndex: [{ 'Chemical name': 'Acetic acid', 'Group No.': 'four' }]
+    }));
+    expect(errors(report)).toEqual(["Group 'four' for Acetic acid is not a number."]);
+  });
+
+  it('reads a group given as text the way the engine does', () => {
+    const report = validateReferenceFiles(bundle({
+      chemicalIndex: [{ 'Chemical name': 'Acetic acid', 'Group No.': ' 4 ' }, { 'Chemical name': 'Acetic acid', 'Group No.': 4 }]
+    }));
+    expect(report.errorCount).toBe(0);
+    expect(report.diagnostics.map(diagnostic => diagnostic.message)).toEqual(['Duplicate of row 1 (Acetic acid).']);
+  });
+
+  it('rejects a group cell that is neither a whole number nor its text', () => {
+    const report = validateReferenceFiles(bundle({
+      chemicalIndex: [{ 'Chemical name': 'Acetic acid', 'Group No.': 4.5 }, { 'Chemical name': 'Caustic soda', 'Group No.': true }]
+    }));
+    expect(errors(report)).toEqual(["Group '4.5' for Acetic acid is not a number.", "Group 'true' for Caustic soda is not a number."]);
+  });
+
+  it('rejects exception groups the chart does not define', () => {
+    const report = validateReferenceFiles(bundle({
+      incompatibleExceptions: [{ 'Chemical Name': 'Acetic acid', 'Incompatible Group': '5, 30' }]
+    }));
+    expect(errors(report)).toEqual(['Group 30 is not defined in the compatibility chart.']);
+  });
+
+  it('points at a header that differs only in case', () => {
+    const report = validateReferenceFiles(bundle({
+      chemicalIndex: [{ 'chemical name': 'Acetic acid', 'Group No.': 4 }]
+    }));
+    expect(errors(report)).toContain("Missing header 'Chemical name'; found 'chemical name' instead (headers are case-sensitive).");
+  });
+});
@@ -0,0 +1,209 @@
+// Declared schemas for the four reference files and row-level validation.
+// Loading is blocked while any diagnostic has severity 'error'.
+import { toGroup } from './chemical_lookup';
+import { REFERENCE_FILE_KEYS, REFERENCE_FILE_LABELS, sourceRowNumber } from './reference_data_loader';
+import type { ParsedReferenceFiles, ReferenceFileKey, ReferenceRow } from './reference_data_loader';
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  file: ReferenceFileKey;
+  fileName: string;
+  sheet: string;
+  row: number | null;
+  column: string | null;
+  message: string;
+}
+
+export interface ValidationReport {
+  diagnostics: Diagnostic[];
+  errorCount: number;
+  warningCount: number;
+  fatal: boolean;
+}
+
+// 'group' is a single reactive group number, 'group_list' a comma separated
+// list of them, 'chart_group' the "N. Name" label used by the chart rows
+export type ColumnType = 'text' | 'group' | 'group_list' | 'chart_group';
+
+export interface ColumnSchema {
+  name: string;
+  type: ColumnType;
+  required: boolean;
+}
+
+export const REFERENCE_SCHEMAS: Record<ReferenceFileKey, ColumnSchema[]> = {
+  chemicalIndex: [
+    { name: 'Chemical name', type: 'text', required: true },
+    { name: 'Group No.', type: 'group', required: true },
+    { name: 'Footnote', type: 'text', required: false }
+  ],
+  compatibilityChart: [
+    { name: 'REACTIVE GROUP', type: 'chart_group', required: true }
+  ],
+  compatibleExceptions: [
+    { name: 'Chemical Name', type: 'text', required: true },
+    { name: 'Compatible Chemical Name', type: 'text', required: true }
+  ],
+  incompatibleExceptions: [
+    { name: 'Chemical Name', type: 'text', required: true },
+    { name: 'Incompatible Group', type: 'group_list', required: true }
+  ]
+};
+
+const isBlank = (value: any) => value === undefined || value === null || value.toString().trim() === '';
+
+// Read the way buildReferenceData reads groups, so what passes here is what analyze compares
+const isGroupNumber = (value: any) => toGroup(value) !== null;
+
+const chartGroupOf = (value: any) => {
+  const match = value.toString().trim().match(/^(\d+)\./);
+  return match ? parseInt(match[1]) : null;
+};
+
+const splitGroups = (value: any) => value.toString().split(',').map((g: string) => g.trim()).filter((g: string) => g !== '');
+
+export const validateReferenceFiles = (files: ParsedReferenceFiles): ValidationReport => {
+  const diagnostics: Diagnostic[] = [];
+
+  const report = (
+    severity: DiagnosticSeverity,
+    file: ReferenceFileKey,
+    row: number | null,
+    column: string | null,
+    message: string
+  ) => diagnostics.push({ severity, file, fileName: files[file].fileName, sheet: files[file].sheet, row, column, message });
+
+  // Headers first: without them no row can be checked
+  const usable: Partial<Record<ReferenceFileKey, boolean>> = {};
+  REFERENCE_FILE_KEYS.forEach(key => {
+    const { headers, rows } = files[key];
+    if (rows.length === 0) {
+      report('error', key, null, null, `${REFERENCE_FILE_LABELS[key]} has no data rows.`);
+    }
+
+    usable[key] = true;
+    REFERENCE_SCHEMAS[key].filter(column => column.required).forEach(column => {
+      if (headers.includes(column.name)) return;
+      usable[key] = false;
+      const nearMatch = headers.find(header => header.toLowerCase().replace(/\s+/g, ' ') === column.name.toLowerCase());
+      report('error', key, 1, column.name, nearMatch
+        ? `Missing header '${column.name}'; found '${nearMatch}' instead (headers are case-sensitive).`
+        : `Missing required header '${column.name}'.`);
+    });
+  });
+
+  // Groups the chart defines; every other group reference must be one of them
+  const chartGroups = new Set<number>();
+  if (usable.compatibilityChart) {
+    files.compatibilityChart.rows.forEach((row, index) => {
+      const value = row['REACTIVE GROUP'];
+      const rowNumber = sourceRowNumber(row, index);
+      if (isBlank(value)) {
+        report('warning', 'compatibilityChart', rowNumber, 'REACTIVE GROUP', 'Row has no reactive group and is ignored.');
+        return;
+      }
+      const group = chartGroupOf(value);
+      if (group === null) {
+        report('error', 'compatibilityChart', rowNumber, 'REACTIVE GROUP', `'${value}' is not of the form "<number>. <name>".`);
+        return;
+      }
+      if (chartGroups.has(group)) {
+        report('error', 'compatibilityChart', rowNumber, 'REACTIVE GROUP', `Group ${group} is defined more than once.`);
+      }
+      chartGroups.add(group);
+
+      Object.keys(row).forEach(column => {
+        if (column === 'REACTIVE GROUP' || isBlank(row[column])) return;
+        if (!isGroupNumber(column)) {
+          report('warning', 'compatibilityChart', rowNumber, column, `Column '${column}' is not a group number and is ignored.`);
+        } else if (row[column].toString().trim().toUpperCase() !== 'X') {
+          report('error', 'compatibilityChart', rowNumber, column, `Expected 'X' or an empty cell, found '${row[column]}'.`);
+        }
+      });
+    });
+
+    files.compatibilityChart.headers
+      .filter(header => isGroupNumber(header) && !chartGroups.has(parseInt(header)))
+      .forEach(header => {
+        report('error', 'compatibilityChart', 1, header, `Column refers to group ${header}, which has no row in the chart.`);
+      });
+  }
+
+  const checkGroupReference = (file: ReferenceFileKey, row: ReferenceRow, index: number, column: string, value: any, owner?: string) => {
+    const rowNumber = sourceRowNumber(row, index);
+    const subject = owner ? ` for ${owner}` : '';
+    const group = toGroup(value);
+    if (group === null) {
+      report('error', file, rowNumber, column, `Group '${value}'${subject} is not a number.`);
+    } else if (usable.compatibilityChart && !chartGroups.has(group)) {
+      report('error', file, rowNumber, column, `Group ${group}${subject} is not defined in the compatibility chart.`);
+    }
+  };
+
+  if (usable.chemicalIndex) {
+    const seen = new Map<string, { group: any; rowNumber: number }>();
+    files.chemicalIndex.rows.forEach((row, index) => {
+      const rowNumber = sourceRowNumber(row, index);
+      const name = row['Chemical name'];
+      if (isBlank(name)) {
+        report('warning', 'chemicalIndex', rowNumber, 'Chemical name', 'Row has no chemical name and is ignored.');
+        return;
+      }
+
+      const value = row['Group No.'];
+      if (isBlank(value)) {
+        report('warning', 'chemicalIndex', rowNumber, 'Group No.', `${name} has no reactive group and will not be checked against the chart.`);
+      } else {
+        checkGroupReference('chemicalIndex', row, index, 'Group No.', value, name);
+      }
+      // Compared the way the engine reads them: "4" and 4 are the same group
+      const group = toGroup(value) ?? value;
+
+      const key = name.toString().trim().toLowerCase();
+      const previous = seen.get(key);
+      if (previous) {
+        // Same name with another group stays usable: lookup makes the user pick
+        report('warning', 'chemicalIndex', rowNumber, 'Chemical name', String(previous.group) === String(group)
+          ? `Duplicate of row ${previous.rowNumber} (${name}).`
+          : `${name} is listed again with group ${group}; row ${previous.rowNumber} has group ${previous.group}. Lookups will ask which entry is meant.`);
+      } else {
+        seen.set(key, { group, rowNumber });
+      }
+    });
+  }
+
+  if (usable.compatibleExceptions) {
+    files.compatibleExceptions.rows.forEach((row, index) => {
+      ['Chemical Name', 'Compatible Chemical Name'].forEach(column => {
+        if (isBlank(row[column])) {
+          report('error', 'compatibleExceptions', sourceRowNumber(row, index), column, `'${column}' is empty.`);
+        }
+      });
+    });
+  }
+
+  if (usable.incompatibleExceptions) {
+    files.incompatibleExceptions.rows.forEach((row, index) => {
+      if (isBlank(row['Chemical Name'])) {
+        report('error', 'incompatibleExceptions', sourceRowNumber(row, index), 'Chemical Name', `'Chemical Name' is empty.`);
+      }
+      if (isBlank(row['Incompatible Group'])) {
+        report('error', 'incompatibleExceptions', sourceRowNumber(row, index), 'Incompatible Group', `'Incompatible Group' is empty.`);
+        return;
+      }
+      splitGroups(row['Incompatible Group']).forEach((group: string) =>
+        checkGroupReference('incompatibleExceptions', row, index, 'Incompatible Group', group)
+      );
+    });
+  }
+
+  const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+  return {
+    diagnostics,
+    errorCount,
+    warningCount: diagnostics.length - errorCount,
+    fatal: errorCount > 0
+  };
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { AlertTriangle, XCircle, CheckCircle } from 'lucide-react';
+import { REFERENCE_FILE_LABELS } from './reference_data_loader';
+import type { ValidationReport } from './reference_data_schema';
+
+interface ReferenceDiagnosticsPanelProps {
+  report: ValidationReport;
+}
+
+const ReferenceDiagnosticsPanel = ({ report }: ReferenceDiagnosticsPanelProps) => {
+  if (report.diagnostics.length === 0) {
+    return (
+      <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center gap-2">
+        <CheckCircle className="w-5 h-5 text-green-500" />
+        <span className="text-green-800 font-medium">Reference data passed schema validation</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`p-4 border rounded-lg ${report.fatal ? 'bg-red-50 border-red-200' : 'bg-yellow-50 border-yellow-200'}`}>
+      <div className="flex items-center gap-2 mb-3">
+        {report.fatal
+          ? <XCircle className="w-5 h-5 text-red-500" />
+          : <AlertTriangle className="w-5 h-5 text-yellow-500" />}
+        <h3 className={`font-semibold ${report.fatal ? 'text-red-800' : 'text-yellow-800'}`}>
+          Reference Data Diagnostics: {report.errorCount} error(s), {report.warningCount} warning(s)
+          {report.fatal && ' — loading blocked'}
+        </h3>
+      </div>
+      <div className="max-h-80 overflow-y-auto bg-white border rounded">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-100 text-left sticky top-0">
+            <tr>
+              <th className="p-2">Severity</th>
+              <th className="p-2">File</th>
+              <th className="p-2">Sheet</th>
+              <th className="p-2">Row</th>
+              <th className="p-2">Column</th>
+              <th className="p-2">Problem</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.diagnostics.map((diagnostic, index) => (
+              <tr key={index} className="border-t">
+                <td className={`p-2 font-medium ${diagnostic.severity === 'error' ? 'text-red-700' : 'text-yellow-700'}`}>
+                  {diagnostic.severity.toUpperCase()}
+                </td>
+                <td className="p-2" title={diagnostic.fileName}>{REFERENCE_FILE_LABELS[diagnostic.file]}</td>
+                <td className="p-2">{diagnostic.sheet}</td>
+                <td className="p-2">{diagnostic.row ?? '—'}</td>
+                <td className="p-2">{diagnostic.column ?? '—'}</td>
+                <td className="p-2">{diagnostic.message}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ReferenceDiagnosticsPanel;
@@ -0,0 +1,113 @@
+// Reference data editions kept in local storage, so the chart and exception
+// lists do not have to be uploaded every session and every report can name
+// the edition it was checked against. An edition is identified by its hash.
+import { canonicalJson, sha256Hex } from './content_hash';
+import type { ReferenceSource } from './compliance_report';
+import { REFERENCE_FILE_KEYS } from './reference_data_loader';
+import type { ReferenceRows } from './reference_data_loader';
+import { defaultStorage } from './stowage_plan_storage';
+import type { PlanStorage } from './stowage_plan_storage';
+
+export interface ReferenceEditionInfo {
+  name: string;
+  // ISO date (YYYY-MM-DD) from which the edition applies
+  effectiveDate: string;
+  // SHA-256 of the canonical JSON of the rows
+  contentHash: string;
+}
+
+export interface ReferenceEdition extends ReferenceEditionInfo {
+  version: 1;
+  savedAt: string;
+  sources: ReferenceSource[];
+  rows: ReferenceRows;
+}
+
+const LIBRARY_KEY = 'cargo-compatibility:reference-library';
+const ACTIVE_KEY = 'cargo-compatibility:active-edition';
+
+export const editionInfo = ({ name, effectiveDate, contentHash }: ReferenceEditionInfo): ReferenceEditionInfo =>
+  ({ name, effectiveDate, contentHash });
+
+export const hashReferenceRows = (rows: ReferenceRows) => sha256Hex(canonicalJson(rows));
+
+export const createEdition = async (
+  name: string,
+  effectiveDate: string,
+  rows: ReferenceRows,
+  sources: ReferenceSource[]
+): Promise<ReferenceEdition> => {
+  if (!name.trim()) {
+    throw new Error('Give the reference data edition a name.');
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(effectiveDate)) {
+    throw new Error('Effective date must be a date (YYYY-MM-DD).');
+  }
+  return {
+    version: 1,
+    name: name.trim(),
+    effectiveDate,
+    contentHash: await hashReferenceRows(rows),
+    savedAt: new Date().toISOString(),
+    sources,
+    rows
+  };
+};
+
+const isEdition = (value: any): value is ReferenceEdition =>
+  !!value && value.version === 1 &&
+  typeof value.name === 'string' &&
+  typeof value.effectiveDate === 'string' &&
+  typeof value.contentHash === 'string' &&
+  Array.isArray(value.sources) &&
+  !!value.rows && REFERENCE_FILE_KEYS.every(key => Array.isArray(value.rows[key]));
+
+// Newest effective date first
+export const listEditions = (storage: PlanStorage | null = defaultStorage()): ReferenceEdition[] => {
+  const raw = storage?.getItem(LIBRARY_KEY);
+  if (!raw) return [];
+  try {
+    const editions = JSON.parse(raw);
+    return Array.isArray(editions)
+      ? editions.filter(isEdition).sort((a, b) => b.effectiveDate.localeCompare(a.effectiveDate) || b.savedAt.localeCompare(a.savedAt))
+      : [];
+  } catch (error) {
+    return [];
+  }
+};
+
+const writeEditions = (editions: ReferenceEdition[], storage: PlanStorage) => {
+  try {
+    storage.setItem(LIBRARY_KEY, JSON.stringify(editions));
+  } catch (error) {
+    throw new Error(`Browser storage is full or unavailable (${(error as Error).message}). Delete an old edition and try again.`);
+  }
+};
+
+// The same data saved twice keeps one entry under the latest name and date
+export const saveEdition = (edition: ReferenceEdition, storage: PlanStorage | null = defaultStorage()) => {
+  if (!storage) {
+    throw new Error('Browser storage is not available; reference data cannot be stored.');
+  }
+  writeEditions([...listEditions(storage).filter(saved => saved.contentHash !== edition.contentHash), edition], storage);
+};
+
+export const deleteEdition = (contentHash: string, storage: PlanStorage | null = defaultStorage()) => {
+  if (!storage) return;
+  writeEditions(listEditions(storage).filter(saved => saved.contentHash !== contentHash), storage);
+  if (readActiveEdition(storage)?.contentHash === contentHash) writeActiveEdition(null, storage);
+};
+
+export const readActiveEdition = (storage: PlanStorage | null = defaultStorage()): ReferenceEdition | null => {
+  const active = storage?.getItem(ACTIVE_KEY);
+  return active ? listEditions(storage).find(edition => edition.contentHash === active) || null : null;
+};
+
+export const writeActiveEdition = (contentHash: string | null, storage: PlanStorage | null = defaultStorage()) => {
+  try {
+    if (contentHash) storage?.setItem(ACTIVE_KEY, contentHash);
+    else storage?.removeItem(ACTIVE_KEY);
+  } catch (error) {
+    // The edition is still active for this session
+  }
+};
@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { Library, Save, Trash2, CheckCircle, RefreshCw } from 'lucide-react';
+import { reverifyReport, verifyReport } from './compliance_report';
+import type { ComplianceReport, ReferenceSource, ReportReverification } from './compliance_report';
+import { buildReferenceData } from './reference_data_loader';
+import type { ReferenceRows } from './reference_data_loader';
+import { createEdition, deleteEdition, editionInfo, listEditions, saveEdition } from './reference_library';
+import type { ReferenceEdition, ReferenceEditionInfo } from './reference_library';
+
+interface ReferenceLibraryPanelProps {
+  // Rows currently in use, or null before any data is loaded
+  loadedRows: ReferenceRows | null;
+  loadedSources: ReferenceSource[];
+  activeEdition: ReferenceEditionInfo | null;
+  onActivate: (edition: ReferenceEdition) => void;
+  onError: (message: string) => void;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const describeEdition = (edition: ReferenceEditionInfo | null | undefined) =>
+  edition ? `${edition.name} (effective ${edition.effectiveDate}, ${edition.contentHash.slice(0, 12)}…)` : 'uploaded files, not a stored edition';
+
+const ReferenceLibraryPanel = ({ loadedRows, loadedSources, activeEdition, onActivate, onError }: ReferenceLibraryPanelProps) => {
+  const [editions, setEditions] = useState<ReferenceEdition[]>(() => listEditions());
+  const [editionName, setEditionName] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState(today);
+  const [reverifyHash, setReverifyHash] = useState('');
+  const [reverification, setReverification] = useState<(ReportReverification & {
+    fileName: string;
+    basedOn: ReferenceEditionInfo | null;
+    contentIntact: boolean | null;
+  }) | null>(null);
+
+  const saveLoadedData = async () => {
+    if (!loadedRows) return;
+    try {
+      const edition = await createEdition(editionName, effectiveDate, loadedRows, loadedSources);
+      const existing = editions.find(saved => saved.contentHash === edition.contentHash);
+      if (existing && !window.confirm(`This data is already stored as '${existing.name}'. Rename it to '${edition.name}'?`)) return;
+      saveEdition(edition);
+      setEditions(listEditions());
+      setEditionName('');
+      onActivate(edition);
+    } catch (error) {
+      onError(`Error saving reference data: ${(error as Error).message}`);
+    }
+  };
+
+  const removeEdition = (edition: ReferenceEdition) => {
+    if (!window.confirm(`Delete the reference data edition '${edition.name}'?`)) return;
+    try {
+      deleteEdition(edition.contentHash);
+      setEditions(listEditions());
+    } catch (error) {
+      onError(`Error deleting reference data: ${(error as Error).message}`);
+    }
+  };
+
+  // Latest edition unless one is picked
+  const reverifyEdition = editions.find(edition => edition.contentHash === reverifyHash) || editions[0] || null;
+
+  const handleReportUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file || !reverifyEdition) return;
+    try {
+      const report: ComplianceReport = JSON.parse(await file.text());
+      if (!report || !Array.isArray(report.cargoManifest) || !report.vesselConfiguration || !report.summary) {
+        throw new Error('not a compliance report export.');
+      }
+      const contentIntact = report.integrity ? (await verifyReport(report)).contentIntact : null;
+      const result = reverifyReport(report, buildReferenceData(reverifyEdition.rows), editionInfo(reverifyEdition));
+      setReverification({ ...result, fileName: file.name, basedOn: report.referenceData?.edition || null, contentIntact });
+    } catch (error) {
+      setReverification(null);
+      onError(`Error re-verifying report: ${(error as Error).message}`);
+    }
+    event.target.value = '';
+  };
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg">
+      <div className="flex items-center gap-2 mb-2">
+        <Library className="w-5 h-5" />
+        <h2 className="text-xl font-semibold">Reference Data Library</h2>
+      </div>
+      <p className="text-sm text-gray-600 mb-2">Active: {describeEdition(activeEdition)}</p>
+
+      <div className="flex gap-2 items-end mb-4">
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Edition Name</label>
+          <input
+            type="text"
+            value={editionName}
+            onChange={(e) => setEditionName(e.target.value)}
+            placeholder="e.g. 46 CFR 150, Oct 2026 update"
+            className="w-full p-2 border rounded-md"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Effective Date</label>
+          <input
+            type="date"
+            value={effectiveDate}
+            onChange={(e) => setEffectiveDate(e.target.value)}
+            className="p-2 border rounded-md"
+          />
+        </div>
+        <button
+          onClick={saveLoadedData}
+          disabled={!loadedRows || !editionName.trim()}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300"
+        >
+          <Save className="w-4 h-4" />
+          Save Loaded Data
+        </button>
+      </div>
+
+      {editions.length === 0 ? (
+        <p className="text-sm text-gray-500">No editions stored yet. Load the reference files, then save them here.</p>
+      ) : (
+        <table className="w-full text-sm bg-white border mb-4">
+          <thead className="bg-gray-100 text-left">
+            <tr>
+              <th className="p-2">Edition</th>
+              <th className="p-2">Effective</th>
+              <th className="p-2">SHA-256</th>
+              <th className="p-2">Files</th>
+              <th className="p-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {editions.map(edition => (
+              <tr key={edition.contentHash} className="border-t">
+                <td className="p-2 font-medium">{edition.name}</td>
+                <td className="p-2">{edition.effectiveDate}</td>
+                <td className="p-2 font-mono text-xs" title={edition.contentHash}>{edition.contentHash.slice(0, 12)}…</td>
+                <td className="p-2 text-xs text-gray-600">{edition.sources.map(source => source.fileName).join(', ')}</td>
+                <td className="p-2 whitespace-nowrap">
+                  {activeEdition?.contentHash === edition.contentHash ? (
+                    <span className="inline-flex items-center gap-1 text-green-700 text-xs mr-2">
+                      <CheckCircle className="w-4 h-4" /> Active
+                    </span>
+                  ) : (
+                    <button onClick={() => onActivate(edition)} className="text-blue-600 hover:underline text-xs mr-2">Use</button>
+                  )}
+                  <button onClick={() => removeEdition(edition)} className="text-red-600 hover:text-red-800" title="Delete">
+                    <Trash2 className="w-4 h-4 inline" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {editions.length > 0 && (
+        <div>
+          <h3 className="font-semibold text-sm mb-1">Re-verify a Past Report</h3>
+          <div className="flex gap-2 items-center">
+            <select
+              value={reverifyEdition?.contentHash || ''}
+              onChange={(e) => setReverifyHash(e.target.value)}
+              className="p-2 border rounded-md text-sm"
+            >
+              {editions.map(edition => (
+                <option key={edition.contentHash} value={edition.contentHash}>{edition.name} ({edition.effectiveDate})</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 px-4 py-2 bg-gray-200 rounded-md hover:bg-gray-300 cursor-pointer text-sm">
+              <RefreshCw className="w-4 h-4" />
+              Load Report JSON
+              <input type="file" accept=".json" onChange={handleReportUpload} className="hidden" />
+            </label>
+          </div>
+
+          {reverification && (
+            <div className="mt-3 text-sm bg-white border rounded p-3 space-y-1">
+              <div className="font-medium">{reverification.fileName}</div>
+              <div className="text-xs text-gray-600">Issued against: {describeEdition(reverification.basedOn)}</div>
+              <div className="text-xs text-gray-600">Re-run against: {describeEdition(reverification.edition)}</div>
+              {reverification.contentIntact === false && (
+                <div className="text-red-700">Report content does not match its hash: it was altered after export.</div>
+              )}
+              <div className={reverification.verdictChanged ? 'text-red-700 font-medium' : 'text-green-700'}>
+                Verdict: {reverification.previousStatus} → {reverification.status}
+                {reverification.verdictChanged ? ' (changed)' : ' (unchanged)'}
+              </div>
+              {reverification.introduced.length > 0 && (
+                <div>
+                  <div className="text-red-700">New conflicts:</div>
+                  <ul className="list-disc ml-5 text-xs">{reverification.introduced.map(item => <li key={item}>{item}</li>)}</ul>
+                </div>
+              )}
+              {reverification.resolved.length > 0 && (
+                <div>
+                  <div className="text-green-700">Conflicts no longer found:</div>
+                  <ul className="list-disc ml-5 text-xs">{reverification.resolved.map(item => <li key={item}>{item}</li>)}</ul>
+                </div>
+              )}
+              {reverification.regrouped.length > 0 && (
+                <div className="text-xs text-yellow-700">Group changes: {reverification.regrouped.join('; ')}</div>
+              )}
+              {reverification.notFound.length > 0 && (
+                <div className="text-xs text-yellow-700">
+                  Not in this edition (checked with the report's group): {reverification.notFound.join(', ')}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReferenceLibraryPanel;
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Download, FileText, Printer, ShieldCheck } from 'lucide-react';
+import { verifyReport } from './compliance_report';
+import type { ComplianceReport, ReportVerification } from './compliance_report';
+import type { Tank } from './cargo_compatibility_engine';
+import { renderReportHtml } from './report_html';
+import type { VesselProfile } from './vessel_profile';
+import { downloadFile } from './download_file';
+
+interface ReportExportPanelProps {
+  generateReport: () => Promise<ComplianceReport>;
+  vessel: VesselProfile;
+  tanks: Record<string, Tank>;
+  onError: (message: string) => void;
+}
+
+const reportFileName = (extension: string) =>
+  `cargo-compatibility-report-${new Date().toISOString().split('T')[0]}.${extension}`;
+
+const ReportExportPanel = ({ generateReport, vessel, tanks, onError }: ReportExportPanelProps) => {
+  const [verification, setVerification] = useState<(ReportVerification & { fileName: string; hash: string }) | null>(null);
+
+  const exportJson = async () => {
+    const report = await generateReport();
+    downloadFile(JSON.stringify(report, null, 2), reportFileName('json'), 'application/json');
+  };
+
+  const exportHtml = async () => {
+    const report = await generateReport();
+    downloadFile(renderReportHtml(report), reportFileName('html'), 'text/html');
+  };
+
+  // Open the window before the async work so popup blockers allow it
+  const printReport = async () => {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      onError('The print window was blocked. Allow pop-ups or export the HTML report and print that.');
+      return;
+    }
+    const report = await generateReport();
+    printWindow.document.open();
+    printWindow.document.write(renderReportHtml(report));
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  const handleVerifyUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      const report: ComplianceReport = JSON.parse(await file.text());
+      const result = await verifyReport(report, { vessel, tanks });
+      setVerification({ ...result, fileName: file.name, hash: report.integrity?.contentHash || '' });
+    } catch (error) {
+      setVerification(null);
+      onError(`Error verifying report: ${(error as Error).message}`);
+    }
+    event.target.value = '';
+  };
+
+  return (
+    <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold text-blue-800">Documentation & Export</h3>
+          <p className="text-blue-700 text-sm">Generate reports for regulatory compliance</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={printReport}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            <Printer className="w-4 h-4" />
+            Print / PDF
+          </button>
+          <button
+            onClick={exportHtml}
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-blue-300 text-blue-800 rounded-md hover:bg-blue-100"
+          >
+            <FileText className="w-4 h-4" />
+            Export HTML
+          </button>
+          <button
+            onClick={exportJson}
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-blue-300 text-blue-800 rounded-md hover:bg-blue-100"
+          >
+            <Download className="w-4 h-4" />
+            Export JSON
+          </button>
+          <label className="flex items-center gap-2 px-4 py-2 bg-white border border-blue-300 text-blue-800 rounded-md hover:bg-blue-100 cursor-pointer">
+            <ShieldCheck className="w-4 h-4" />
+            Verify Report
+            <input type="file" accept=".json" onChange={handleVerifyUpload} className="hidden" />
+          </label>
+        </div>
+      </div>
+
+      {verification && (
+        <div className="mt-3 text-sm bg-white border rounded p-3">
+          <div className="font-medium">{verification.fileName}</div>
+          <div className="font-mono text-xs text-gray-500 break-all">{verification.hash}</div>
+          <div className={verification.contentIntact ? 'text-green-700' : 'text-red-700'}>
+            {verification.contentIntact ? 'Report content matches its hash.' : 'Report content does NOT match its hash: it was altered after export.'}
+          </div>
+          <div className={verification.matchesPlan ? 'text-green-700' : 'text-yellow-700'}>
+            {verification.matchesPlan
+              ? 'Report was issued for the plan currently loaded.'
+              : 'Report was issued for a different plan than the one currently loaded.'}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReportExportPanel;
@@ -0,0 +1,248 @@
+// Printable HTML rendering of a compliance report. Self-contained (inline
+// styles, no scripts) so it can be saved, e-mailed or printed to PDF.
+import type { ComplianceReport, ReferenceSource } from './compliance_report';
+import { isIncompatible, tankComponents } from './cargo_compatibility_engine';
+import type { Tank } from './cargo_compatibility_engine';
+import { REFERENCE_FILE_LABELS } from './reference_data_loader';
+import { formatQuantity, QUANTITY_UNIT_LABELS } from './tank_quantities';
+import { canHoldCargo, tankLabel } from './vessel_profile';
+
+const escapeHtml = (value: any) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const STATUS_COLORS: Record<ComplianceReport['summary']['status'], string> = {
+  'ISSUES FOUND': '#b91c1c',
+  'MANUAL REVIEW REQUIRED': '#a16207',
+  'APPROVED': '#15803d'
+};
+
+const STYLES = `
+  body { font-family: Arial, Helvetica, sans-serif; color: #111; margin: 24px; font-size: 12px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 15px; margin: 20px 0 6px; border-bottom: 1px solid #999; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #bbb; padding: 3px 6px; text-align: left; vertical-align: top; }
+  th { background: #eee; }
+  .status { display: inline-block; padding: 4px 10px; color: #fff; font-weight: bold; border-radius: 4px; }
+  .diagram { display: grid; gap: 4px; max-width: 720px; }
+  .tank { border: 2px solid #666; border-radius: 4px; padding: 4px; min-height: 48px; }
+  .tank.conflict { border-color: #b91c1c; background: #fee2e2; }
+  .tank.empty { color: #777; }
+  .tank.cofferdam { border-style: dashed; background: #eee; color: #777; }
+  .conflict-row td { background: #fee2e2; }
+  .muted { color: #666; }
+  .hash { font-family: monospace; word-break: break-all; }
+  @media print { body { margin: 0; } h2 { page-break-after: avoid; } tr { page-break-inside: avoid; } }
+`;
+
+const renderDiagram = (report: ComplianceReport) => {
+  const vessel = report.vesselConfiguration;
+  const tanks: Record<string, Tank> = {};
+  report.cargoManifest.forEach(entry => {
+    const tank = vessel.tanks.find(vesselTank => vesselTank.label === entry.tank);
+    if (tank) tanks[tank.id] = { chemical: entry.chemical, group: entry.group === 'Unknown' ? null : entry.group };
+  });
+  const conflicted = new Set(report.compatibilityResults.problems.flatMap(problem => [problem.tank1, problem.tank2]));
+  (report.carriageFindings || [])
+    .filter(finding => finding.severity === 'violation')
+    .forEach(finding => {
+      const tank = vessel.tanks.find(vesselTank => vesselTank.label === finding.tank);
+      if (tank) conflicted.add(tank.id);
+    });
+  (report.quantities?.tanks || [])
+    .filter(quantity => quantity.status === 'overfill')
+    .forEach(quantity => {
+      const tank = vessel.tanks.find(vesselTank => vesselTank.label === quantity.tank);
+      if (tank) conflicted.add(tank.id);
+    });
+  const columns = Math.max(1, ...vessel.tanks.map(tank => tank.position.col + (tank.position.span || 1)));
+
+  const cells = vessel.tanks.map(tank => {
+    const placement = `grid-row: ${tank.position.row + 1}; grid-column: ${tank.position.col + 1} / span ${tank.position.span || 1};`;
+    if (!canHoldCargo(tank)) {
+      return `<div class="tank cofferdam" style="${placement}"><b>${escapeHtml(tank.label)}</b><br>Cofferdam</div>`;
+    }
+    const cargo = tanks[tank.id];
+    const classes = ['tank', conflicted.has(tank.id) ? 'conflict' : '', cargo ? '' : 'empty'].filter(Boolean).join(' ');
+    return `<div class="${classes}" style="${placement}"><b>${escapeHtml(tank.label)}</b><br>` +
+      (cargo
+        ? `${escapeHtml(cargo.chemical)}${tankComponents(cargo).length === 1 && cargo.group !== null ? ` <span class="muted">(G${escapeHtml(cargo.group)})</span>` : ''}`
+        : 'Empty') +
+      '</div>';
+  });
+
+  return `<div class="diagram" style="grid-template-columns: repeat(${columns}, minmax(0, 1fr));">${cells.join('')}</div>`;
+};
+
+const SOURCE_LABELS: Record<ReferenceSource['file'], string> = {
+  ...REFERENCE_FILE_LABELS,
+  bundle: 'Reference bundle',
+  cargoRequirements: 'Cargo Requirements',
+  companyRules: 'Company Rules'
+};
+
+const renderTable = (headers: string[], rows: string[][], rowClasses: string[] = []) =>
+  rows.length === 0
+    ? '<p class="muted">None.</p>'
+    : `<table><thead><tr>${headers.map(header => `<th>${escapeHtml(header)}</th>`).join('')}</tr></thead><tbody>` +
+      rows.map((cells, index) => `<tr${rowClasses[index] ? ` class="${rowClasses[index]}"` : ''}>${cells.map(cell => `<td>${cell}</td>`).join('')}</tr>`).join('') +
+      '</tbody></table>';
+
+export const renderReportHtml = (report: ComplianceReport) => {
+  const vessel = report.vesselConfiguration;
+  const { summary } = report;
+
+  const pairRows = report.pairs.map(pair => [
+    escapeHtml(pair.tank1 === pair.tank2 ? pair.tank1 : `${pair.tank1} ↔ ${pair.tank2}`),
+    `${escapeHtml(pair.chemical1)} <span class="muted">(G${escapeHtml(pair.group1 ?? '?')})</span>`,
+    `${escapeHtml(pair.chemical2)} <span class="muted">(G${escapeHtml(pair.group2 ?? '?')})</span>`,
+    escapeHtml(pair.contact) + (pair.enforced ? '' : ' <span class="muted">(not enforced)</span>'),
+    escapeHtml(pair.compatibility.replace(/_/g, ' ').toUpperCase()),
+    escapeHtml([pair.exception ? pair.exception.replace(/_/g, ' ') : '', pair.footnote || ''].filter(Boolean).join('; '))
+  ]);
+  const pairClasses = report.pairs.map(pair => pair.enforced && isIncompatible(pair.compatibility) ? 'conflict-row' : '');
+
+  const warningRows = report.compatibilityResults.warnings.map(warning => [
+    escapeHtml(tankLabel(vessel, warning.tank)),
+    escapeHtml(warning.chemical),
+    escapeHtml(warning.note)
+  ]);
+
+  const carriageFindings = report.carriageFindings || [];
+  const carriageRows = carriageFindings.map(finding => [
+    escapeHtml(finding.tank),
+    escapeHtml(finding.chemical),
+    escapeHtml(finding.requirement),
+    escapeHtml(finding.severity === 'violation' ? 'NOT SUITABLE' : 'NOT RECORDED'),
+    escapeHtml(finding.message)
+  ]);
+  const carriageClasses = carriageFindings.map(finding => finding.severity === 'violation' ? 'conflict-row' : '');
+
+  const quantities = report.quantities || null;
+  const quantityRows = (quantities?.tanks || []).map(quantity => [
+    escapeHtml(quantity.tank),
+    escapeHtml(quantity.cargo),
+    escapeHtml(formatQuantity(quantity.volume, 'm3')),
+    escapeHtml(formatQuantity(quantity.weight, 't')),
+    escapeHtml(formatQuantity(quantity.capacity, 'm3')),
+    quantity.fillPercent === null ? '—' : `<b>${escapeHtml(quantity.fillPercent)}%</b>`,
+    escapeHtml(quantity.message)
+  ]);
+  const quantityClasses = (quantities?.tanks || []).map(quantity => quantity.status === 'overfill' ? 'conflict-row' : '');
+  const totalRows = (quantities?.cargoTotals || []).map(total => [
+    escapeHtml(total.cargo) + (total.incomplete ? ' <span class="muted">(incomplete)</span>' : ''),
+    escapeHtml(total.tanks),
+    escapeHtml(formatQuantity(total.volume, 'm3')),
+    escapeHtml(formatQuantity(total.weight, 't'))
+  ]);
+
+  const policy = report.companyPolicy || { ruleSet: null, violations: [] };
+  const policyRows = policy.violations.map(violation => [
+    `<b>${escapeHtml(violation.rule)}</b> ${escapeHtml(violation.description)}`,
+    escapeHtml(violation.severity.toUpperCase()),
+    `${escapeHtml(violation.tank1)} ${escapeHtml(violation.chemical1)}`,
+    `${escapeHtml(violation.tank2)} ${escapeHtml(violation.chemical2)}`,
+    escapeHtml(violation.contact)
+  ]);
+  const policyClasses = policy.violations.map(violation => violation.severity === 'error' ? 'conflict-row' : '');
+
+  const cleaningRows = report.cleaningRequirements.map(requirement => [
+    escapeHtml(requirement.tank),
+    escapeHtml(requirement.chemical),
+    `<b>${escapeHtml(requirement.cleaning)}</b>`,
+    requirement.findings.map(finding => escapeHtml(finding.reason)).join('<br>')
+  ]);
+
+  const manifestRows = report.cargoManifest.map(entry => [
+    escapeHtml(entry.tank),
+    escapeHtml(entry.chemical),
+    escapeHtml(entry.components ? entry.components.map(component => component.group ?? '?').join(', ') : entry.group),
+    escapeHtml(typeof entry.quantity === 'number' ? `${entry.quantity} ${QUANTITY_UNIT_LABELS[entry.quantityUnit || 'm3']}` : ''),
+    escapeHtml(entry.density ?? '')
+  ]);
+
+  const changeRows = (report.changeLog || []).map(entry => [
+    escapeHtml(entry.sequence),
+    escapeHtml(entry.timestamp),
+    escapeHtml(entry.user),
+    escapeHtml(entry.action),
+    escapeHtml(entry.tank ?? ''),
+    `${escapeHtml(entry.before)} &rarr; ${escapeHtml(entry.after)}`
+  ]);
+
+  const sourceRows = report.referenceData.sources.map(source => [
+    escapeHtml(SOURCE_LABELS[source.file]),
+    escapeHtml(source.fileName),
+    `<span class="hash">${escapeHtml(source.sha256)}</span>`
+  ]);
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Cargo Compatibility Report - ${escapeHtml(report.stowagePlan.name)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>Cargo Compatibility Report</h1>
+<div>Plan: <b>${escapeHtml(report.stowagePlan.name)}</b> &middot; Vessel: <b>${escapeHtml(vessel.name)}</b> &middot; Generated: ${escapeHtml(report.timestamp)}</div>
+${report.stowagePlan.notes ? `<div class="muted">${escapeHtml(report.stowagePlan.notes)}</div>` : ''}
+<p><span class="status" style="background: ${STATUS_COLORS[summary.status]}">${escapeHtml(summary.status)}</span></p>
+<div>${summary.loadedTanks} of ${summary.totalTanks} tanks loaded &middot; ${summary.compatibilityIssues} compatibility issue(s) &middot; ${summary.manualReviewItems} manual review item(s) &middot; ${summary.tanksRequiringCleaning} tank(s) requiring cleaning &middot; ${summary.carriageViolations ?? 0} tank suitability violation(s) &middot; ${summary.overfilledTanks ?? 0} overfilled tank(s)</div>
+${typeof summary.totalVolume === 'number' ? `<div>Total cargo: ${escapeHtml(formatQuantity(summary.totalVolume, 'm3'))} &middot; ${escapeHtml(formatQuantity(summary.totalWeight ?? null, 't'))}</div>` : ''}
+<div class="muted">Chart: ${escapeHtml(report.chartNormalization)} &middot; Enforced contacts: ${escapeHtml(Object.entries(report.adjacencyPolicy).filter(([_, enforced]) => enforced).map(([type]) => type).join(', '))}</div>
+
+<h2>Tank Diagram</h2>
+${renderDiagram(report)}
+
+<h2>Cargo Pairs</h2>
+${renderTable(['Tanks', 'Cargo 1', 'Cargo 2', 'Contact', 'Result', 'Exception / Footnote'], pairRows, pairClasses)}
+
+<h2>Tank Suitability</h2>
+${renderTable(['Tank', 'Cargo', 'Requirement', 'Result', 'Details'], carriageRows, carriageClasses)}
+
+<h2>Quantities</h2>
+${quantities
+    ? `<div class="muted">Fill limit ${escapeHtml(quantities.fillLimit)}% &middot; vessel cargo capacity ${escapeHtml(formatQuantity(quantities.totalCapacity, 'm3'))}${quantities.incomplete ? ' &middot; some quantities have no density and are missing from the totals' : ''}</div>
+${renderTable(['Tank', 'Cargo', 'Volume', 'Weight', 'Capacity', 'Fill', 'Details'], quantityRows, quantityClasses)}
+${totalRows.length > 0 ? renderTable(['Cargo', 'Tanks', 'Volume', 'Weight'], [...totalRows, ['<b>Vessel total</b>', escapeHtml(quantities.tanks.length), escapeHtml(formatQuantity(quantities.totalVolume, 'm3')), escapeHtml(formatQuantity(quantities.totalWeight, 't'))]]) : ''}`
+    : '<p class="muted">Quantities were not checked.</p>'}
+
+<h2>Manual Review</h2>
+${renderTable(['Tank', 'Cargo', 'Note'], warningRows)}
+
+<h2>Tank Cleaning</h2>
+${renderTable(['Tank', 'Cargo', 'Required', 'Findings'], cleaningRows)}
+
+<h2>Company Policy</h2>
+${policy.ruleSet
+    ? `<div class="muted">Rule set: ${escapeHtml(policy.ruleSet)}. Company rules are stricter than the regulations and do not affect the status above.</div>
+${renderTable(['Rule', 'Severity', 'Cargo', 'Neighbour', 'Contact'], policyRows, policyClasses)}`
+    : '<p class="muted">No company rules loaded.</p>'}
+
+<h2>Cargo Manifest</h2>
+${renderTable(['Tank', 'Cargo', 'Group(s)', 'Quantity', 'Density (t/m³)'], manifestRows)}
+
+<h2>Change Log</h2>
+${renderTable(['#', 'Time', 'User', 'Action', 'Tank', 'Change'], changeRows)}
+
+<h2>Reference Data</h2>
+${report.referenceData.edition
+    ? `<div>Edition: <b>${escapeHtml(report.referenceData.edition.name)}</b>, effective ${escapeHtml(report.referenceData.edition.effectiveDate)} &middot; <span class="hash">${escapeHtml(report.referenceData.edition.contentHash)}</span></div>`
+    : '<div class="muted">Not from a stored edition.</div>'}
+${renderTable(['File', 'Name', 'SHA-256'], sourceRows)}
+
+<h2>Integrity</h2>
+${report.integrity
+    ? `<div>Plan hash: <span class="hash">${escapeHtml(report.integrity.planHash)}</span></div>
+<div>Report hash: <span class="hash">${escapeHtml(report.integrity.contentHash)}</span></div>
+<p class="muted">${escapeHtml(report.integrity.algorithm)}. Verify by loading the JSON export of this report, or compare the plan hash with the plan it was issued for.</p>`
+    : '<p class="muted">Report was not sealed.</p>'}
+</body>
+</html>
+`;
+};
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { Download, Upload, Save, FolderOpen, Trash2 } from 'lucide-react';
+import { deletePlan, listSavedPlans, parsePlan, savePlan, serializePlan } from './stowage_plan_storage';
+import type { SavedStowagePlan } from './stowage_plan_storage';
+import { downloadFile } from './download_file';
+
+interface StowagePlanPanelProps {
+  plan: SavedStowagePlan;
+  onNameChange: (name: string) => void;
+  onNotesChange: (notes: string) => void;
+  onLoad: (plan: SavedStowagePlan) => void;
+  onError: (message: string) => void;
+}
+
+const StowagePlanPanel = ({ plan, onNameChange, onNotesChange, onLoad, onError }: StowagePlanPanelProps) => {
+  const [savedPlans, setSavedPlans] = useState<SavedStowagePlan[]>(() => listSavedPlans());
+
+  const saveCurrentPlan = () => {
+    if (!plan.name.trim()) {
+      onError('Give the stowage plan a name before saving it.');
+      return;
+    }
+    const existing = savedPlans.some(saved => saved.name === plan.name);
+    if (existing && !window.confirm(`Replace the saved plan '${plan.name}'?`)) return;
+    try {
+      savePlan(plan);
+      setSavedPlans(listSavedPlans());
+    } catch (error) {
+      onError(`Error saving stowage plan: ${(error as Error).message}`);
+    }
+  };
+
+  const loadSavedPlan = (saved: SavedStowagePlan) => {
+    if (!window.confirm(`Load '${saved.name}'? Unsaved changes to the current plan will be lost.`)) return;
+    onLoad(saved);
+  };
+
+  const removeSavedPlan = (name: string) => {
+    if (!window.confirm(`Delete the saved plan '${name}'?`)) return;
+    deletePlan(name);
+    setSavedPlans(listSavedPlans());
+  };
+
+  const exportPlan = () => {
+    const filename = `${plan.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'stowage'}-plan.json`;
+    downloadFile(serializePlan(plan), filename, 'application/json');
+  };
+
+  const handlePlanUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      onLoad(parsePlan(await file.text()));
+    } catch (error) {
+      onError(`Error importing stowage plan: ${(error as Error).message}`);
+    }
+    event.target.value = '';
+  };
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg">
+      <h2 className="text-xl font-semibold mb-2">Stowage Plan</h2>
+      <div className="flex gap-2 items-end">
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Plan Name</label>
+          <input
+            type="text"
+            value={plan.name}
+            onChange={(e) => onNameChange(e.target.value)}
+            className="w-full p-2 border rounded-md"
+          />
+        </div>
+        <button
+          onClick={saveCurrentPlan}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+        >
+          <Save className="w-4 h-4" />
+          Save Plan
+        </button>
+        <button
+          onClick={exportPlan}
+          className="flex items-center gap-2 px-4 py-2 bg-gray-200 rounded-md hover:bg-gray-300"
+        >
+          <Download className="w-4 h-4" />
+          Export JSON
+        </button>
+        <label className="flex items-center gap-2 px-4 py-2 bg-gray-200 rounded-md hover:bg-gray-300 cursor-pointer">
+          <Upload className="w-4 h-4" />
+          Import JSON
+          <input type="file" accept=".json" onChange={handlePlanUpload} className="hidden" />
+        </label>
+      </div>
+
+      <label className="block text-sm font-medium text-gray-700 mt-3 mb-1">Notes</label>
+      <textarea
+        value={plan.notes}
+        onChange={(e) => onNotesChange(e.target.value)}
+        rows={2}
+        className="w-full p-2 border rounded-md text-sm"
+        placeholder="Voyage, charterer instructions, remarks..."
+      />
+      <p className="text-xs text-gray-500 mt-1">Changes are autosaved in this browser and restored on reload.</p>
+
+      {savedPlans.length > 0 && (
+        <div className="mt-3">
+          <div className="text-sm font-medium text-gray-700 mb-1">Saved Plans</div>
+          <div className="border rounded bg-white divide-y">
+            {savedPlans.map(saved => (
+              <div key={saved.name} className="flex items-center justify-between p-2 text-sm">
+                <div>
+                  <span className="font-medium">{saved.name}</span>
+                  <span className="text-gray-500 ml-2">
+                    {saved.vessel.name} · {Object.values(saved.tanks).filter(tank => tank.chemical).length} loaded tank(s) · saved {new Date(saved.savedAt).toLocaleString()}
+                  </span>
+                </div>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => loadSavedPlan(saved)}
+                    className="flex items-center gap-1 px-2 py-1 bg-gray-200 rounded hover:bg-gray-300"
+                  >
+                    <FolderOpen className="w-4 h-4" />
+                    Load
+                  </button>
+                  <button
+                    onClick={() => removeSavedPlan(saved.name)}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    title="Delete saved plan"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StowagePlanPanel;
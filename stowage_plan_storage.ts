@@ -0,0 +1,157 @@
+// Named stowage plans: vessel profile, tank assignments and notes. Plans are
+// kept in browser storage (with a separate autosave slot) and can be exported
+// to and imported from JSON files.
+import type { Tank } from './cargo_compatibility_engine';
+import { canHoldCargo, parseVesselProfile, serializeVesselProfile } from './vessel_profile';
+import type { VesselProfile } from './vessel_profile';
+import type { ChangeLogEntry } from './plan_history';
+
+export interface SavedStowagePlan {
+  version: 1;
+  name: string;
+  vessel: VesselProfile;
+  tanks: Record<string, Tank>;
+  notes: string;
+  savedAt: string;
+  changeLog: ChangeLogEntry[];
+}
+
+export type PlanStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+const PLANS_KEY = 'cargo-compatibility:plans';
+const AUTOSAVE_KEY = 'cargo-compatibility:autosave';
+
+export const defaultStorage = (): PlanStorage | null => {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  } catch (error) {
+    // Access throws when storage is disabled (e.g. some private browsing modes)
+    return null;
+  }
+};
+
+export const emptyTank = (): Tank => ({ chemical: '', group: null });
+
+// One record per cargo-carrying tank; assignments survive as long as their
+// tank id is still in the profile
+export const fitTanksToVessel = (tanks: Record<string, Tank>, vessel: VesselProfile): Record<string, Tank> => {
+  const fitted: Record<string, Tank> = {};
+  vessel.tanks.forEach(vesselTank => {
+    if (!canHoldCargo(vesselTank)) return;
+    fitted[vesselTank.id] = tanks[vesselTank.id] || emptyTank();
+  });
+  return fitted;
+};
+
+export const createPlan = (
+  name: string,
+  vessel: VesselProfile,
+  tanks: Record<string, Tank>,
+  notes = '',
+  changeLog: ChangeLogEntry[] = []
+): SavedStowagePlan => ({
+  version: 1,
+  name,
+  vessel,
+  tanks: fitTanksToVessel(tanks, vessel),
+  notes,
+  savedAt: new Date().toISOString(),
+  changeLog
+});
+
+export const serializePlan = (plan: SavedStowagePlan) => JSON.stringify(plan, null, 2);
+
+export const parsePlan = (json: string): SavedStowagePlan => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Stowage plan is not valid JSON: ${(error as Error).message}`);
+  }
+  if (!data || typeof data !== 'object' || !data.vessel || !data.tanks || typeof data.tanks !== 'object') {
+    throw new Error('Stowage plan must contain "vessel" and "tanks".');
+  }
+
+  // Round-trip the vessel through its own parser so it gets the same checks
+  const vessel = parseVesselProfile(serializeVesselProfile(data.vessel));
+  const tanks: Record<string, Tank> = {};
+  Object.entries(data.tanks).forEach(([tankId, tank]: [string, any]) => {
+    tanks[tankId] = {
+      chemical: typeof tank?.chemical === 'string' ? tank.chemical : '',
+      group: tank?.group ?? null,
+      ...(tank?.chemicalData ? { chemicalData: tank.chemicalData } : {}),
+      ...(Array.isArray(tank?.components) && tank.components.length > 0 ? { components: tank.components } : {}),
+      ...(typeof tank?.quantity === 'number' ? { quantity: tank.quantity } : {}),
+      ...(tank?.quantityUnit === 'm3' || tank?.quantityUnit === 't' ? { quantityUnit: tank.quantityUnit } : {}),
+      ...(typeof tank?.density === 'number' ? { density: tank.density } : {}),
+      ...(Array.isArray(tank?.previousCargoes) ? { previousCargoes: tank.previousCargoes } : {})
+    };
+  });
+
+  return {
+    version: 1,
+    name: typeof data.name === 'string' && data.name.trim() ? data.name : vessel.name,
+    vessel,
+    tanks: fitTanksToVessel(tanks, vessel),
+    notes: typeof data.notes === 'string' ? data.notes : '',
+    savedAt: typeof data.savedAt === 'string' ? data.savedAt : new Date().toISOString(),
+    changeLog: Array.isArray(data.changeLog)
+      ? data.changeLog.filter((entry: any) => entry && typeof entry.sequence === 'number' && typeof entry.timestamp === 'string')
+      : []
+  };
+};
+
+const readJson = (storage: PlanStorage | null, key: string) => {
+  if (!storage) return null;
+  try {
+    const raw = storage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+export const listSavedPlans = (storage = defaultStorage()): SavedStowagePlan[] => {
+  const plans = readJson(storage, PLANS_KEY);
+  if (!Array.isArray(plans)) return [];
+  return plans.flatMap(plan => {
+    try {
+      return [parsePlan(JSON.stringify(plan))];
+    } catch (error) {
+      return [];
+    }
+  });
+};
+
+// Saving under an existing name replaces that plan
+export const savePlan = (plan: SavedStowagePlan, storage = defaultStorage()) => {
+  if (!storage) {
+    throw new Error('Browser storage is not available; export the plan to a file instead.');
+  }
+  const plans = listSavedPlans(storage).filter(saved => saved.name !== plan.name);
+  storage.setItem(PLANS_KEY, JSON.stringify([...plans, plan]));
+};
+
+export const deletePlan = (name: string, storage = defaultStorage()) => {
+  if (!storage) return;
+  storage.setItem(PLANS_KEY, JSON.stringify(listSavedPlans(storage).filter(saved => saved.name !== name)));
+};
+
+export const readAutosave = (storage = defaultStorage()): SavedStowagePlan | null => {
+  const plan = readJson(storage, AUTOSAVE_KEY);
+  if (!plan) return null;
+  try {
+    return parsePlan(JSON.stringify(plan));
+  } catch (error) {
+    return null;
+  }
+};
+
+export const writeAutosave = (plan: SavedStowagePlan, storage = defaultStorage()) => {
+  if (!storage) return;
+  try {
+    storage.setItem(AUTOSAVE_KEY, JSON.stringify(plan));
+  } catch (error) {
+    // Quota errors must not interrupt editing; the next change retries
+  }
+};
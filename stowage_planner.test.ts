@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { buildCompatibilityChart, emptyReferenceData } from './cargo_compatibility_engine';
+import type { ReferenceData } from './cargo_compatibility_engine';
+import { autoStow, parseCargoList } from './stowage_planner';
+import { createGridProfile } from './vessel_profile';
+
+const referenceData: ReferenceData = {
+  ...emptyReferenceData(),
+  chemicals: [
+    { 'Chemical name': 'Acetic acid', 'Group No.': 4 },
+    { 'Chemical name': 'Caustic soda', 'Group No.': 5 },
+    { 'Chemical name': 'Methanol', 'Group No.': 20 }
+  ],
+  chart: buildCompatibilityChart([
+    { 'REACTIVE GROUP': '4. Organic acids', '5': 'X' },
+    { 'REACTIVE GROUP': '5. Caustics', '4': 'X' }
+  ])
+};
+
+// Rows A and B, three tanks each; corners count as contact
+const vessel = createGridProfile(3, 2);
+
+const cargoesIn = (tanks: Record<string, { chemical: string }>) =>
+  Object.values(tanks).map(tank => tank.chemical).filter(Boolean).sort();
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('parseCargoList', () => {
+  it('reads one cargo per line with optional pins', () => {
+    expect(parseCargoList('Methanol @ A1\n\nAcetic acid\n', vessel)).toEqual([
+      { chemical: 'Methanol', pinnedTank: '0-0' },
+      { chemical: 'Acetic acid', pinnedTank: null }
+    ]);
+  });
+});
+
+describe('autoStow', () => {
+  it('keeps incompatible cargoes apart', () => {
+    const solution = autoStow(vessel, parseCargoList('Acetic acid\nCaustic soda\nMethanol', vessel), referenceData);
+    expect(solution.complete).toBe(true);
+    expect(solution.problems).toEqual([]);
+    expect(cargoesIn(solution.tanks)).toEqual(['Acetic acid', 'Caustic soda', 'Methanol']);
+  });
+
+  it('honours pins', () => {
+    const solution = autoStow(vessel, parseCargoList('Caustic soda @ B1\nAcetic acid', vessel), referenceData);
+    expect(solution.tanks['1-0'].chemical).toBe('Caustic soda');
+    expect(solution.complete).toBe(true);
+  });
+
+  it('explains cargoes that are not in the index', () => {
+    const solution = autoStow(vessel, parseCargoList('Unobtainium', vessel), referenceData);
+    expect(solution.complete).toBe(false);
+    expect(solution.unplaced).toEqual([{ chemical: 'Unobtainium', pinnedTank: null }]);
+  });
+
+  it('reports a partial plan when the cargoes cannot all be kept apart', () => {
+    const solution = autoStow(vessel, parseCargoList('Acetic acid\nAcetic acid\nAcetic acid\nCaustic soda\nCaustic soda\nCaustic soda', vessel), referenceData);
+    expect(solution.complete).toBe(false);
+    expect(solution.problems).toEqual([]);
+    expect(solution.unplaced.length).toBeGreaterThan(0);
+  });
+
+  it('stops at the time limit and says no plan was found in time', () => {
+    let now = 0;
+    vi.spyOn(Date, 'now').mockImplementation(() => (now += 1000));
+    const solution = autoStow(
+      vessel,
+      parseCargoList('Acetic acid\nAcetic acid\nAcetic acid\nCaustic soda\nCaustic soda\nCaustic soda', vessel),
+      referenceData,
+      { timeLimitMs: 1500 }
+    );
+    expect(solution.complete).toBe(false);
+    expect(solution.explanation.some(line => line.startsWith('No plan found in time'))).toBe(true);
+  });
+});
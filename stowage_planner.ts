@@ -0,0 +1,213 @@
+// Auto-stow: assign a list of nominated cargoes to the vessel's tanks so that
+// no enforced adjacency is incompatible. Uses the same chart and exception
+// rules as analyze() and re-runs analyze() on whatever it produces.
+import {
+  analyze,
+  checkPair,
+  DEFAULT_ADJACENCY_POLICY,
+  isIncompatible,
+  toTank
+} from './cargo_compatibility_engine';
+import type {
+  AnalysisOptions,
+  Chemical,
+  Problem,
+  ReferenceData,
+  Tank
+} from './cargo_compatibility_engine';
+import { resolveChemical } from './chemical_lookup';
+import { canHoldCargo, findTank, findTankByLabel, getAdjacencies, tankLabel } from './vessel_profile';
+import type { VesselProfile } from './vessel_profile';
+
+export interface CargoNomination {
+  chemical: string;
+  pinnedTank?: string | null;
+}
+
+export interface StowageSolution {
+  tanks: Record<string, Tank>;
+  complete: boolean;
+  unplaced: CargoNomination[];
+  problems: Problem[];
+  explanation: string[];
+}
+
+export interface AutoStowOptions extends AnalysisOptions {
+  // Upper bounds on search steps and run time so a hopeless nomination
+  // cannot hang the UI
+  maxSteps?: number;
+  timeLimitMs?: number;
+}
+
+const DEFAULT_MAX_STEPS = 50000;
+const DEFAULT_TIME_LIMIT_MS = 2000;
+
+// One cargo per line, optionally pinned with "@ <tank label>", e.g. "Methanol @ A3"
+export const parseCargoList = (text: string, vessel: VesselProfile): CargoNomination[] =>
+  text.split('\n')
+    .map(line => line.trim())
+    .filter(line => line !== '')
+    .map(line => {
+      const [chemical, pin] = line.split('@').map(part => part.trim());
+      const pinned = pin ? findTankByLabel(vessel, pin) : null;
+      return { chemical, pinnedTank: pin ? (pinned ? pinned.id : pin) : null };
+    });
+
+export const autoStow = (
+  vessel: VesselProfile,
+  cargoes: CargoNomination[],
+  referenceData: ReferenceData,
+  options: AutoStowOptions = {}
+): StowageSolution => {
+  const policy = options.adjacencyPolicy || DEFAULT_ADJACENCY_POLICY;
+  const maxSteps = options.maxSteps || DEFAULT_MAX_STEPS;
+  const timeLimitMs = options.timeLimitMs || DEFAULT_TIME_LIMIT_MS;
+  const explanation: string[] = [];
+  const unplaced: CargoNomination[] = [];
+
+  const cargoTanks = vessel.tanks.filter(canHoldCargo).map(tank => tank.id);
+  const assignment: Record<string, Tank> = {};
+
+  // Resolve names up front; anything unusable is explained and dropped
+  const resolved: { nomination: CargoNomination; chemical: Chemical }[] = [];
+  cargoes.forEach(nomination => {
+    const lookup = resolveChemical(nomination.chemical, referenceData.chemicals);
+    if (lookup.status !== 'found') {
+      unplaced.push(nomination);
+      explanation.push(lookup.status === 'ambiguous'
+        ? `'${nomination.chemical}' matches several chemicals (${lookup.candidates.map(c => c.chemical.name).join(', ')}); use the exact name, UN or CAS number.`
+        : `'${nomination.chemical}' is not in the approved cargo index.`);
+      return;
+    }
+    resolved.push({ nomination, chemical: lookup.chemical });
+  });
+
+  // Every pair of nominated cargoes is checked once; the search and the
+  // placement order only look the answers up
+  const clashes = new Map<string, Set<string>>();
+  const chemicals = Array.from(new Map(resolved.map(({ chemical }) => [chemical.name, chemical])).values());
+  chemicals.forEach((first, index) => {
+    chemicals.slice(index).forEach(second => {
+      if (!isIncompatible(checkPair(first.name, first.group, second.name, second.group, referenceData).compatibility)) return;
+      clashes.set(first.name, (clashes.get(first.name) || new Set()).add(second.name));
+      clashes.set(second.name, (clashes.get(second.name) || new Set()).add(first.name));
+    });
+  });
+  const clash = (chemical: string, other: string) => !!clashes.get(chemical)?.has(other);
+
+  // Would putting this chemical into tankId touch an incompatible cargo?
+  const blockers = (tankId: string, chemical: Chemical) =>
+    getAdjacencies(vessel, tankId)
+      .filter(adj => policy[adj.type] && assignment[adj.tankId] && clash(chemical.name, assignment[adj.tankId].chemical))
+      .map(adj => adj.tankId);
+
+  // Pins go in first; a pin that cannot be honoured is explained and dropped
+  const pending: { nomination: CargoNomination; chemical: Chemical }[] = [];
+  resolved.forEach(({ nomination, chemical }) => {
+    if (!nomination.pinnedTank) {
+      pending.push({ nomination, chemical });
+      return;
+    }
+
+    const pinned = findTank(vessel, nomination.pinnedTank);
+    if (!pinned || !canHoldCargo(pinned)) {
+      unplaced.push(nomination);
+      explanation.push(`${chemical.name} is pinned to '${nomination.pinnedTank}', which is not a cargo tank on ${vessel.name}.`);
+    } else if (assignment[pinned.id]) {
+      unplaced.push(nomination);
+      explanation.push(`${chemical.name} and ${assignment[pinned.id].chemical} are both pinned to Tank ${pinned.label}.`);
+    } else {
+      blockers(pinned.id, chemical).forEach(other => {
+        explanation.push(`Pinned cargoes ${chemical.name} (Tank ${pinned.label}) and ${assignment[other].chemical} (Tank ${tankLabel(vessel, other)}) are incompatible.`);
+      });
+      assignment[pinned.id] = toTank(chemical);
+    }
+  });
+
+  const freeTanks = cargoTanks.filter(tankId => !assignment[tankId]);
+  if (pending.length > freeTanks.length) {
+    explanation.push(`${pending.length} cargoes need a tank but only ${freeTanks.length} free cargo tanks are available.`);
+  }
+
+  // Place the hardest cargoes first: those incompatible with the most others
+  const conflictCount = (chemical: Chemical) => pending.filter(other => clash(chemical.name, other.chemical.name)).length;
+  const order = [...pending].sort((a, b) => conflictCount(b.chemical) - conflictCount(a.chemical));
+
+  let steps = 0;
+  let timedOut = false;
+  const deadline = Date.now() + timeLimitMs;
+  const outOfBudget = () => {
+    timedOut = timedOut || Date.now() > deadline;
+    return steps > maxSteps || timedOut;
+  };
+  let bestDepth = -1;
+  let bestAssignment: Record<string, Tank> = { ...assignment };
+
+  const search = (depth: number): boolean => {
+    if (depth > bestDepth) {
+      bestDepth = depth;
+      bestAssignment = { ...assignment };
+    }
+    if (depth === order.length) return true;
+    steps++;
+    if (outOfBudget()) return false;
+
+    const { chemical } = order[depth];
+    for (const tankId of cargoTanks) {
+      if (assignment[tankId] || blockers(tankId, chemical).length > 0) continue;
+      assignment[tankId] = toTank(chemical);
+      if (search(depth + 1)) return true;
+      delete assignment[tankId];
+      if (outOfBudget()) return false;
+    }
+    return false;
+  };
+
+  const solved = search(0);
+  if (!solved) {
+    if (timedOut) {
+      explanation.push(`No plan found in time: the search stopped after ${timeLimitMs / 1000} s; showing the best partial stowage found.`);
+    } else if (steps > maxSteps) {
+      explanation.push(`Search stopped after ${maxSteps} steps; showing the best partial stowage found.`);
+    }
+
+    // Start from the deepest partial plan, then fit in whatever else still goes
+    Object.keys(assignment).forEach(tankId => { delete assignment[tankId]; });
+    Object.assign(assignment, bestAssignment);
+
+    order.slice(Math.max(bestDepth, 0)).forEach(({ nomination, chemical }) => {
+      const tankId = cargoTanks.find(id => !assignment[id] && blockers(id, chemical).length === 0);
+      if (tankId) {
+        assignment[tankId] = toTank(chemical);
+        return;
+      }
+
+      unplaced.push(nomination);
+      const reasons = Array.from(new Set(
+        cargoTanks
+          .filter(id => !assignment[id])
+          .flatMap(id => blockers(id, chemical))
+          .map(id => assignment[id].chemical)
+      ));
+      explanation.push(reasons.length > 0
+        ? `${chemical.name} could not be placed: every free tank is adjacent to ${reasons.join(', ')}.`
+        : `${chemical.name} could not be placed: no free cargo tank left.`);
+    });
+  }
+
+  const tanks: Record<string, Tank> = {};
+  cargoTanks.forEach(tankId => {
+    tanks[tankId] = assignment[tankId] || { chemical: '', group: null };
+  });
+
+  // Verify with the full analysis rather than trusting the search
+  const { problems } = analyze({ vessel, tanks }, referenceData, options);
+
+  return {
+    tanks,
+    complete: unplaced.length === 0 && problems.length === 0,
+    unplaced,
+    problems,
+    explanation
+  };
+};
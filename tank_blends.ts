@@ -0,0 +1,77 @@
+// Commingled cargoes and blends, entered as e.g. "Methanol 60% + Ethanol 40%".
+// Proportions are optional and in percent by volume.
+import type { ChemicalIndexRow, Tank, TankComponent } from './cargo_compatibility_engine';
+import { resolveChemical } from './chemical_lookup';
+
+export interface BlendEntry {
+  chemical: string;
+  proportion: number | null;
+}
+
+export const isBlendText = (text: string) => text.includes('+');
+
+export const parseBlend = (text: string): BlendEntry[] =>
+  text.split('+')
+    .map(part => part.trim())
+    .filter(part => part !== '')
+    .map(part => {
+      const match = part.match(/^(.*?)\s*(\d+(?:\.\d+)?)\s*%$/);
+      return match
+        ? { chemical: match[1].trim(), proportion: parseFloat(match[2]) }
+        : { chemical: part, proportion: null };
+    });
+
+// Every component must identify exactly one chemical; the largest share
+// becomes the tank's main cargo
+export const resolveBlend = (text: string, chemicals: ChemicalIndexRow[]): Tank => {
+  const entries = parseBlend(text);
+  const errors: string[] = [];
+  const components: TankComponent[] = [];
+
+  entries.forEach(entry => {
+    const lookup = resolveChemical(entry.chemical, chemicals);
+    if (lookup.status === 'found') {
+      if (components.some(component => component.chemical === lookup.chemical.name)) {
+        errors.push(`${lookup.chemical.name} is listed more than once.`);
+        return;
+      }
+      components.push({
+        chemical: lookup.chemical.name,
+        group: lookup.chemical.group,
+        chemicalData: lookup.chemical,
+        proportion: entry.proportion
+      });
+    } else if (lookup.status === 'ambiguous') {
+      errors.push(`'${entry.chemical}' matches ${lookup.candidates.length} chemicals (${lookup.candidates.slice(0, 3).map(match => match.chemical.name).join(', ')}${lookup.candidates.length > 3 ? ', ...' : ''}).`);
+    } else {
+      errors.push(`'${entry.chemical}' not found in approved cargo index.`);
+    }
+  });
+
+  if (entries.length < 2) {
+    errors.push('A blend needs at least two components separated by "+".');
+  }
+  const total = entries.reduce((sum, entry) => sum + (entry.proportion || 0), 0);
+  if (total > 100) {
+    errors.push(`Proportions add up to ${total}%.`);
+  }
+  if (errors.length > 0) {
+    throw new Error(errors.join(' '));
+  }
+
+  const main = components.reduce((largest, component) =>
+    (component.proportion || 0) > (largest.proportion || 0) ? component : largest
+  );
+  return { chemical: main.chemical, group: main.group, chemicalData: main.chemicalData, components };
+};
+
+const describeComponent = (component: TankComponent) =>
+  component.proportion !== null && component.proportion !== undefined
+    ? `${component.chemical} ${component.proportion}%`
+    : component.chemical;
+
+// Text shown for a tank; round-trips through resolveBlend
+export const describeTank = (tank: Tank) =>
+  tank.components && tank.components.length > 1
+    ? tank.components.map(describeComponent).join(' + ')
+    : tank.chemical || '';
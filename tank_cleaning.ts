@@ -0,0 +1,97 @@
+// Residue checks between a tank's new cargo and the cargoes it last carried,
+// and the cleaning level that follows from them.
+import { checkPair, isIncompatible, isLoaded, tankComponents } from './cargo_compatibility_engine';
+import type { Compatibility, PreviousCargo, ReferenceData, Tank, TankComponent } from './cargo_compatibility_engine';
+
+export type CleaningLevel = 'none' | 'water_wash' | 'full_cleaning';
+
+export const CLEANING_LEVEL_LABELS: Record<CleaningLevel, string> = {
+  none: 'No cleaning',
+  water_wash: 'Water wash',
+  full_cleaning: 'Full cleaning'
+};
+
+const CLEANING_ORDER: CleaningLevel[] = ['none', 'water_wash', 'full_cleaning'];
+
+// Only the most recent cargoes can leave residue worth checking
+export const RESIDUE_HISTORY_DEPTH = 3;
+
+export interface ResidueFinding {
+  previousCargo: string;
+  previousGroup: PreviousCargo['group'];
+  // 1 for the last cargo, 2 for the one before it, ...
+  position: number;
+  compatibility: Compatibility | null;
+  cleaning: CleaningLevel;
+  reason: string;
+}
+
+export interface CleaningAssessment {
+  tankId: string;
+  chemical: string;
+  level: CleaningLevel;
+  findings: ResidueFinding[];
+}
+
+const assessResidue = (tank: TankComponent, previous: PreviousCargo, position: number, referenceData: ReferenceData): ResidueFinding => {
+  const finding = (compatibility: Compatibility | null, cleaning: CleaningLevel, reason: string) => ({
+    previousCargo: previous.chemical,
+    previousGroup: previous.group,
+    position,
+    compatibility,
+    cleaning,
+    reason
+  });
+
+  if (previous.chemical === tank.chemical) {
+    return finding(null, 'none', `Same cargo as before (${previous.chemical}).`);
+  }
+  if (previous.group === null || previous.group === undefined || tank.group === null || tank.group === undefined) {
+    return finding(null, 'full_cleaning', `Reactive group of ${previous.group === null || previous.group === undefined ? previous.chemical : tank.chemical} is unknown; compatibility with the residue cannot be established.`);
+  }
+
+  const { compatibility } = checkPair(tank.chemical, tank.group, previous.chemical, previous.group, referenceData);
+  if (isIncompatible(compatibility)) {
+    return finding(compatibility, 'full_cleaning', `Residue of ${previous.chemical} (Group ${previous.group}) is incompatible with ${tank.chemical} (Group ${tank.group}).`);
+  }
+  // Compatible residue from older cargoes has been diluted by the cargoes since
+  return position === 1
+    ? finding(compatibility, 'water_wash', `Different but compatible last cargo (${previous.chemical}).`)
+    : finding(compatibility, 'none', `Earlier cargo ${previous.chemical} is compatible.`);
+};
+
+export const assessTankCleaning = (tankId: string, tank: Tank, referenceData: ReferenceData): CleaningAssessment | null => {
+  if (!isLoaded(tank)) return null;
+  const history = (tank.previousCargoes || [])
+    .slice(0, RESIDUE_HISTORY_DEPTH)
+    .filter(previous => previous && previous.chemical);
+  // A blend is checked component by component
+  const findings = tankComponents(tank).flatMap(component =>
+    history.map((previous, index) => assessResidue(component, previous, index + 1, referenceData))
+  );
+  const level = findings.reduce<CleaningLevel>(
+    (highest, finding) => CLEANING_ORDER.indexOf(finding.cleaning) > CLEANING_ORDER.indexOf(highest) ? finding.cleaning : highest,
+    'none'
+  );
+  return { tankId, chemical: tank.chemical, level, findings };
+};
+
+export const assessCleaning = (tanks: Record<string, Tank>, referenceData: ReferenceData): Record<string, CleaningAssessment> => {
+  const assessments: Record<string, CleaningAssessment> = {};
+  Object.entries(tanks).forEach(([tankId, tank]) => {
+    const assessment = assessTankCleaning(tankId, tank, referenceData);
+    if (assessment) assessments[tankId] = assessment;
+  });
+  return assessments;
+};
+
+// Empty the tank; its cargo becomes the most recent entry in the history (a
+// blend leaves one entry per component)
+export const dischargeTank = (tank: Tank): Tank => ({
+  chemical: '',
+  group: null,
+  previousCargoes: [
+    ...tankComponents(tank).map(({ chemical, group, chemicalData }) => ({ chemical, group, chemicalData })),
+    ...(tank.previousCargoes || [])
+  ]
+});
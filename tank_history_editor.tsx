@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { History, Plus, Trash2 } from 'lucide-react';
+import type { ChemicalIndexRow, PreviousCargo, Tank } from './cargo_compatibility_engine';
+import { resolveChemical } from './chemical_lookup';
+import { RESIDUE_HISTORY_DEPTH } from './tank_cleaning';
+import { canHoldCargo } from './vessel_profile';
+import type { VesselProfile } from './vessel_profile';
+
+interface TankHistoryEditorProps {
+  vessel: VesselProfile;
+  tanks: Record<string, Tank>;
+  chemicals: ChemicalIndexRow[];
+  onChange: (tankId: string, previousCargoes: PreviousCargo[]) => void;
+  onError: (message: string) => void;
+}
+
+const TankHistoryEditor = ({ vessel, tanks, chemicals, onChange, onError }: TankHistoryEditorProps) => {
+  const cargoTanks = vessel.tanks.filter(canHoldCargo);
+  const [selectedId, setTankId] = useState(cargoTanks[0]?.id || '');
+  const [cargoName, setCargoName] = useState('');
+
+  // Fall back to the first tank when the layout no longer has the selected one
+  const tankId = cargoTanks.some(tank => tank.id === selectedId) ? selectedId : cargoTanks[0]?.id || '';
+
+  const history = tanks[tankId]?.previousCargoes || [];
+
+  // New entries go on top: the last cargo carried is the most recent
+  const addPreviousCargo = () => {
+    const lookup = resolveChemical(cargoName, chemicals);
+    if (lookup.status === 'ambiguous') {
+      onError(`'${cargoName}' matches ${lookup.candidates.length} chemicals: ${lookup.candidates.map(match => match.chemical.name).join(', ')}. Use the exact name, UN or CAS number.`);
+      return;
+    }
+    if (lookup.status === 'not_found') {
+      onError(`Previous cargo '${cargoName}' not found in the cargo index.`);
+      return;
+    }
+    onChange(tankId, [{ chemical: lookup.chemical.name, group: lookup.chemical.group, chemicalData: lookup.chemical }, ...history]);
+    setCargoName('');
+  };
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg">
+      <h2 className="text-xl font-semibold mb-2 flex items-center gap-2">
+        <History className="w-5 h-5" />
+        Previous Cargoes
+      </h2>
+      <p className="text-sm text-gray-600 mb-2">
+        Last cargoes per tank, most recent first. The last {RESIDUE_HISTORY_DEPTH} are checked against the new cargo.
+      </p>
+      <div className="flex gap-2 items-end">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Tank</label>
+          <select value={tankId} onChange={(e) => setTankId(e.target.value)} className="p-2 border rounded-md">
+            {cargoTanks.map(tank => (
+              <option key={tank.id} value={tank.id}>{tank.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Previous cargo</label>
+          <input
+            type="text"
+            value={cargoName}
+            onChange={(e) => setCargoName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && cargoName.trim() && addPreviousCargo()}
+            placeholder="Name, UN or CAS no."
+            className="w-full p-2 border rounded-md"
+          />
+        </div>
+        <button
+          onClick={addPreviousCargo}
+          disabled={!tankId || !cargoName.trim()}
+          className="flex items-center gap-2 px-4 py-2 bg-gray-200 rounded-md hover:bg-gray-300 disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" />
+          Add
+        </button>
+      </div>
+
+      {history.length > 0 && (
+        <ol className="mt-3 border rounded bg-white divide-y text-sm">
+          {history.map((previous, index) => (
+            <li key={index} className={`flex items-center justify-between p-2 ${index >= RESIDUE_HISTORY_DEPTH ? 'text-gray-400' : ''}`}>
+              <span>
+                {index + 1}. {previous.chemical}
+                {previous.group !== null && previous.group !== undefined && <span className="text-gray-500"> (Group {previous.group})</span>}
+              </span>
+              <button
+                onClick={() => onChange(tankId, history.filter((_, i) => i !== index))}
+                className="p-1 text-gray-400 hover:text-red-600"
+                title="Remove from history"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default TankHistoryEditor;
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import type { Tank } from './cargo_compatibility_engine';
+import { assessQuantities, formatQuantity, parseNomination, tankVolume, tankWeight } from './tank_quantities';
+import { createGridProfile, updateTank } from './vessel_profile';
+
+// Three tanks in a row: 1000 m³, 500 m³ and one with no capacity recorded
+const vessel = updateTank(updateTank(createGridProfile(3, 1), '0-0', { capacity: 1000 }), '0-1', { capacity: 500 });
+
+const cargo = (chemical: string, nomination: Partial<Tank>): Tank => ({ chemical, group: 20, ...nomination });
+
+describe('tankVolume and tankWeight', () => {
+  it('converts between m³ and t with the density', () => {
+    const tank = cargo('Methanol', { quantity: 790, quantityUnit: 't', density: 0.79 });
+    expect(tankVolume(tank)).toBeCloseTo(1000);
+    expect(tankWeight(tank)).toBe(790);
+    expect(tankWeight(cargo('Methanol', { quantity: 100, density: 0.79 }))).toBeCloseTo(79);
+  });
+
+  it('cannot convert without a density', () => {
+    expect(tankVolume(cargo('Methanol', { quantity: 790, quantityUnit: 't' }))).toBeNull();
+    expect(tankWeight(cargo('Methanol', { quantity: 100 }))).toBeNull();
+    expect(tankVolume(cargo('Methanol', {}))).toBeNull();
+  });
+});
+
+describe('assessQuantities', () => {
+  it('checks each fill against the limit', () => {
+    const assessment = assessQuantities(vessel, {
+      '0-0': cargo('Methanol', { quantity: 980 }),
+      '0-1': cargo('Methanol', { quantity: 495 })
+    });
+    expect(assessment.tanks.map(tank => [tank.tankId, tank.status, tank.fillPercent])).toEqual([
+      ['0-0', 'ok', 98],
+      ['0-1', 'overfill', 99]
+    ]);
+    expect(assessment.tanks[1].message).toBe('Filled to 99% of 500 m³, above the 98% fill limit (490 m³).');
+    expect(assessment.overfilled).toBe(1);
+    expect(assessment.totalCapacity).toBe(1500);
+  });
+
+  it('cannot check a fill without a volume or a capacity', () => {
+    const assessment = assessQuantities(vessel, {
+      '0-0': cargo('Methanol', { quantity: 500, quantityUnit: 't' }),
+      '0-2': cargo('Ethanol', { quantity: 100 })
+    });
+    expect(assessment.tanks.map(tank => tank.status)).toEqual(['unknown', 'unknown']);
+    expect(assessment.overfilled).toBe(0);
+  });
+
+  it('totals each cargo and marks totals that miss a conversion', () => {
+    const assessment = assessQuantities(vessel, {
+      '0-0': cargo('Methanol', { quantity: 500, density: 0.8 }),
+      '0-1': cargo('Methanol', { quantity: 200 }),
+      '0-2': cargo('Ethanol', { quantity: 100, quantityUnit: 't', density: 0.8 })
+    });
+    expect(assessment.cargoTotals).toEqual([
+      { cargo: 'Ethanol', tanks: 1, volume: 125, weight: 100, incomplete: false },
+      { cargo: 'Methanol', tanks: 2, volume: 700, weight: 400, incomplete: true }
+    ]);
+    expect(assessment.totalVolume).toBe(825);
+    expect(assessment.incomplete).toBe(true);
+  });
+
+  it('leaves out empty tanks and tanks without a nomination', () => {
+    const assessment = assessQuantities(vessel, { '0-0': cargo('Methanol', {}), '0-1': { chemical: '', group: null, quantity: 10 } });
+    expect(assessment.tanks).toEqual([]);
+  });
+
+  it('rejects a fill limit that is not a percentage', () => {
+    expect(() => assessQuantities(vessel, {}, 0)).toThrow('Fill limit must be a percentage above 0 and at most 100, not 0.');
+    expect(() => assessQuantities(vessel, {}, 120)).toThrow();
+  });
+});
+
+describe('formatQuantity', () => {
+  it('shows a dash for a missing value', () => {
+    expect(formatQuantity(1234.56, 'm3')).toBe('1,234.6 m³');
+    expect(formatQuantity(null, 't')).toBe('—');
+  });
+});
+
+describe('parseNomination', () => {
+  it('reads a number of zero or more and clears on an empty entry', () => {
+    expect(parseNomination(' 790.5 ', 'Quantity')).toBe(790.5);
+    expect(parseNomination('0', 'Quantity')).toBe(0);
+    expect(parseNomination('', 'Quantity')).toBeNull();
+  });
+
+  it('refuses negative and non-finite entries', () => {
+    expect(() => parseNomination('-5', 'Tank A1 quantity')).toThrow("Tank A1 quantity '-5' must be a number of zero or more.");
+    expect(() => parseNomination('NaN', 'Density')).toThrow("Density 'NaN' must be a number of zero or more.");
+    expect(() => parseNomination('1e400', 'Density')).toThrow('must be a number of zero or more');
+  });
+});
@@ -0,0 +1,137 @@
+// Cargo quantities: volume and weight of every nomination, the fill of each
+// tank against its capacity and the fill limit, and totals per cargo and for
+// the vessel.
+import { isLoaded } from './cargo_compatibility_engine';
+import type { QuantityUnit, Tank } from './cargo_compatibility_engine';
+import { describeTank } from './tank_blends';
+import { canHoldCargo } from './vessel_profile';
+import type { VesselProfile } from './vessel_profile';
+
+export const QUANTITY_UNIT_LABELS: Record<QuantityUnit, string> = {
+  m3: 'm³',
+  t: 't'
+};
+
+// Percent of capacity a tank may be filled to
+export const DEFAULT_FILL_LIMIT = 98;
+
+// 'unknown' when the volume or the capacity is missing
+export type FillStatus = 'ok' | 'overfill' | 'unknown';
+
+export interface TankQuantity {
+  tankId: string;
+  cargo: string;
+  // m³ and t; null when the density needed to convert is missing
+  volume: number | null;
+  weight: number | null;
+  capacity: number | null;
+  fillPercent: number | null;
+  status: FillStatus;
+  message: string;
+}
+
+export interface CargoTotal {
+  cargo: string;
+  tanks: number;
+  volume: number;
+  weight: number;
+  // Some tanks of this cargo could not be converted and are left out of a total
+  incomplete: boolean;
+}
+
+export interface QuantityAssessment {
+  fillLimit: number;
+  tanks: TankQuantity[];
+  cargoTotals: CargoTotal[];
+  totalVolume: number;
+  totalWeight: number;
+  totalCapacity: number;
+  incomplete: boolean;
+  overfilled: number;
+}
+
+// A typed quantity or density; like a tank capacity, it must be a finite
+// number, and a negative one is refused rather than stored
+export const parseNomination = (text: string, field: string): number | null => {
+  if (text.trim() === '') return null;
+  const value = Number(text);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`${field} '${text}' must be a number of zero or more.`);
+  }
+  return value;
+};
+
+const round = (value: number, digits = 3) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const hasDensity = (tank: Tank) => typeof tank.density === 'number' && tank.density > 0;
+
+export const tankVolume = (tank: Tank): number | null => {
+  if (typeof tank.quantity !== 'number') return null;
+  if ((tank.quantityUnit || 'm3') === 'm3') return tank.quantity;
+  return hasDensity(tank) ? tank.quantity / (tank.density as number) : null;
+};
+
+export const tankWeight = (tank: Tank): number | null => {
+  if (typeof tank.quantity !== 'number') return null;
+  if (tank.quantityUnit === 't') return tank.quantity;
+  return hasDensity(tank) ? tank.quantity * (tank.density as number) : null;
+};
+
+export const formatQuantity = (value: number | null, unit: QuantityUnit) =>
+  value === null ? '—' : `${round(value, 1).toLocaleString('en-US')} ${QUANTITY_UNIT_LABELS[unit]}`;
+
+// Loaded tanks with a nominated quantity are checked; others are left out
+export const assessQuantities = (
+  vessel: VesselProfile,
+  tanks: Record<string, Tank>,
+  fillLimit = DEFAULT_FILL_LIMIT
+): QuantityAssessment => {
+  if (!(fillLimit > 0 && fillLimit <= 100)) {
+    throw new Error(`Fill limit must be a percentage above 0 and at most 100, not ${fillLimit}.`);
+  }
+
+  const quantities: TankQuantity[] = vessel.tanks
+    .filter(vesselTank => canHoldCargo(vesselTank) && isLoaded(tanks[vesselTank.id]) && typeof tanks[vesselTank.id].quantity === 'number')
+    .map(vesselTank => {
+      const tank = tanks[vesselTank.id];
+      const volume = tankVolume(tank);
+      const weight = tankWeight(tank);
+      const capacity = vesselTank.capacity && vesselTank.capacity > 0 ? vesselTank.capacity : null;
+      const base = { tankId: vesselTank.id, cargo: describeTank(tank), volume, weight, capacity };
+
+      if (volume === null) {
+        return { ...base, fillPercent: null, status: 'unknown', message: 'Quantity is in tonnes but no density is given; the fill cannot be checked.' };
+      }
+      if (capacity === null) {
+        return { ...base, fillPercent: null, status: 'unknown', message: 'Tank capacity is not recorded; the fill cannot be checked.' };
+      }
+      const fillPercent = round((volume / capacity) * 100, 2);
+      return fillPercent > fillLimit
+        ? { ...base, fillPercent, status: 'overfill', message: `Filled to ${fillPercent}% of ${capacity} m³, above the ${fillLimit}% fill limit (${round(capacity * fillLimit / 100, 1)} m³).` }
+        : { ...base, fillPercent, status: 'ok', message: `Filled to ${fillPercent}%.` };
+    });
+
+  const totals = new Map<string, CargoTotal>();
+  quantities.forEach(quantity => {
+    const total = totals.get(quantity.cargo) || { cargo: quantity.cargo, tanks: 0, volume: 0, weight: 0, incomplete: false };
+    total.tanks += 1;
+    total.volume += quantity.volume ?? 0;
+    total.weight += quantity.weight ?? 0;
+    total.incomplete = total.incomplete || quantity.volume === null || quantity.weight === null;
+    totals.set(quantity.cargo, total);
+  });
+  const cargoTotals = Array.from(totals.values())
+    .map(total => ({ ...total, volume: round(total.volume), weight: round(total.weight) }))
+    .sort((a, b) => a.cargo.localeCompare(b.cargo));
+
+  return {
+    fillLimit,
+    tanks: quantities,
+    cargoTotals,
+    totalVolume: round(cargoTotals.reduce((sum, total) => sum + total.volume, 0)),
+    totalWeight: round(cargoTotals.reduce((sum, total) => sum + total.weight, 0)),
+    totalCapacity: round(vessel.tanks.filter(canHoldCargo).reduce((sum, tank) => sum + (tank.capacity || 0), 0)),
+    incomplete: cargoTotals.some(total => total.incomplete),
+    overfilled: quantities.filter(quantity => quantity.status === 'overfill').length
+  };
+};
@@ -0,0 +1,151 @@
+import React from 'react';
+import { Gauge } from 'lucide-react';
+import { isLoaded } from './cargo_compatibility_engine';
+import type { QuantityUnit, Tank } from './cargo_compatibility_engine';
+import { describeTank } from './tank_blends';
+import { formatQuantity, parseNomination, QUANTITY_UNIT_LABELS } from './tank_quantities';
+import type { QuantityAssessment } from './tank_quantities';
+import { canHoldCargo, tankLabel } from './vessel_profile';
+import type { VesselProfile } from './vessel_profile';
+
+type Nomination = Pick<Tank, 'quantity' | 'quantityUnit' | 'density'>;
+
+interface TankQuantitiesPanelProps {
+  vessel: VesselProfile;
+  tanks: Record<string, Tank>;
+  quantities: QuantityAssessment;
+  onChange: (tankId: string, nomination: Nomination) => void;
+  onError: (message: string) => void;
+}
+
+const TankQuantitiesPanel = ({ vessel, tanks, quantities, onChange, onError }: TankQuantitiesPanelProps) => {
+  // An invalid entry is reported and the stored value kept
+  const nominate = (tankId: string, nomination: Nomination, field: 'quantity' | 'density', text: string) => {
+    try {
+      onChange(tankId, { ...nomination, [field]: parseNomination(text, `Tank ${tankLabel(vessel, tankId)} ${field}`) });
+    } catch (error) {
+      onError((error as Error).message);
+    }
+  };
+
+  const loadedTanks = vessel.tanks.filter(vesselTank => canHoldCargo(vesselTank) && isLoaded(tanks[vesselTank.id]));
+  const byTank = new Map(quantities.tanks.map(quantity => [quantity.tankId, quantity]));
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg">
+      <h2 className="text-xl font-semibold mb-2 flex items-center gap-2">
+        <Gauge className="w-5 h-5" />
+        Quantities
+      </h2>
+      <p className="text-sm text-gray-600 mb-2">
+        Nominated quantity per tank, in m³ or tonnes. Tonnes need a density (t/m³) to be checked against the
+        tank capacity at the {quantities.fillLimit}% fill limit.
+      </p>
+
+      {loadedTanks.length === 0 ? (
+        <p className="text-sm text-gray-500">No cargo assigned.</p>
+      ) : (
+        <table className="w-full text-sm bg-white border">
+          <thead className="bg-gray-100 text-left">
+            <tr>
+              <th className="p-2">Tank</th>
+              <th className="p-2">Cargo</th>
+              <th className="p-2">Quantity</th>
+              <th className="p-2">Density</th>
+              <th className="p-2">Capacity</th>
+              <th className="p-2">Fill</th>
+            </tr>
+          </thead>
+          <tbody>
+            {loadedTanks.map(vesselTank => {
+              const tank = tanks[vesselTank.id];
+              const quantity = byTank.get(vesselTank.id);
+              const nomination = { quantity: tank.quantity ?? null, quantityUnit: tank.quantityUnit || 'm3', density: tank.density ?? null };
+              return (
+                <tr key={vesselTank.id} className={`border-t ${quantity?.status === 'overfill' ? 'bg-red-50' : ''}`}>
+                  <td className="p-2">{vesselTank.label}</td>
+                  <td className="p-2">{describeTank(tank)}</td>
+                  <td className="p-2">
+                    <div className="flex gap-1">
+                      <input
+                        type="number"
+                        min="0"
+                        value={nomination.quantity ?? ''}
+                        onChange={(e) => nominate(vesselTank.id, nomination, 'quantity', e.target.value)}
+                        className="w-24 p-1 border rounded"
+                      />
+                      <select
+                        value={nomination.quantityUnit}
+                        onChange={(e) => onChange(vesselTank.id, { ...nomination, quantityUnit: e.target.value as QuantityUnit })}
+                        className="p-1 border rounded"
+                      >
+                        {Object.entries(QUANTITY_UNIT_LABELS).map(([unit, label]) => (
+                          <option key={unit} value={unit}>{label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </td>
+                  <td className="p-2">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.001"
+                      value={nomination.density ?? ''}
+                      onChange={(e) => nominate(vesselTank.id, nomination, 'density', e.target.value)}
+                      placeholder="t/m³"
+                      className="w-20 p-1 border rounded"
+                    />
+                  </td>
+                  <td className="p-2">{formatQuantity(vesselTank.capacity ?? null, 'm3')}</td>
+                  <td
+                    className={`p-2 ${quantity?.status === 'overfill' ? 'text-red-700 font-medium' : quantity?.status === 'unknown' ? 'text-gray-500' : ''}`}
+                    title={quantity?.message}
+                  >
+                    {quantity?.fillPercent != null ? `${quantity.fillPercent}%` : '—'}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {quantities.cargoTotals.length > 0 && (
+        <table className="w-full text-sm bg-white border mt-3">
+          <thead className="bg-gray-100 text-left">
+            <tr>
+              <th className="p-2">Cargo</th>
+              <th className="p-2">Tanks</th>
+              <th className="p-2">Volume</th>
+              <th className="p-2">Weight</th>
+            </tr>
+          </thead>
+          <tbody>
+            {quantities.cargoTotals.map(total => (
+              <tr key={total.cargo} className="border-t">
+                <td className="p-2">
+                  {total.cargo}
+                  {total.incomplete && <span className="text-xs text-gray-500" title="Some quantities have no density"> (incomplete)</span>}
+                </td>
+                <td className="p-2">{total.tanks}</td>
+                <td className="p-2">{formatQuantity(total.volume, 'm3')}</td>
+                <td className="p-2">{formatQuantity(total.weight, 't')}</td>
+              </tr>
+            ))}
+            <tr className="border-t font-semibold">
+              <td className="p-2">Vessel total</td>
+              <td className="p-2">{quantities.tanks.length}</td>
+              <td className="p-2">
+                {formatQuantity(quantities.totalVolume, 'm3')}
+                {quantities.totalCapacity > 0 && <span className="font-normal text-gray-500"> of {formatQuantity(quantities.totalCapacity, 'm3')}</span>}
+              </td>
+              <td className="p-2">{formatQuantity(quantities.totalWeight, 't')}</td>
+            </tr>
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default TankQuantitiesPanel;
@@ -0,0 +1,82 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { DEFAULT_ADJACENCY_POLICY } from './cargo_compatibility_engine';
+import { loadReference } from './plan_verification';
+import { DEFAULT_FILL_LIMIT } from './tank_quantities';
+import { createVerificationServer, MAX_BODY_BYTES } from './verification_api';
+
+const bundle = JSON.stringify({
+  chemicalIndex: [
+    { 'Chemical name': 'Sulfuric acid', 'Group No.': 2 },
+    { 'Chemical name': 'Methanol', 'Group No.': 20, 'UN': '1230' }
+  ],
+  compatibilityChart: [
+    { 'REACTIVE GROUP': '2. Sulfuric acids', '20': 'X' },
+    { 'REACTIVE GROUP': '20. Alcohols' }
+  ],
+  compatibleExceptions: [{ 'Chemical Name': 'Methanol', 'Compatible Chemical Name': 'Methanol' }],
+  incompatibleExceptions: [{ 'Chemical Name': 'Methanol', 'Incompatible Group': '2' }]
+});
+
+const plan = (tanks: Record<string, any>) => JSON.stringify({
+  name: 'Voyage 12',
+  vessel: {
+    name: 'Test',
+    tanks: [{ id: 't1', label: '1P', position: { row: 0, col: 0 } }, { id: 't2', label: '1S', position: { row: 0, col: 1 } }],
+    adjacency: [{ from: 't1', to: 't2', type: 'bulkhead' }]
+  },
+  tanks
+});
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const reference = await loadReference({ bundle: { fileName: 'reference.json', text: bundle } });
+  server = createVerificationServer(reference, { adjacencyPolicy: DEFAULT_ADJACENCY_POLICY, symmetricChart: true, fillLimit: DEFAULT_FILL_LIMIT });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+const post = (path: string, body: string) => fetch(`${baseUrl}${path}`, { method: 'POST', body });
+
+describe('verification API', () => {
+  it('looks up chemicals', async () => {
+    const response = await fetch(`${baseUrl}/chemicals?q=UN1230`);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ status: 'found', chemical: { name: 'Methanol', group: 20 } });
+  });
+
+  it('checks pairs against the symmetric chart', async () => {
+    const response = await post('/pairs', JSON.stringify({ chemical1: 'Methanol', chemical2: 'Sulfuric acid' }));
+    expect(await response.json()).toMatchObject({ group1: 20, group2: 2, baseCompatibility: 'incompatible' });
+  });
+
+  it('verifies a plan with the groups from the index', async () => {
+    const response = await post('/plans/verify', plan({ '1P': { chemical: 'Sulfuric acid' }, '1S': { chemical: 'Methanol' } }));
+    expect(response.status).toBe(200);
+    expect((await response.json()).summary.status).toBe('ISSUES FOUND');
+  });
+
+  it('rejects a plan that misdeclares a group', async () => {
+    const response = await post('/plans/verify', plan({ '1P': { chemical: 'Sulfuric acid', group: 20 }, '1S': { chemical: 'Methanol' } }));
+    expect(response.status).toBe(422);
+    expect((await response.json()).error).toContain('the chemical index has group 2');
+  });
+
+  it('answers bad requests with their status', async () => {
+    expect((await post('/pairs', '{')).status).toBe(400);
+    expect((await fetch(`${baseUrl}/pairs`)).status).toBe(405);
+    expect((await fetch(`${baseUrl}/nowhere`)).status).toBe(404);
+  });
+
+  it('answers an oversized body with 413 and closes the connection', async () => {
+    const response = await post('/plans/verify', 'x'.repeat(MAX_BODY_BYTES + 1024));
+    expect(response.status).toBe(413);
+    expect(response.headers.get('connection')).toBe('close');
+    expect((await response.json()).error).toContain('larger than');
+  });
+});
@@ -0,0 +1,165 @@
+// Request handling behind the local verification API: chemical lookup, pair
+// checks and full-plan verification, answered with the same structures as the
+// compliance report. verification_server.ts runs it from the command line.
+//
+//   GET  /health                   reference data in use
+//   GET  /chemicals?q=<text>       name, synonym, UN or CAS lookup
+//   POST /pairs                    { "chemical1": "...", "chemical2": "..." }
+//   POST /plans/verify             stowage plan JSON -> compliance report
+import { createServer } from 'http';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import { checkPair } from './cargo_compatibility_engine';
+import type { ReferenceData } from './cargo_compatibility_engine';
+import { resolveChemical } from './chemical_lookup';
+import { normalizedReferenceData, readPlanFile, verifyPlan } from './plan_verification';
+import type { LoadedReference, VerificationOptions } from './plan_verification';
+
+export const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+interface ApiResponse {
+  status: number;
+  body: unknown;
+}
+
+// Rejected requests carry their HTTP status
+class ApiError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const lookupChemical = (query: string, referenceData: ReferenceData) => {
+  const lookup = resolveChemical(query, referenceData.chemicals);
+  if (lookup.status !== 'found') {
+    throw new ApiError(422, lookup.status === 'ambiguous'
+      ? `'${query}' matches several chemicals (${lookup.candidates.map(candidate => candidate.chemical.name).join(', ')}); use the exact name, UN or CAS number.`
+      : `'${query}' is not in the approved cargo index.`);
+  }
+  return lookup.chemical;
+};
+
+// Field names follow ReportPair in the compliance report
+const checkChemicalPair = (body: any, referenceData: ReferenceData) => {
+  if (!body || typeof body.chemical1 !== 'string' || typeof body.chemical2 !== 'string') {
+    throw new ApiError(400, 'Send { "chemical1": "...", "chemical2": "..." }.');
+  }
+  const first = lookupChemical(body.chemical1, referenceData);
+  const second = lookupChemical(body.chemical2, referenceData);
+  const pair = checkPair(first.name, first.group, second.name, second.group, referenceData);
+  return {
+    chemical1: first.name,
+    group1: first.group,
+    chemical2: second.name,
+    group2: second.group,
+    compatibility: pair.compatibility,
+    baseCompatibility: pair.baseCompatibility,
+    exception: pair.exception,
+    footnote: pair.footnote ? pair.footnote.text : null
+  };
+};
+
+const parseJson = (text: string) => {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new ApiError(400, `Request body is not valid JSON: ${(error as Error).message}`);
+  }
+};
+
+const handleRequest = async (
+  method: string,
+  url: URL,
+  body: string,
+  reference: LoadedReference,
+  referenceData: ReferenceData,
+  options: Required<VerificationOptions>
+): Promise<ApiResponse> => {
+  const route = `${method} ${url.pathname.replace(/\/+$/, '') || '/'}`;
+
+  switch (route) {
+    case 'GET /health':
+      return {
+        status: 200,
+        body: {
+          status: 'ok',
+          referenceData: { sources: reference.sources },
+          adjacencyPolicy: options.adjacencyPolicy,
+          chartNormalization: options.symmetricChart ? 'symmetric' : 'as loaded',
+          fillLimit: options.fillLimit
+        }
+      };
+    case 'GET /chemicals': {
+      const query = url.searchParams.get('q') || '';
+      if (!query.trim()) throw new ApiError(400, 'Give the chemical to look up as ?q=<name, UN or CAS number>.');
+      return { status: 200, body: { query, ...resolveChemical(query, referenceData.chemicals) } };
+    }
+    case 'POST /pairs':
+      return { status: 200, body: checkChemicalPair(parseJson(body), referenceData) };
+    case 'POST /plans/verify': {
+      let plan;
+      try {
+        plan = readPlanFile(body);
+      } catch (error) {
+        throw new ApiError(400, (error as Error).message);
+      }
+      try {
+        return { status: 200, body: await verifyPlan(plan, reference, options, referenceData) };
+      } catch (error) {
+        throw new ApiError(422, (error as Error).message);
+      }
+    }
+    default:
+      if (['/health', '/chemicals', '/pairs', '/plans/verify'].includes(url.pathname)) {
+        throw new ApiError(405, `${method} is not supported on ${url.pathname}.`);
+      }
+      throw new ApiError(404, `No endpoint ${url.pathname}.`);
+  }
+};
+
+// An oversized body is not buffered; the rest is read and discarded so the
+// client can still receive the 413
+const readBody = (request: IncomingMessage) => new Promise<string>((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const onData = (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      chunks.length = 0;
+      request.off('data', onData);
+      request.resume();
+      reject(new ApiError(413, `Request body is larger than ${MAX_BODY_BYTES} bytes.`));
+      return;
+    }
+    chunks.push(chunk);
+  };
+  request.on('data', onData);
+  request.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+  request.on('error', reject);
+});
+
+// After a 413 the connection is closed rather than reused for the next request
+const send = (response: ServerResponse, { status, body }: ApiResponse) => {
+  response.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    ...(status === 413 ? { Connection: 'close' } : {})
+  });
+  response.end(JSON.stringify(body, null, 2));
+};
+
+// The chart is normalized once here, not per request
+export const createVerificationServer = (reference: LoadedReference, options: Required<VerificationOptions>): Server => {
+  const referenceData = normalizedReferenceData(reference.referenceData, options);
+  return createServer(async (request, response) => {
+    try {
+      const url = new URL(request.url || '/', 'http://localhost');
+      const body = request.method === 'POST' ? await readBody(request) : '';
+      send(response, await handleRequest(request.method || 'GET', url, body, reference, referenceData, options));
+    } catch (error) {
+      const status = error instanceof ApiError ? error.status : 500;
+      send(response, { status, body: { error: (error as Error).message } });
+    }
+  });
+};
@@ -0,0 +1,84 @@
+// Local HTTP API for loading computers and operations software; the endpoints
+// are listed in verification_api.ts. Reference data is read once at startup.
+//
+//   npx tsx verification_server.ts --bundle reference.json --port 8787
+import {
+  checkReferenceOptions,
+  defaultReferenceOptions,
+  parseReferenceOption,
+  readReferenceInput,
+  REFERENCE_OPTIONS_USAGE
+} from './cli_reference_options';
+import type { ReferenceOptions } from './cli_reference_options';
+import { loadReference } from './plan_verification';
+import type { LoadedReference } from './plan_verification';
+import { createVerificationServer } from './verification_api';
+
+const USAGE = `Usage: verification_server [options]
+
+${REFERENCE_OPTIONS_USAGE}
+
+Server:
+  --port <number>     Port to listen on (default 8787)
+  --host <address>    Address to bind (default 127.0.0.1, this machine only)
+  --help              Show this help`;
+
+interface ServerOptions extends ReferenceOptions {
+  port: number;
+  host: string;
+  help: boolean;
+}
+
+const parseArgs = (args: string[]): ServerOptions => {
+  const options: ServerOptions = { ...defaultReferenceOptions(), port: 8787, host: '127.0.0.1', help: false };
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+    const value = () => {
+      const next = args[++index];
+      if (next === undefined || next.startsWith('--')) throw new Error(`${arg} needs a value.`);
+      return next;
+    };
+
+    if (parseReferenceOption(arg, value, options)) continue;
+    if (arg === '--port') {
+      options.port = parseInt(value());
+      if (isNaN(options.port) || options.port < 0 || options.port > 65535) throw new Error('--port must be a port number.');
+    } else if (arg === '--host') options.host = value();
+    else if (arg === '--help' || arg === '-h') options.help = true;
+    else throw new Error(`Unknown option ${arg}.`);
+  }
+  if (!options.help) checkReferenceOptions(options);
+  return options;
+};
+
+const main = async (args: string[]) => {
+  let options: ServerOptions;
+  try {
+    options = parseArgs(args);
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`);
+    process.exitCode = 2;
+    return;
+  }
+  if (options.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  let reference: LoadedReference;
+  try {
+    reference = await loadReference(readReferenceInput(options));
+  } catch (error) {
+    console.error(`Error loading reference data: ${(error as Error).message}`);
+    process.exitCode = 2;
+    return;
+  }
+
+  const server = createVerificationServer(reference, options);
+  server.listen(options.port, options.host, () => {
+    console.log(`Verification API listening on http://${options.host}:${options.port} ` +
+      `(${reference.sources.map(source => source.fileName).join(', ')})`);
+  });
+};
+
+main(process.argv.slice(2));
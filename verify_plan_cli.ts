@@ -0,0 +1,181 @@
+// Command-line verifier for stowage plan files, for batch checks outside the
+// browser. Runs the same analysis and report as the web tool and exits
+// non-zero unless every plan is APPROVED.
+//
+//   npx tsx verify_plan_cli.ts --bundle reference.json plan-a.json plan-b.json
+//   npx tsx verify_plan_cli.ts --chemical-index index.xlsx --chart chart.xlsx \
+//     --compatible-exceptions compat.csv --incompatible-exceptions incompat.csv \
+//     --out-dir reports --html plan.json
+//
+// Exit codes: 0 all plans approved, 1 at least one plan not approved,
+// 2 bad arguments or unreadable input. Company rule violations are printed
+// but do not change the exit code.
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { basename, join } from 'path';
+import { isIncompatible } from './cargo_compatibility_engine';
+import {
+  checkReferenceOptions,
+  defaultReferenceOptions,
+  parseReferenceOption,
+  readReferenceInput,
+  REFERENCE_OPTIONS_USAGE
+} from './cli_reference_options';
+import type { ReferenceOptions } from './cli_reference_options';
+import type { ComplianceReport } from './compliance_report';
+import { loadReference, readPlanFile, verifyPlan } from './plan_verification';
+import type { LoadedReference } from './plan_verification';
+import { renderReportHtml } from './report_html';
+import { tankLabel } from './vessel_profile';
+
+const USAGE = `Usage: verify_plan_cli [options] <plan.json> [more plans...]
+
+${REFERENCE_OPTIONS_USAGE}
+
+Output:
+  --out-dir <dir>     Write <plan>.report.json for every plan; plan file
+                      names must then differ
+  --html              With --out-dir, also write <plan>.report.html
+  --quiet             Only print the status line of each plan
+  --help              Show this help`;
+
+interface CliOptions extends ReferenceOptions {
+  plans: string[];
+  outDir: string | null;
+  html: boolean;
+  quiet: boolean;
+  help: boolean;
+}
+
+const reportName = (path: string) => basename(path).replace(/\.json$/i, '');
+
+const parseArgs = (args: string[]): CliOptions => {
+  const options: CliOptions = {
+    ...defaultReferenceOptions(),
+    plans: [],
+    outDir: null,
+    html: false,
+    quiet: false,
+    help: false
+  };
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+    const value = () => {
+      const next = args[++index];
+      if (next === undefined || next.startsWith('--')) throw new Error(`${arg} needs a value.`);
+      return next;
+    };
+
+    if (parseReferenceOption(arg, value, options)) continue;
+    if (arg === '--out-dir') options.outDir = value();
+    else if (arg === '--html') options.html = true;
+    else if (arg === '--quiet') options.quiet = true;
+    else if (arg === '--help' || arg === '-h') options.help = true;
+    else if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}.`);
+    else options.plans.push(arg);
+  }
+
+  if (options.help) return options;
+  if (options.plans.length === 0) throw new Error('No plan file given.');
+  checkReferenceOptions(options);
+  if (options.html && !options.outDir) throw new Error('--html needs --out-dir.');
+  if (options.outDir) {
+    // One report would silently overwrite another; case too, for case-insensitive file systems
+    const byName = new Map<string, string>();
+    options.plans.forEach(path => {
+      const name = reportName(path).toLowerCase();
+      const other = byName.get(name);
+      if (other !== undefined) throw new Error(`${other} and ${path} would both write ${reportName(path)}.report.json; rename one of them.`);
+      byName.set(name, path);
+    });
+  }
+  return options;
+};
+
+const printReport = (path: string, report: ComplianceReport, quiet: boolean) => {
+  const { summary } = report;
+  console.log(`${summary.status}  ${path} (${report.stowagePlan.name}): ${summary.loadedTanks}/${summary.totalTanks} tanks loaded, ` +
+    `${summary.compatibilityIssues} issue(s), ${summary.carriageViolations} tank suitability violation(s), ` +
+    `${summary.manualReviewItems} manual review item(s)` +
+    (report.quantities?.tanks.length ? `, ${summary.overfilledTanks} overfilled tank(s)` : '') +
+    (report.companyPolicy.ruleSet ? `, ${summary.companyRuleViolations} company rule violation(s)` : ''));
+  if (quiet) return;
+
+  report.pairs
+    .filter(pair => pair.enforced && isIncompatible(pair.compatibility))
+    .forEach(pair => {
+      const tanks = pair.tank1 === pair.tank2 ? pair.tank1 : `${pair.tank1} <-> ${pair.tank2}`;
+      console.log(`  PROBLEM   ${tanks}: ${pair.chemical1} / ${pair.chemical2} (${pair.contact}, ${pair.compatibility.replace(/_/g, ' ')})`);
+    });
+  report.carriageFindings.forEach(finding => {
+    const label = finding.severity === 'violation' ? 'CARRIAGE  ' : 'UNCHECKED ';
+    console.log(`  ${label}${finding.tank} ${finding.chemical}: ${finding.message}`);
+  });
+  (report.quantities?.tanks || [])
+    .filter(quantity => quantity.status !== 'ok')
+    .forEach(quantity => {
+      const label = quantity.status === 'overfill' ? 'OVERFILL  ' : 'UNCHECKED ';
+      console.log(`  ${label}${quantity.tank} ${quantity.cargo}: ${quantity.message}`);
+    });
+  report.companyPolicy.violations.forEach(violation => {
+    const label = violation.severity === 'error' ? 'POLICY    ' : 'POLICY(W) ';
+    console.log(`  ${label}${violation.tank1} <-> ${violation.tank2}: ${violation.chemical1} / ${violation.chemical2} breaks ${violation.rule} (${violation.description})`);
+  });
+  report.compatibilityResults.warnings.forEach(warning => {
+    console.log(`  REVIEW    ${tankLabel(report.vesselConfiguration, warning.tank)} ${warning.chemical}: ${warning.note}`);
+  });
+  report.cleaningRequirements.forEach(requirement => {
+    console.log(`  CLEANING  ${requirement.tank} ${requirement.chemical}: ${requirement.cleaning}`);
+  });
+};
+
+const writeReport = (path: string, report: ComplianceReport, options: CliOptions) => {
+  if (!options.outDir) return;
+  const name = reportName(path);
+  writeFileSync(join(options.outDir, `${name}.report.json`), JSON.stringify(report, null, 2));
+  if (options.html) writeFileSync(join(options.outDir, `${name}.report.html`), renderReportHtml(report));
+};
+
+const main = async (args: string[]) => {
+  let options: CliOptions;
+  try {
+    options = parseArgs(args);
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+  if (options.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  let reference: LoadedReference;
+  try {
+    reference = await loadReference(readReferenceInput(options));
+  } catch (error) {
+    console.error(`Error loading reference data: ${(error as Error).message}`);
+    return 2;
+  }
+  if (options.outDir) mkdirSync(options.outDir, { recursive: true });
+
+  // Keep going after a failure so one run checks the whole batch
+  let exitCode = 0;
+  for (const path of options.plans) {
+    try {
+      const report = await verifyPlan(readPlanFile(readFileSync(path, 'utf-8')), reference, {
+        adjacencyPolicy: options.adjacencyPolicy,
+        symmetricChart: options.symmetricChart,
+        fillLimit: options.fillLimit
+      });
+      writeReport(path, report, options);
+      printReport(path, report, options.quiet);
+      if (report.summary.status !== 'APPROVED') exitCode = Math.max(exitCode, 1);
+    } catch (error) {
+      console.error(`ERROR  ${path}: ${(error as Error).message}`);
+      exitCode = 2;
+    }
+  }
+  return exitCode;
+};
+
+main(process.argv.slice(2)).then(code => { process.exitCode = code; });
@@ -0,0 +1,296 @@
+import React, { useState } from 'react';
+import { Download, Upload, Plus, Trash2, Link } from 'lucide-react';
+import {
+  ADJACENCY_TYPE_LABELS,
+  addAdjacency,
+  addTank,
+  parseVesselProfile,
+  removeAdjacency,
+  removeTank,
+  serializeVesselProfile,
+  SHIP_TYPES,
+  TANK_COATING_LABELS,
+  tankLabel,
+  updateTank
+} from './vessel_profile';
+import type { AdjacencyType, ShipType, TankCoating, TankKind, VesselProfile } from './vessel_profile';
+import { downloadFile } from './download_file';
+
+interface VesselLayoutEditorProps {
+  vessel: VesselProfile;
+  onChange: (vessel: VesselProfile) => void;
+  onError: (message: string) => void;
+}
+
+const VesselLayoutEditor = ({ vessel, onChange, onError }: VesselLayoutEditorProps) => {
+  const [newTank, setNewTank] = useState({ id: '', label: '', kind: 'cargo' as TankKind, row: 0, col: 0 });
+  const [link, setLink] = useState({ from: '', to: '', type: 'bulkhead' as AdjacencyType });
+
+  // Editing helpers throw on invalid input; surface that instead of crashing
+  const apply = (edit: () => VesselProfile) => {
+    try {
+      onChange(edit());
+    } catch (error) {
+      onError((error as Error).message);
+    }
+  };
+
+  const handleProfileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      onChange(parseVesselProfile(await file.text()));
+    } catch (error) {
+      onError(`Error loading vessel profile: ${(error as Error).message}`);
+    }
+    event.target.value = '';
+  };
+
+  const saveProfile = () => {
+    const filename = `${vessel.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'vessel'}-profile.json`;
+    downloadFile(serializeVesselProfile(vessel), filename, 'application/json');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2 items-end">
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Vessel Name</label>
+          <input
+            type="text"
+            value={vessel.name}
+            onChange={(e) => onChange({ ...vessel, name: e.target.value })}
+            className="w-full p-2 border rounded-md"
+          />
+        </div>
+        <label className="flex items-center gap-2 px-4 py-2 bg-gray-200 rounded-md hover:bg-gray-300 cursor-pointer">
+          <Upload className="w-4 h-4" />
+          Load Profile
+          <input type="file" accept=".json" onChange={handleProfileUpload} className="hidden" />
+        </label>
+        <button
+          onClick={saveProfile}
+          className="flex items-center gap-2 px-4 py-2 bg-gray-200 rounded-md hover:bg-gray-300"
+        >
+          <Download className="w-4 h-4" />
+          Save Profile
+        </button>
+      </div>
+
+      {/* Tanks */}
+      <div>
+        <h3 className="font-semibold mb-2">Tanks ({vessel.tanks.length})</h3>
+        <div className="max-h-60 overflow-y-auto border rounded-md bg-white">
+          {vessel.tanks.map(tank => (
+            <div key={tank.id} className="flex gap-2 items-center p-2 border-b last:border-b-0 text-sm">
+              <span className="w-16 text-gray-500 truncate" title={tank.id}>{tank.id}</span>
+              <input
+                type="text"
+                value={tank.label}
+                onChange={(e) => apply(() => updateTank(vessel, tank.id, { label: e.target.value }))}
+                className="w-20 p-1 border rounded"
+              />
+              <select
+                value={tank.kind}
+                onChange={(e) => apply(() => updateTank(vessel, tank.id, { kind: e.target.value as TankKind }))}
+                className="p-1 border rounded"
+              >
+                <option value="cargo">Cargo</option>
+                <option value="slop">Slop</option>
+                <option value="cofferdam">Cofferdam</option>
+              </select>
+              <input
+                type="number"
+                min="0"
+                value={tank.position.row}
+                onChange={(e) => apply(() => updateTank(vessel, tank.id, { position: { ...tank.position, row: parseInt(e.target.value) || 0 } }))}
+                className="w-16 p-1 border rounded"
+                title="Row"
+              />
+              <input
+                type="number"
+                min="0"
+                value={tank.position.col}
+                onChange={(e) => apply(() => updateTank(vessel, tank.id, { position: { ...tank.position, col: parseInt(e.target.value) || 0 } }))}
+                className="w-16 p-1 border rounded"
+                title="Column"
+              />
+              {/* Carriage attributes; blank means not recorded */}
+              <select
+                value={tank.shipType ?? ''}
+                onChange={(e) => apply(() => updateTank(vessel, tank.id, { shipType: e.target.value ? Number(e.target.value) as ShipType : undefined }))}
+                className="p-1 border rounded"
+                title="IBC ship type"
+              >
+                <option value="">Type ?</option>
+                {SHIP_TYPES.map(type => <option key={type} value={type}>Type {type}</option>)}
+              </select>
+              <select
+                value={tank.coating ?? ''}
+                onChange={(e) => apply(() => updateTank(vessel, tank.id, { coating: (e.target.value || undefined) as TankCoating | undefined }))}
+                className="p-1 border rounded"
+                title="Tank coating"
+              >
+                <option value="">Coating ?</option>
+                {Object.entries(TANK_COATING_LABELS).map(([coating, label]) => (
+                  <option key={coating} value={coating}>{label}</option>
+                ))}
+              </select>
+              <select
+                value={tank.heatingCoils === undefined ? '' : tank.heatingCoils ? 'yes' : 'no'}
+                onChange={(e) => apply(() => updateTank(vessel, tank.id, { heatingCoils: e.target.value ? e.target.value === 'yes' : undefined }))}
+                className="p-1 border rounded"
+                title="Heating coils"
+              >
+                <option value="">Heating ?</option>
+                <option value="yes">Heated</option>
+                <option value="no">Not heated</option>
+              </select>
+              <input
+                type="number"
+                value={tank.maxTemperature ?? ''}
+                onChange={(e) => apply(() => updateTank(vessel, tank.id, { maxTemperature: e.target.value === '' ? undefined : parseFloat(e.target.value) }))}
+                placeholder="Max °C"
+                className="w-20 p-1 border rounded"
+                title="Maximum cargo temperature (°C)"
+              />
+              <input
+                type="number"
+                min="0"
+                value={tank.capacity ?? ''}
+                onChange={(e) => apply(() => updateTank(vessel, tank.id, { capacity: e.target.value === '' ? undefined : parseFloat(e.target.value) }))}
+                placeholder="m³"
+                className="w-20 p-1 border rounded"
+                title="Capacity at 100% (m³)"
+              />
+              <button
+                onClick={() => apply(() => removeTank(vessel, tank.id))}
+                className="ml-auto text-gray-400 hover:text-red-600"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-2 items-center mt-2 text-sm">
+          <input
+            type="text"
+            placeholder="Id"
+            value={newTank.id}
+            onChange={(e) => setNewTank(prev => ({ ...prev, id: e.target.value }))}
+            className="w-20 p-1 border rounded"
+          />
+          <input
+            type="text"
+            placeholder="Label"
+            value={newTank.label}
+            onChange={(e) => setNewTank(prev => ({ ...prev, label: e.target.value }))}
+            className="w-20 p-1 border rounded"
+          />
+          <select
+            value={newTank.kind}
+            onChange={(e) => setNewTank(prev => ({ ...prev, kind: e.target.value as TankKind }))}
+            className="p-1 border rounded"
+          >
+            <option value="cargo">Cargo</option>
+            <option value="slop">Slop</option>
+            <option value="cofferdam">Cofferdam</option>
+          </select>
+          <input
+            type="number"
+            min="0"
+            value={newTank.row}
+            onChange={(e) => setNewTank(prev => ({ ...prev, row: parseInt(e.target.value) || 0 }))}
+            className="w-16 p-1 border rounded"
+            title="Row"
+          />
+          <input
+            type="number"
+            min="0"
+            value={newTank.col}
+            onChange={(e) => setNewTank(prev => ({ ...prev, col: parseInt(e.target.value) || 0 }))}
+            className="w-16 p-1 border rounded"
+            title="Column"
+          />
+          <button
+            onClick={() => apply(() => {
+              const updated = addTank(vessel, {
+                id: newTank.id.trim(),
+                label: newTank.label.trim() || newTank.id.trim(),
+                kind: newTank.kind,
+                position: { row: newTank.row, col: newTank.col }
+              });
+              setNewTank(prev => ({ ...prev, id: '', label: '' }));
+              return updated;
+            })}
+            className="flex items-center gap-1 px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            <Plus className="w-4 h-4" />
+            Add Tank
+          </button>
+        </div>
+      </div>
+
+      {/* Adjacency */}
+      <div>
+        <h3 className="font-semibold mb-2">Adjacency ({vessel.adjacency.length} links)</h3>
+        <div className="max-h-40 overflow-y-auto border rounded-md bg-white flex flex-wrap gap-2 p-2">
+          {vessel.adjacency.map(adj => (
+            <span key={`${adj.from}|${adj.to}`} className="flex items-center gap-1 px-2 py-1 bg-gray-100 rounded text-xs">
+              {tankLabel(vessel, adj.from)} ↔ {tankLabel(vessel, adj.to)}
+              <select
+                value={adj.type}
+                onChange={(e) => apply(() => addAdjacency(vessel, adj.from, adj.to, e.target.value as AdjacencyType))}
+                className="bg-transparent text-gray-600"
+              >
+                {Object.entries(ADJACENCY_TYPE_LABELS).map(([type, label]) => (
+                  <option key={type} value={type}>{label}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => apply(() => removeAdjacency(vessel, adj.from, adj.to))}
+                className="text-gray-400 hover:text-red-600"
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+        <div className="flex gap-2 items-center mt-2 text-sm">
+          {(['from', 'to'] as const).map(end => (
+            <select
+              key={end}
+              value={link[end]}
+              onChange={(e) => setLink(prev => ({ ...prev, [end]: e.target.value }))}
+              className="p-1 border rounded"
+            >
+              <option value="">Select tank</option>
+              {vessel.tanks.map(tank => (
+                <option key={tank.id} value={tank.id}>{tank.label}</option>
+              ))}
+            </select>
+          ))}
+          <select
+            value={link.type}
+            onChange={(e) => setLink(prev => ({ ...prev, type: e.target.value as AdjacencyType }))}
+            className="p-1 border rounded"
+          >
+            {Object.entries(ADJACENCY_TYPE_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>{label}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => apply(() => addAdjacency(vessel, link.from, link.to, link.type))}
+            disabled={!link.from || !link.to}
+            className="flex items-center gap-1 px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-300"
+          >
+            <Link className="w-4 h-4" />
+            Link Tanks
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VesselLayoutEditor;
@@ -0,0 +1,259 @@
+// Vessel geometry: a set of named tanks plus an explicit adjacency list. The
+// row/col position is only used to draw the tank; which tanks touch is decided
+// by the adjacency list alone.
+
+export type TankKind = 'cargo' | 'slop' | 'cofferdam';
+
+// How two tanks touch: a shared bulkhead, corner-to-corner contact, a shared
+// deck or double bottom (stacked tanks), or separated by a cofferdam
+export type AdjacencyType = 'bulkhead' | 'corner' | 'vertical' | 'cofferdam';
+
+export const ADJACENCY_TYPE_LABELS: Record<AdjacencyType, string> = {
+  bulkhead: 'Common bulkhead',
+  corner: 'Corner contact',
+  vertical: 'Deck / double bottom',
+  cofferdam: 'Cofferdam separated'
+};
+
+// IBC ship type a tank is built to; type 1 gives the most protection
+export type ShipType = 1 | 2 | 3;
+
+export type TankCoating = 'stainless' | 'zinc' | 'epoxy';
+
+export const TANK_COATING_LABELS: Record<TankCoating, string> = {
+  stainless: 'Stainless steel',
+  zinc: 'Zinc silicate',
+  epoxy: 'Epoxy'
+};
+
+export const SHIP_TYPES: ShipType[] = [1, 2, 3];
+
+export interface TankPosition {
+  row: number;
+  col: number;
+  span?: number;
+}
+
+export interface VesselTank {
+  id: string;
+  label: string;
+  kind: TankKind;
+  position: TankPosition;
+  // Carriage attributes, left out when not recorded
+  shipType?: ShipType;
+  coating?: TankCoating;
+  heatingCoils?: boolean;
+  // Highest cargo temperature the tank is rated for, in °C
+  maxTemperature?: number;
+  // Volume at 100% full, in m³
+  capacity?: number;
+}
+
+export interface VesselAdjacency {
+  from: string;
+  to: string;
+  type: AdjacencyType;
+}
+
+export interface AdjacentTank {
+  tankId: string;
+  type: AdjacencyType;
+}
+
+export interface VesselProfile {
+  name: string;
+  tanks: VesselTank[];
+  adjacency: VesselAdjacency[];
+}
+
+const TANK_KINDS: TankKind[] = ['cargo', 'slop', 'cofferdam'];
+const ADJACENCY_TYPES = Object.keys(ADJACENCY_TYPE_LABELS) as AdjacencyType[];
+
+export const rowLetter = (row: number) => String.fromCharCode(65 + row);
+
+// Rectangular block of tanks where all eight surrounding cells touch,
+// matching the original width x length grid. Orthogonal neighbours share a
+// bulkhead, diagonal ones only meet at a corner.
+export const createGridProfile = (width: number, length: number, name = `Grid ${width} x ${length}`): VesselProfile => {
+  const tanks: VesselTank[] = [];
+  const adjacency: VesselAdjacency[] = [];
+
+  for (let row = 0; row < length; row++) {
+    for (let col = 0; col < width; col++) {
+      tanks.push({ id: `${row}-${col}`, label: `${rowLetter(row)}${col + 1}`, kind: 'cargo', position: { row, col } });
+
+      // Link forward neighbours only so every pair is listed once
+      [[0, 1], [1, -1], [1, 0], [1, 1]].forEach(([dr, dc]) => {
+        const r = row + dr;
+        const c = col + dc;
+        if (r < length && c >= 0 && c < width) {
+          adjacency.push({ from: `${row}-${col}`, to: `${r}-${c}`, type: dr !== 0 && dc !== 0 ? 'corner' : 'bulkhead' });
+        }
+      });
+    }
+  }
+
+  return { name, tanks, adjacency };
+};
+
+// Extent of the tank grid, as createGridProfile would need to rebuild it
+export const gridSize = (vessel: VesselProfile) => ({
+  width: Math.max(0, ...vessel.tanks.map(tank => tank.position.col + (tank.position.span || 1))),
+  length: Math.max(0, ...vessel.tanks.map(tank => tank.position.row + 1))
+});
+
+export const findTank = (vessel: VesselProfile, tankId: string) =>
+  vessel.tanks.find(tank => tank.id === tankId) || null;
+
+export const tankLabel = (vessel: VesselProfile, tankId: string) =>
+  findTank(vessel, tankId)?.label || tankId;
+
+// Labels are what people type and print; match them case-insensitively
+export const findTankByLabel = (vessel: VesselProfile, label: string) => {
+  const cleaned = (label || '').trim().toLowerCase();
+  return vessel.tanks.find(tank => tank.label.toLowerCase() === cleaned) ||
+    vessel.tanks.find(tank => tank.id.toLowerCase() === cleaned) ||
+    null;
+};
+
+export const canHoldCargo = (tank: VesselTank | null) => !!tank && tank.kind !== 'cofferdam';
+
+export const sameLink = (link: VesselAdjacency, a: string, b: string) =>
+  (link.from === a && link.to === b) || (link.from === b && link.to === a);
+
+// Adjacency is undirected: a link listed as A -> B also makes A a neighbour of B
+export const getAdjacencies = (vessel: VesselProfile, tankId: string): AdjacentTank[] => {
+  const adjacent: AdjacentTank[] = [];
+  vessel.adjacency.forEach(link => {
+    const other = link.from === tankId ? link.to : link.to === tankId ? link.from : null;
+    if (other && other !== tankId && !adjacent.some(adj => adj.tankId === other)) {
+      adjacent.push({ tankId: other, type: link.type });
+    }
+  });
+  return adjacent;
+};
+
+export const getAdjacentTanks = (vessel: VesselProfile, tankId: string): string[] =>
+  getAdjacencies(vessel, tankId).map(adj => adj.tankId);
+
+// Editing helpers. All of them return a new profile.
+export const addTank = (vessel: VesselProfile, tank: VesselTank): VesselProfile => {
+  if (!tank.id || !tank.id.trim()) {
+    throw new Error('Tank id is required.');
+  }
+  if (findTank(vessel, tank.id)) {
+    throw new Error(`Tank '${tank.id}' already exists in vessel profile.`);
+  }
+  return { ...vessel, tanks: [...vessel.tanks, tank] };
+};
+
+export const updateTank = (vessel: VesselProfile, tankId: string, changes: Partial<Omit<VesselTank, 'id'>>): VesselProfile => ({
+  ...vessel,
+  tanks: vessel.tanks.map(tank => tank.id === tankId ? { ...tank, ...changes } : tank)
+});
+
+export const removeTank = (vessel: VesselProfile, tankId: string): VesselProfile => ({
+  ...vessel,
+  tanks: vessel.tanks.filter(tank => tank.id !== tankId),
+  adjacency: vessel.adjacency.filter(link => link.from !== tankId && link.to !== tankId)
+});
+
+export const addAdjacency = (vessel: VesselProfile, from: string, to: string, type: AdjacencyType = 'bulkhead'): VesselProfile => {
+  if (from === to) {
+    throw new Error('A tank cannot be adjacent to itself.');
+  }
+  if (!findTank(vessel, from) || !findTank(vessel, to)) {
+    throw new Error(`Unknown tank in adjacency '${from}' - '${to}'.`);
+  }
+  if (!ADJACENCY_TYPES.includes(type)) {
+    throw new Error(`Unknown adjacency type '${type}'.`);
+  }
+  // Linking an already linked pair just changes how they touch
+  if (vessel.adjacency.some(link => sameLink(link, from, to))) {
+    return {
+      ...vessel,
+      adjacency: vessel.adjacency.map(link => sameLink(link, from, to) ? { ...link, type } : link)
+    };
+  }
+  return { ...vessel, adjacency: [...vessel.adjacency, { from, to, type }] };
+};
+
+export const removeAdjacency = (vessel: VesselProfile, from: string, to: string): VesselProfile => ({
+  ...vessel,
+  adjacency: vessel.adjacency.filter(link => !sameLink(link, from, to))
+});
+
+const TANK_COATINGS = Object.keys(TANK_COATING_LABELS) as TankCoating[];
+
+const parseTankAttributes = (tank: any, id: string) => {
+  const attributes: Pick<VesselTank, 'shipType' | 'coating' | 'heatingCoils' | 'maxTemperature' | 'capacity'> = {};
+  if (tank.shipType !== undefined && tank.shipType !== null) {
+    if (!SHIP_TYPES.includes(Number(tank.shipType) as ShipType)) {
+      throw new Error(`Tank '${id}' has ship type '${tank.shipType}'; use 1, 2 or 3.`);
+    }
+    attributes.shipType = Number(tank.shipType) as ShipType;
+  }
+  if (tank.coating !== undefined && tank.coating !== null) {
+    if (!TANK_COATINGS.includes(tank.coating)) {
+      throw new Error(`Tank '${id}' has unknown coating '${tank.coating}'; use ${TANK_COATINGS.join(', ')}.`);
+    }
+    attributes.coating = tank.coating;
+  }
+  if (typeof tank.heatingCoils === 'boolean') attributes.heatingCoils = tank.heatingCoils;
+  if (tank.maxTemperature !== undefined && tank.maxTemperature !== null) {
+    if (!Number.isFinite(Number(tank.maxTemperature))) {
+      throw new Error(`Tank '${id}' has maximum temperature '${tank.maxTemperature}', which is not a number.`);
+    }
+    attributes.maxTemperature = Number(tank.maxTemperature);
+  }
+  if (tank.capacity !== undefined && tank.capacity !== null) {
+    if (!(Number(tank.capacity) > 0)) {
+      throw new Error(`Tank '${id}' has capacity '${tank.capacity}'; it must be a positive number of m³.`);
+    }
+    attributes.capacity = Number(tank.capacity);
+  }
+  return attributes;
+};
+
+// JSON vessel profile files
+export const parseVesselProfile = (json: string): VesselProfile => {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Vessel profile is not valid JSON: ${(error as Error).message}`);
+  }
+
+  if (!data || !Array.isArray(data.tanks) || !Array.isArray(data.adjacency)) {
+    throw new Error('Vessel profile must contain "tanks" and "adjacency" arrays.');
+  }
+
+  const tanks: VesselTank[] = data.tanks.map((tank: any, index: number) => {
+    if (!tank || typeof tank.id !== 'string' || !tank.id.trim()) {
+      throw new Error(`Tank #${index + 1} in vessel profile has no id.`);
+    }
+    const kind: TankKind = TANK_KINDS.includes(tank.kind) ? tank.kind : 'cargo';
+    return {
+      id: tank.id,
+      label: typeof tank.label === 'string' && tank.label.trim() ? tank.label : tank.id,
+      kind,
+      position: {
+        row: Number(tank.position?.row) || 0,
+        col: Number(tank.position?.col) || 0,
+        ...(tank.position?.span ? { span: Number(tank.position.span) } : {})
+      },
+      ...parseTankAttributes(tank, tank.id)
+    };
+  });
+
+  let vessel: VesselProfile = { name: typeof data.name === 'string' ? data.name : 'Unnamed vessel', tanks: [], adjacency: [] };
+  tanks.forEach(tank => { vessel = addTank(vessel, tank); });
+  data.adjacency.forEach((link: any) => {
+    const [from, to, type] = Array.isArray(link) ? link : [link?.from, link?.to, link?.type];
+    vessel = addAdjacency(vessel, from, to, type || 'bulkhead');
+  });
+
+  return vessel;
+};
+
+export const serializeVesselProfile = (vessel: VesselProfile) => JSON.stringify(vessel, null, 2);
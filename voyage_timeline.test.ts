@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { buildCompatibilityChart, emptyReferenceData, toTank } from './cargo_compatibility_engine';
+import type { ReferenceData } from './cargo_compatibility_engine';
+import { analyzeVoyage, describeOperation, parseVoyage } from './voyage_timeline';
+import { createGridProfile } from './vessel_profile';
+
+const referenceData: ReferenceData = {
+  ...emptyReferenceData(),
+  chemicals: [
+    { 'Chemical name': 'Acetic acid', 'Group No.': 4 },
+    { 'Chemical name': 'Caustic soda', 'Group No.': 5 },
+    { 'Chemical name': 'Methanol', 'Group No.': 20 }
+  ],
+  chart: buildCompatibilityChart([
+    { 'REACTIVE GROUP': '4. Organic acids', '5': 'X' },
+    { 'REACTIVE GROUP': '5. Caustics', '4': 'X' }
+  ])
+};
+
+// A1 | A2 | A3, one row
+const vessel = createGridProfile(3, 1);
+
+describe('parseVoyage', () => {
+  it('reads port calls with load and discharge operations', () => {
+    const voyage = parseVoyage('# outbound\nPort Rotterdam\nLoad Methanol @ A1\n\nPort: Antwerp\nDischarge A1\nDischarge Methanol @ A2', vessel);
+    expect(voyage.portCalls).toEqual([
+      { port: 'Rotterdam', operations: [{ type: 'load', tankId: '0-0', chemical: 'Methanol' }] },
+      { port: 'Antwerp', operations: [{ type: 'discharge', tankId: '0-0' }, { type: 'discharge', tankId: '0-1', chemical: 'Methanol' }] }
+    ]);
+  });
+
+  it('points at the line it cannot read', () => {
+    expect(() => parseVoyage('Load Methanol @ A1', vessel)).toThrow('Line 1: operations must follow a "Port <name>" line.');
+    expect(() => parseVoyage('Port Houston\nLoad Methanol', vessel)).toThrow('Line 2: a load needs a cargo and a tank');
+    expect(() => parseVoyage('Port Houston\nLoad Methanol @ Z9', vessel)).toThrow("Line 2: tank 'Z9' is not in the vessel profile.");
+    expect(() => parseVoyage('Port Houston\nBallast A1', vessel)).toThrow('Line 2: expected "Port", "Load" or "Discharge"');
+  });
+});
+
+describe('analyzeVoyage', () => {
+  it('finds a conflict that exists only between ports', () => {
+    const voyage = parseVoyage('Port Houston\nLoad Acetic acid @ A1\nLoad Caustic soda @ A2\nDischarge A1\nPort Santos\nLoad Methanol @ A1', vessel);
+    const { steps, firstConflict } = analyzeVoyage(vessel, {}, voyage, referenceData);
+    expect(steps.map(step => step.analysis.problems.length)).toEqual([0, 0, 2, 0, 0]);
+    expect(firstConflict).toBe(2);
+    expect(describeOperation(vessel, steps[2].operation!)).toBe('Load Caustic soda into A2');
+    expect(steps[2].newProblems).toHaveLength(2);
+  });
+
+  it('reports a clean voyage', () => {
+    const voyage = parseVoyage('Port Houston\nLoad Acetic acid @ A1\nLoad Methanol @ A2', vessel);
+    expect(analyzeVoyage(vessel, {}, voyage, referenceData)).toMatchObject({ initialConflicts: [], firstConflict: null });
+  });
+
+  it('reports a conflict on board before the first port apart from the operations', () => {
+    const tanks = { '0-0': toTank({ name: 'Acetic acid', group: 4 }), '0-1': toTank({ name: 'Caustic soda', group: 5 }) };
+    const calm = analyzeVoyage(vessel, tanks, parseVoyage('Port Houston\nLoad Methanol @ A3', vessel), referenceData);
+    expect(calm.initialConflicts).toHaveLength(2);
+    expect(calm.firstConflict).toBeNull();
+
+    const voyage = parseVoyage('Port Houston\nDischarge A2\nLoad Caustic soda @ A2', vessel);
+    const { initialConflicts, firstConflict } = analyzeVoyage(vessel, tanks, voyage, referenceData);
+    expect(initialConflicts).toHaveLength(2);
+    expect(firstConflict).toBe(2);
+  });
+
+  it('leaves the tanks unchanged when an operation cannot be carried out', () => {
+    const voyage = parseVoyage('Port Houston\nLoad Acetic acid @ A1\nLoad Methanol @ A1\nDischarge A2\nDischarge Methanol @ A1\nLoad Unobtainium @ A3', vessel);
+    const { steps } = analyzeVoyage(vessel, {}, voyage, referenceData);
+    expect(steps.slice(2).map(step => step.error)).toEqual([
+      'Tank A1 still holds Acetic acid; discharge it first.',
+      'Tank A2 is already empty.',
+      'Tank A1 holds Acetic acid, not Methanol.',
+      "'Unobtainium' is not in the approved cargo index."
+    ]);
+    expect(steps[steps.length - 1].tanks['0-0'].chemical).toBe('Acetic acid');
+  });
+});
@@ -0,0 +1,191 @@
+// Voyage timeline: ordered port calls with load and discharge operations.
+// Every operation is applied in turn and the resulting tank state analyzed,
+// so intermediate states between ports are checked, not only the final one.
+import { analyze, isLoaded, toTank } from './cargo_compatibility_engine';
+import type { AnalysisOptions, AnalysisResult, Problem, ReferenceData, Tank } from './cargo_compatibility_engine';
+import { resolveChemical } from './chemical_lookup';
+import { isBlendText, resolveBlend } from './tank_blends';
+import { assessTankCleaning, dischargeTank } from './tank_cleaning';
+import type { CleaningAssessment } from './tank_cleaning';
+import { canHoldCargo, findTank, findTankByLabel, tankLabel } from './vessel_profile';
+import type { VesselProfile } from './vessel_profile';
+
+export type VoyageOperationType = 'load' | 'discharge';
+
+export interface VoyageOperation {
+  type: VoyageOperationType;
+  tankId: string;
+  // Cargo to load; for a discharge, optionally the cargo expected in the tank
+  chemical?: string;
+}
+
+export interface PortCall {
+  port: string;
+  operations: VoyageOperation[];
+}
+
+export interface Voyage {
+  portCalls: PortCall[];
+}
+
+export interface VoyageStep {
+  // -1 for the state before the first port call
+  portIndex: number;
+  port: string;
+  operation: VoyageOperation | null;
+  tanks: Record<string, Tank>;
+  analysis: AnalysisResult;
+  // Problems present after this step that were not present before it
+  newProblems: Problem[];
+  // Cleaning the tank needs before a load, given what it carried before
+  cleaning: CleaningAssessment | null;
+  error: string | null;
+}
+
+export interface VoyageAnalysis {
+  steps: VoyageStep[];
+  // Conflicts already on board before the first operation
+  initialConflicts: Problem[];
+  // Index into steps of the first operation that creates a conflict; never
+  // the starting state, whose conflicts are in initialConflicts
+  firstConflict: number | null;
+}
+
+// One port per "Port <name>" line, followed by "Load <cargo> @ <tank>" and
+// "Discharge <tank>" (or "Discharge <cargo> @ <tank>") lines. A loaded cargo
+// may be a blend, e.g. "Load Methanol 60% + Ethanol 40% @ A1".
+export const parseVoyage = (text: string, vessel: VesselProfile): Voyage => {
+  const portCalls: PortCall[] = [];
+  const resolveTank = (label: string, lineNumber: number) => {
+    const tank = findTankByLabel(vessel, label) || findTank(vessel, label);
+    if (!tank) {
+      throw new Error(`Line ${lineNumber}: tank '${label}' is not in the vessel profile.`);
+    }
+    return tank.id;
+  };
+
+  text.split('\n').forEach((raw, index) => {
+    const line = raw.trim();
+    const lineNumber = index + 1;
+    if (line === '' || line.startsWith('#')) return;
+
+    const port = line.match(/^port:?\s+(.+)$/i);
+    if (port) {
+      portCalls.push({ port: port[1].trim(), operations: [] });
+      return;
+    }
+
+    const operation = line.match(/^(load|discharge):?\s+(.+)$/i);
+    if (!operation) {
+      throw new Error(`Line ${lineNumber}: expected "Port", "Load" or "Discharge", found '${line}'.`);
+    }
+    if (portCalls.length === 0) {
+      throw new Error(`Line ${lineNumber}: operations must follow a "Port <name>" line.`);
+    }
+
+    const type = operation[1].toLowerCase() as VoyageOperationType;
+    const [first, second] = operation[2].split('@').map(part => part.trim());
+    const current = portCalls[portCalls.length - 1];
+    if (type === 'load') {
+      if (!first || !second) {
+        throw new Error(`Line ${lineNumber}: a load needs a cargo and a tank, e.g. "Load Methanol @ A3".`);
+      }
+      current.operations.push({ type, tankId: resolveTank(second, lineNumber), chemical: first });
+    } else if (second !== undefined) {
+      current.operations.push({ type, tankId: resolveTank(second, lineNumber), chemical: first || undefined });
+    } else {
+      current.operations.push({ type, tankId: resolveTank(first, lineNumber) });
+    }
+  });
+
+  return { portCalls };
+};
+
+const problemKey = (problem: Problem) =>
+  [`${problem.tank1}:${problem.chemical1}`, `${problem.tank2}:${problem.chemical2}`].sort().join('|') + `|${problem.compatibility}`;
+
+export const describeOperation = (vessel: VesselProfile, operation: VoyageOperation) =>
+  operation.type === 'load'
+    ? `Load ${operation.chemical} into ${tankLabel(vessel, operation.tankId)}`
+    : `Discharge ${operation.chemical ? `${operation.chemical} from ` : ''}${tankLabel(vessel, operation.tankId)}`;
+
+export const analyzeVoyage = (
+  vessel: VesselProfile,
+  initialTanks: Record<string, Tank>,
+  voyage: Voyage,
+  referenceData: ReferenceData,
+  options: AnalysisOptions = {}
+): VoyageAnalysis => {
+  const steps: VoyageStep[] = [];
+  let tanks = { ...initialTanks };
+  let previousProblems = new Set<string>();
+
+  const record = (
+    portIndex: number,
+    port: string,
+    operation: VoyageOperation | null,
+    error: string | null,
+    cleaning: CleaningAssessment | null = null
+  ) => {
+    const analysis = analyze({ vessel, tanks }, referenceData, options);
+    const newProblems = analysis.problems.filter(problem => !previousProblems.has(problemKey(problem)));
+    previousProblems = new Set(analysis.problems.map(problemKey));
+    steps.push({ portIndex, port, operation, tanks, analysis, newProblems, cleaning, error });
+  };
+
+  record(-1, 'Before first port', null, null);
+
+  voyage.portCalls.forEach((portCall, portIndex) => {
+    portCall.operations.forEach(operation => {
+      const vesselTank = findTank(vessel, operation.tankId);
+      const label = tankLabel(vessel, operation.tankId);
+      const current = tanks[operation.tankId];
+      let error: string | null = null;
+      let cleaning: CleaningAssessment | null = null;
+
+      // An operation that cannot be carried out leaves the tanks unchanged
+      if (!vesselTank || !canHoldCargo(vesselTank)) {
+        error = `Tank ${label} cannot hold cargo.`;
+      } else if (operation.type === 'load') {
+        let cargo: Tank | null = null;
+        if (isLoaded(current)) {
+          error = `Tank ${label} still holds ${current.chemical}; discharge it first.`;
+        } else if (isBlendText(operation.chemical || '')) {
+          try {
+            cargo = resolveBlend(operation.chemical || '', referenceData.chemicals);
+          } catch (blendError) {
+            error = (blendError as Error).message;
+          }
+        } else {
+          const lookup = resolveChemical(operation.chemical || '', referenceData.chemicals);
+          if (lookup.status === 'ambiguous') {
+            error = `'${operation.chemical}' matches ${lookup.candidates.length} chemicals; use the exact name, UN or CAS number.`;
+          } else if (lookup.status === 'not_found') {
+            error = `'${operation.chemical}' is not in the approved cargo index.`;
+          } else {
+            cargo = toTank(lookup.chemical);
+          }
+        }
+
+        if (cargo) {
+          tanks = { ...tanks, [operation.tankId]: { ...cargo, previousCargoes: tanks[operation.tankId]?.previousCargoes } };
+          cleaning = assessTankCleaning(operation.tankId, tanks[operation.tankId], referenceData);
+        }
+      } else if (!isLoaded(current)) {
+        error = `Tank ${label} is already empty.`;
+      } else {
+        const expected = operation.chemical ? resolveChemical(operation.chemical, referenceData.chemicals) : null;
+        if (expected && expected.status === 'found' && expected.chemical.name !== current.chemical) {
+          error = `Tank ${label} holds ${current.chemical}, not ${operation.chemical}.`;
+        } else {
+          tanks = { ...tanks, [operation.tankId]: dischargeTank(current) };
+        }
+      }
+
+      record(portIndex, portCall.port, operation, error, cleaning);
+    });
+  });
+
+  const firstConflict = steps.findIndex(step => step.operation !== null && step.newProblems.length > 0);
+  return { steps, initialConflicts: steps[0].analysis.problems, firstConflict: firstConflict === -1 ? null : firstConflict };
+};
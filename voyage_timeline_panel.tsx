@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { AlertTriangle, CheckCircle, XCircle, Anchor } from 'lucide-react';
+import { analyzeVoyage, describeOperation, parseVoyage } from './voyage_timeline';
+import type { VoyageAnalysis } from './voyage_timeline';
+import type { AdjacencyPolicy, ReferenceData, Tank } from './cargo_compatibility_engine';
+import { CLEANING_LEVEL_LABELS } from './tank_cleaning';
+import { tankLabel } from './vessel_profile';
+import type { VesselProfile } from './vessel_profile';
+
+interface VoyageTimelinePanelProps {
+  vessel: VesselProfile;
+  tanks: Record<string, Tank>;
+  referenceData: ReferenceData;
+  adjacencyPolicy: AdjacencyPolicy;
+  onError: (message: string) => void;
+}
+
+const VoyageTimelinePanel = ({ vessel, tanks, referenceData, adjacencyPolicy, onError }: VoyageTimelinePanelProps) => {
+  const [voyageText, setVoyageText] = useState('');
+  const [startFromCurrent, setStartFromCurrent] = useState(false);
+  const [timeline, setTimeline] = useState<VoyageAnalysis | null>(null);
+
+  const runTimeline = () => {
+    try {
+      const voyage = parseVoyage(voyageText, vessel);
+      setTimeline(analyzeVoyage(vessel, startFromCurrent ? tanks : {}, voyage, referenceData, { adjacencyPolicy }));
+    } catch (error) {
+      setTimeline(null);
+      onError(`Error reading voyage: ${(error as Error).message}`);
+    }
+  };
+
+  const firstConflict = timeline && timeline.firstConflict !== null ? timeline.steps[timeline.firstConflict] : null;
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg">
+      <h2 className="text-xl font-semibold mb-2">Voyage Timeline</h2>
+      <p className="text-sm text-gray-600 mb-2">
+        Port calls in order, each followed by its operations, e.g.{' '}
+        <span className="font-mono">Port Rotterdam</span>, <span className="font-mono">Load Methanol @ A1</span>,{' '}
+        <span className="font-mono">Discharge A2</span>.
+      </p>
+      <textarea
+        value={voyageText}
+        onChange={(e) => setVoyageText(e.target.value)}
+        rows={6}
+        className="w-full p-2 border rounded-md font-mono text-sm"
+        placeholder={'Port Rotterdam\nLoad Methanol @ A1\nLoad Acetone @ B1\nPort Houston\nDischarge A1\nLoad Sulfuric acid @ A1'}
+      />
+      <div className="flex items-center gap-4 mt-2">
+        <button
+          onClick={runTimeline}
+          disabled={!voyageText.trim()}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300"
+        >
+          <Anchor className="w-4 h-4" />
+          Check Voyage
+        </button>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={startFromCurrent}
+            onChange={(e) => setStartFromCurrent(e.target.checked)}
+          />
+          Start from the current tank assignments
+        </label>
+      </div>
+
+      {timeline && (
+        <div className="mt-4 space-y-2">
+          {timeline.initialConflicts.length > 0 && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-800">
+              <div className="flex items-center gap-2 font-medium">
+                <XCircle className="w-5 h-5 text-red-500" />
+                Conflict already on board before the first port: {timeline.initialConflicts.length} problem(s)
+              </div>
+            </div>
+          )}
+          {firstConflict && firstConflict.operation ? (
+            <div className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-800">
+              <div className="flex items-center gap-2 font-medium">
+                <XCircle className="w-5 h-5 text-red-500" />
+                First conflict: {firstConflict.port}, {describeOperation(vessel, firstConflict.operation)}
+              </div>
+            </div>
+          ) : timeline.initialConflicts.length === 0 ? (
+            <div className="flex items-center gap-2 text-green-700 font-medium">
+              <CheckCircle className="w-5 h-5 text-green-500" />
+              No incompatible adjacency at any step of the voyage
+            </div>
+          ) : (
+            <div className="text-sm text-gray-700">No operation of the voyage adds a conflict</div>
+          )}
+
+          <ol className="border-l-2 border-gray-300 ml-2">
+            {timeline.steps.map((step, index) => {
+              const conflicts = step.analysis.problems.length;
+              const startsPort = index > 0 && step.portIndex !== timeline.steps[index - 1].portIndex;
+              return (
+                <li key={index} className="ml-4 mb-2">
+                  {startsPort && <div className="font-semibold text-gray-800 mt-2">{step.port}</div>}
+                  <div className={`p-2 rounded border text-sm ${
+                    index === timeline.firstConflict ? 'bg-red-50 border-red-300' : conflicts > 0 ? 'bg-yellow-50 border-yellow-200' : 'bg-white'
+                  }`}>
+                    <div className="flex items-center gap-2">
+                      {conflicts > 0
+                        ? <AlertTriangle className="w-4 h-4 text-red-500" />
+                        : <CheckCircle className="w-4 h-4 text-green-500" />}
+                      <span className="font-medium">
+                        {step.operation ? describeOperation(vessel, step.operation) : step.port}
+                      </span>
+                      <span className="text-gray-500">
+                        {conflicts > 0 ? `${conflicts} conflict(s) on board` : 'no conflicts'}
+                      </span>
+                    </div>
+                    {step.error && <div className="text-red-700 mt-1">Not applied: {step.error}</div>}
+                    {step.cleaning && step.cleaning.level !== 'none' && (
+                      <div className="text-yellow-700 mt-1">
+                        {CLEANING_LEVEL_LABELS[step.cleaning.level]} required before loading: {step.cleaning.findings
+                          .filter(finding => finding.cleaning === step.cleaning?.level)
+                          .map(finding => finding.reason)
+                          .join(' ')}
+                      </div>
+                    )}
+                    {step.newProblems.map((problem, problemIndex) => (
+                      <div key={problemIndex} className="text-red-700 mt-1">
+                        New: {tankLabel(vessel, problem.tank1)} ({problem.chemical1}) ↔ {tankLabel(vessel, problem.tank2)} ({problem.chemical2})
+                        {' '}— {problem.compatibility.replace(/_/g, ' ')}
+                      </div>
+                    ))}
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VoyageTimelinePanel;